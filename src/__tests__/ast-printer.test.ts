@@ -183,6 +183,23 @@ describe("AstPrinter", () => {
       const result = printer.printNode(node, sourceFile, { namespaceImportNames });
       expect(result).toContain("type Foo");
     });
+
+    it("should print external references as import types with importTypes", () => {
+      const code = "type Foo = Bar<string> | ns.Baz | Def | typeof value;";
+      const sourceFile = ts.createSourceFile("test.ts", code, ts.ScriptTarget.Latest, true);
+      const node = sourceFile.statements[0];
+
+      const importTypes = new Map([
+        ["Bar", { moduleName: "bar", importName: "Bar" }],
+        ["ns", { moduleName: "baz" }],
+        ["Def", { moduleName: "def", importName: "default" }],
+        ["value", { moduleName: "bar", importName: "value" }],
+      ]);
+      const result = printer.printNode(node, sourceFile, { importTypes });
+      expect(result).toBe(
+        'type Foo = import("bar").Bar<string> | import("baz").Baz | import("def").default | typeof import("bar").value;',
+      );
+    });
   });
 
   describe("complex node printing", () => {
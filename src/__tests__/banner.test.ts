@@ -0,0 +1,60 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { checkBannerOption, getBannerVariables, renderBanner } from "../helpers/banner";
+import { createVirtualSystem } from "../helpers/virtual-system";
+
+describe("getBannerVariables", () => {
+  const root = path.resolve("/virtual");
+
+  it("should read the nearest package.json of the entry", () => {
+    const system = createVirtualSystem({
+      [path.join(root, "package.json")]: JSON.stringify({ name: "@acme/widgets", version: "1.2.3" }),
+      [path.join(root, "src", "index.ts")]: "export {};",
+    });
+    const variables = getBannerVariables(path.join(root, "src", "index.ts"), system, null);
+    expect(variables).toEqual({
+      packageName: "@acme/widgets",
+      packageVersion: "1.2.3",
+      entry: "src/index.ts",
+      bundlerVersion: "unversioned",
+      date: new Date().toISOString().slice(0, 10),
+    });
+  });
+
+  it("should leave the package variables empty without a package.json", () => {
+    const system = createVirtualSystem({ [path.join(root, "src", "index.ts")]: "export {};" });
+    const variables = getBannerVariables(path.join(root, "src", "index.ts"), system, "2.0.0");
+    expect(variables).toMatchObject({
+      packageName: "",
+      packageVersion: "",
+      entry: "index.ts",
+      bundlerVersion: "2.0.0",
+    });
+  });
+});
+
+describe("renderBanner", () => {
+  const variables = {
+    packageName: "@acme/widgets",
+    packageVersion: "1.2.3",
+    entry: "src/index.ts",
+    bundlerVersion: "2.0.0",
+    date: "2026-01-31",
+  };
+
+  it("should replace the variables of templates", () => {
+    expect(renderBanner("// {{packageName}}@{{ packageVersion }} ({{date}})\n", variables)).toBe(
+      "// @acme/widgets@1.2.3 (2026-01-31)",
+    );
+    expect(renderBanner(({ entry }) => `// ${entry}`, variables)).toBe("// src/index.ts");
+    expect(renderBanner("\n", variables)).toBeUndefined();
+    expect(renderBanner(undefined, variables)).toBeUndefined();
+  });
+
+  it("should reject unknown variables", () => {
+    expect(checkBannerOption("banner", "// {{bundlerVersion}}")).toBe("// {{bundlerVersion}}");
+    expect(() => checkBannerOption("banner", "// {{version}}")).toThrow(
+      "Unknown variable '{{version}}' in the 'banner' option",
+    );
+  });
+});
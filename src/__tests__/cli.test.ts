@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { formatCliHelp, parseCliArgs } from "../cli";
+
+describe("parseCliArgs", () => {
+  it("should parse string, list and boolean flags", () => {
+    expect(
+      parseCliArgs([
+        "-e",
+        "src/index.ts",
+        "--output=dist/index.d.ts",
+        "-i",
+        "pkg1, @scope/pkg2",
+        "--allowed-types-libraries",
+        "node",
+        "--umd-module-name",
+        "MyLib",
+        "--sort-nodes",
+        "--validate",
+      ]),
+    ).toEqual({
+      entry: "src/index.ts",
+      outFile: "dist/index.d.ts",
+      inlinedLibraries: ["pkg1", "@scope/pkg2"],
+      allowedTypesLibraries: ["node"],
+      umdModuleName: "MyLib",
+      sortNodes: true,
+      validate: true,
+    });
+  });
+
+  it("should keep accepting the camelCase --inlinedLibraries flag", () => {
+    expect(parseCliArgs(["--inlinedLibraries", "pkg1,pkg2"])).toEqual({ inlinedLibraries: ["pkg1", "pkg2"] });
+  });
+
+  it("should negate boolean flags with the no- prefix", () => {
+    expect(parseCliArgs(["--validate", "--no-validate", "--no-inline-declare-globals"])).toEqual({
+      validate: false,
+      inlineDeclareGlobals: false,
+    });
+    expect(parseCliArgs(["--no-banner"])).toEqual({ noBanner: true });
+    expect(parseCliArgs(["--no-banner", "--banner"])).toEqual({ noBanner: false });
+  });
+
+  it("should parse the banner and footer templates", () => {
+    expect(parseCliArgs(["--banner-text", "// {{packageName}}", "--footer-text=// end"])).toEqual({
+      banner: "// {{packageName}}",
+      footer: "// end",
+    });
+  });
+
+  it("should parse compiler options as a JSON object", () => {
+    expect(parseCliArgs(["--compiler-options", '{"module":"nodenext"}'])).toEqual({
+      compilerOptions: { module: "nodenext" },
+    });
+    expect(() => parseCliArgs(["--compiler-options", "[]"])).toThrow(
+      "Option --compiler-options expects a JSON object, got: []",
+    );
+  });
+
+  it("should reject unknown flags and unexpected arguments", () => {
+    expect(() => parseCliArgs(["--entyr", "src/index.ts"])).toThrow("Unknown option: --entyr");
+    expect(() => parseCliArgs(["src/index.ts"])).toThrow("Unexpected argument: src/index.ts");
+    expect(() => parseCliArgs(["--validate=false"])).toThrow("Option --validate does not take a value");
+  });
+
+  it("should reject flags missing their value", () => {
+    expect(() => parseCliArgs(["-e"])).toThrow("Option -e requires a value");
+    expect(() => parseCliArgs(["--entry", "--validate"])).toThrow("Option --entry requires a value");
+    expect(() => parseCliArgs(["--entry", "--output=dist/index.d.ts"])).toThrow("Option --entry requires a value");
+    expect(() => parseCliArgs(["--entry", "-o"])).toThrow("Option --entry requires a value");
+  });
+
+  it("should accept values starting with a dash that are not flags", () => {
+    expect(parseCliArgs(["--banner-text", "-- generated, do not edit", "-i", "-pkg"])).toEqual({
+      banner: "-- generated, do not edit",
+      inlinedLibraries: ["-pkg"],
+    });
+  });
+});
+
+describe("formatCliHelp", () => {
+  it("should list every flag with its aliases and value", () => {
+    const help = formatCliHelp();
+    expect(help).toContain("-e, --entry <file>");
+    expect(help).toContain("-i, --inlined-libraries <list>");
+    expect(help).toContain("--respect-preserve-const-enum");
+    expect(help).toContain("--no-banner");
+    expect(help).toContain("Boolean flags are turned off with --no-<flag>");
+    expect(help).not.toContain("--inlinedLibraries");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { applyCommentPolicy, resolveCommentPolicy } from "../helpers/comment-policy";
+
+describe("resolveCommentPolicy", () => {
+  it("should normalize the stripped tags and leave unset options out", () => {
+    expect(resolveCommentPolicy(undefined, undefined)).toBeUndefined();
+    expect(resolveCommentPolicy(undefined, ["@example", "remarks"])).toEqual({
+      comments: undefined,
+      stripJsDocTags: ["example", "remarks"],
+    });
+  });
+
+  it("should reject unknown modes and invalid tags", () => {
+    expect(() => resolveCommentPolicy("docs" as "all", undefined)).toThrow("The 'comments' option must be");
+    expect(() => resolveCommentPolicy(undefined, ["@ example"])).toThrow(
+      "The 'stripJsDocTags' option must list JSDoc tag names, got ' example'",
+    );
+  });
+});
+
+describe("applyCommentPolicy", () => {
+  const chunk = [
+    "// Point",
+    "/** A point. */",
+    "interface Point {",
+    "  /* x */ x: number; // abscissa",
+    '  label: "// not a comment";',
+    "}",
+  ].join("\n");
+
+  it("should keep JSDoc comments only with jsdoc", () => {
+    expect(applyCommentPolicy(chunk, { comments: "jsdoc", stripJsDocTags: [] }, false)).toBe(
+      ["/** A point. */", "interface Point {", "  x: number;", '  label: "// not a comment";', "}"].join("\n"),
+    );
+  });
+
+  it("should keep the JSDoc of exported declarations only with exported-only", () => {
+    const policy = { comments: "exported-only" as const, stripJsDocTags: [] };
+    expect(applyCommentPolicy(chunk, policy, true)).toContain("/** A point. */\ninterface Point {");
+    expect(applyCommentPolicy(chunk, policy, false)).toMatch(/^interface Point \{\n {2}x: number;\n/);
+  });
+
+  it("should remove tag blocks up to the next tag, ignoring code fences", () => {
+    const jsDoc = [
+      "/**",
+      " * Create a point.",
+      " * @example",
+      " * ```ts",
+      " * @sealed",
+      " * createPoint();",
+      " * ```",
+      " * @sealed",
+      " * @remarks Points are immutable.",
+      " *",
+      " */",
+      "declare function createPoint(): Point;",
+    ].join("\n");
+    expect(applyCommentPolicy(jsDoc, { stripJsDocTags: ["sealed", "remarks"] }, true)).toBe(
+      [
+        "/**",
+        " * Create a point.",
+        " * @example",
+        " * ```ts",
+        " * @sealed",
+        " * createPoint();",
+        " * ```",
+        " */",
+        "declare function createPoint(): Point;",
+      ].join("\n"),
+    );
+  });
+
+  it("should remove JSDoc comments left empty", () => {
+    expect(applyCommentPolicy("/** @internal */\ntype A = string;", { stripJsDocTags: ["internal"] }, true)).toBe(
+      "type A = string;",
+    );
+  });
+});
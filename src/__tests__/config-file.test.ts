@@ -0,0 +1,171 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findConfigFile, loadConfig, selectTargets } from "../config-file";
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dts-bundler-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (fileName: string, content: unknown): string => {
+    const filePath = path.join(dir, fileName);
+    fs.writeFileSync(filePath, typeof content === "string" ? content : JSON.stringify(content));
+    return filePath;
+  };
+
+  it("should merge the defaults into each target and resolve paths against the config", async () => {
+    const configPath = writeFile("dts-bundler.config.json", {
+      defaults: { noBanner: true, inlinedLibraries: ["pkg"], cacheDir: ".cache" },
+      targets: [
+        { name: "main", entry: "src/index.ts", output: "dist/index.d.ts" },
+        { entry: "src/react.ts", output: "dist/react.d.ts", noBanner: false },
+      ],
+    });
+
+    expect(await loadConfig(undefined, dir)).toEqual({
+      configPath,
+      targets: [
+        {
+          name: "main",
+          entry: path.join(dir, "src/index.ts"),
+          output: path.join(dir, "dist/index.d.ts"),
+          noBanner: true,
+          inlinedLibraries: ["pkg"],
+          cacheDir: path.join(dir, ".cache"),
+        },
+        {
+          entry: path.join(dir, "src/react.ts"),
+          output: path.join(dir, "dist/react.d.ts"),
+          noBanner: false,
+          inlinedLibraries: ["pkg"],
+          cacheDir: path.join(dir, ".cache"),
+        },
+      ],
+    });
+  });
+
+  it("should load the default export of .mjs and .ts configs", async () => {
+    writeFile("dts-bundler.config.mjs", 'export default { targets: [{ entry: "a.ts", output: "a.d.ts" }] };');
+    expect((await loadConfig("dts-bundler.config.mjs", dir))?.targets[0].entry).toBe(path.join(dir, "a.ts"));
+
+    writeFile(
+      "dts-bundler.config.ts",
+      'const output: string = "b.d.ts";\nexport default { targets: [{ entry: "b.ts", output }] };',
+    );
+    expect(findConfigFile(dir)).toBe(path.join(dir, "dts-bundler.config.ts"));
+    expect((await loadConfig(undefined, dir))?.targets[0].output).toBe(path.join(dir, "b.d.ts"));
+    // The transpiled module is removed again
+    expect(fs.readdirSync(dir).sort()).toEqual(["dts-bundler.config.mjs", "dts-bundler.config.ts"]);
+  });
+
+  it("should read the dtsBundler key of package.json", async () => {
+    const configPath = writeFile("package.json", {
+      name: "pkg",
+      dtsBundler: { targets: [{ entry: "index.ts", output: "index.d.ts" }] },
+    });
+    expect((await loadConfig(undefined, dir))?.configPath).toBe(configPath);
+  });
+
+  it("should return null when there is no config", async () => {
+    writeFile("package.json", { name: "pkg" });
+    expect(await loadConfig(undefined, dir)).toBeNull();
+    await expect(loadConfig("missing.json", dir)).rejects.toThrow(
+      `Cannot find config file: ${path.join(dir, "missing.json")}`,
+    );
+  });
+
+  it("should report every schema error with its path", async () => {
+    const configPath = writeFile("dts-bundler.config.json", {
+      default: {},
+      defaults: { inlineLibraries: ["pkg"] },
+      targets: [
+        { name: "a", entry: "a.ts", output: "a.d.ts", noBanner: "yes" },
+        { name: "a", entry: "b.ts", importedLibraries: "pkg", compilerOptions: [] },
+      ],
+    });
+
+    await expect(loadConfig(undefined, dir)).rejects.toThrow(
+      [
+        `Invalid config ${configPath}:`,
+        '  - default is not a known option (did you mean "defaults"?)',
+        '  - defaults.inlineLibraries is not a known option (did you mean "inlinedLibraries"?)',
+        '  - targets[0].noBanner must be a boolean, got "yes"',
+        '  - targets[1].importedLibraries must be an array of strings, got "pkg"',
+        "  - targets[1].compilerOptions must be an object, got []",
+        "  - targets[1].output is required",
+        '  - targets[1].name "a" is used by another target',
+      ].join("\n"),
+    );
+  });
+
+  it("should accept plugins from JavaScript configs and check their names", async () => {
+    writeFile(
+      "dts-bundler.config.mjs",
+      [
+        "const plugin = { name: 'footer', transformOutput: (code) => code };",
+        'export default { defaults: { plugins: [plugin] }, targets: [{ entry: "a.ts", output: "a.d.ts" }] };',
+      ].join("\n"),
+    );
+    const config = await loadConfig(undefined, dir);
+    expect(config?.targets[0].plugins?.map(({ name }) => name)).toEqual(["footer"]);
+
+    const configPath = writeFile(
+      "invalid.config.mjs",
+      'export default { targets: [{ entry: "a.ts", output: "a.d.ts", plugins: [{ transformOutput() {} }] }] };',
+    );
+    await expect(loadConfig("invalid.config.mjs", dir)).rejects.toThrow(
+      `Invalid config ${configPath}:\n  - targets[0].plugins[0] must be a plugin object with a name`,
+    );
+  });
+
+  it("should accept banner functions from JavaScript configs", async () => {
+    writeFile(
+      "dts-bundler.config.mjs",
+      'export default { targets: [{ entry: "a.ts", output: "a.d.ts", banner: () => "// a", footer: "// end" }] };',
+    );
+    const config = await loadConfig(undefined, dir);
+    expect(typeof config?.targets[0].banner).toBe("function");
+
+    const configPath = writeFile("dts-bundler.config.json", {
+      targets: [{ entry: "a.ts", output: "a.d.ts", footer: 1 }],
+    });
+    await expect(loadConfig("dts-bundler.config.json", dir)).rejects.toThrow(
+      `Invalid config ${configPath}:\n  - targets[0].footer must be a string or a function, got 1`,
+    );
+  });
+
+  it("should reject configs without targets", async () => {
+    writeFile("dts-bundler.config.json", { targets: [] });
+    await expect(loadConfig(undefined, dir)).rejects.toThrow("targets must be a non-empty array");
+  });
+});
+
+describe("selectTargets", () => {
+  const config = {
+    configPath: "/project/dts-bundler.config.json",
+    targets: [
+      { name: "main", entry: "/project/index.ts", output: "/project/index.d.ts" },
+      { name: "react", entry: "/project/react.ts", output: "/project/react.d.ts" },
+    ],
+  };
+
+  it("should select targets by name in config order", () => {
+    expect(selectTargets(config)).toEqual(config.targets);
+    expect(selectTargets(config, ["react", "main"])).toEqual(config.targets);
+    expect(selectTargets(config, ["react"])).toEqual([config.targets[1]]);
+  });
+
+  it("should list the available targets for unknown names", () => {
+    expect(() => selectTargets(config, ["vue"])).toThrow(
+      'Unknown target "vue" in /project/dts-bundler.config.json; available targets: main, react',
+    );
+  });
+});
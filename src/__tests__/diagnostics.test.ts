@@ -0,0 +1,98 @@
+import * as ts from "typescript";
+import { describe, expect, it, vi } from "vitest";
+import { BundleDiagnosticError, DiagnosticReporter, createDiagnostic, formatDiagnostic } from "../diagnostics";
+import { modifiersToMap, recreateRootLevelNodeWithModifiers } from "../helpers/ast-transformer";
+import { DiagnosticCode } from "../types";
+
+describe("createDiagnostic", () => {
+  it("should locate the diagnostic at the node", () => {
+    const sourceFile = ts.createSourceFile(
+      "/src/test.ts",
+      "type A = string;\nfunction foo() {}",
+      ts.ScriptTarget.Latest,
+      true,
+    );
+    const diagnostic = createDiagnostic(
+      DiagnosticCode.ReturnTypeFallback,
+      "warning",
+      "message",
+      sourceFile.statements[1],
+    );
+
+    expect(diagnostic).toEqual({
+      code: "DTS1003",
+      severity: "warning",
+      message: "message",
+      file: "/src/test.ts",
+      line: 2,
+      column: 1,
+    });
+  });
+
+  it("should omit the location for synthesized nodes", () => {
+    const node = ts.factory.createIdentifier("foo");
+    const diagnostic = createDiagnostic(DiagnosticCode.UnknownNodeKind, "error", "message", node);
+
+    expect(diagnostic).toEqual({ code: "DTS1004", severity: "error", message: "message" });
+  });
+});
+
+describe("formatDiagnostic", () => {
+  it("should include the location when present", () => {
+    const formatted = formatDiagnostic({
+      code: DiagnosticCode.UnresolvedImport,
+      severity: "warning",
+      message: "Cannot resolve module './missing'",
+      file: "/src/index.ts",
+      line: 1,
+      column: 30,
+    });
+
+    expect(formatted).toBe("/src/index.ts:1:30 - warning DTS1001: Cannot resolve module './missing'");
+  });
+
+  it("should format diagnostics without a location", () => {
+    const formatted = formatDiagnostic({ code: DiagnosticCode.UnknownVersion, severity: "warning", message: "msg" });
+
+    expect(formatted).toBe("warning DTS1002: msg");
+  });
+});
+
+describe("DiagnosticReporter", () => {
+  it("should collect diagnostics and forward them to the callback", () => {
+    const onDiagnostic = vi.fn();
+    const reporter = new DiagnosticReporter(onDiagnostic);
+
+    reporter.warning(DiagnosticCode.UnknownVersion, "msg");
+
+    const expected = { code: "DTS1002", severity: "warning", message: "msg" };
+    expect(reporter.getDiagnostics()).toEqual([expected]);
+    expect(onDiagnostic).toHaveBeenCalledWith(expected);
+  });
+});
+
+describe("recreateRootLevelNodeWithModifiers", () => {
+  it("should throw a BundleDiagnosticError for unknown node kinds", () => {
+    const sourceFile = ts.createSourceFile("/src/test.ts", "foo();", ts.ScriptTarget.Latest, true);
+    const statement = sourceFile.statements[0];
+
+    let error: unknown;
+    try {
+      recreateRootLevelNodeWithModifiers(statement, modifiersToMap(undefined));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(BundleDiagnosticError);
+    expect((error as BundleDiagnosticError).diagnostics).toEqual([
+      {
+        code: "DTS1004",
+        severity: "error",
+        message: "Unknown top-level node kind (with modifiers): ExpressionStatement",
+        file: "/src/test.ts",
+        line: 1,
+        column: 1,
+      },
+    ]);
+  });
+});
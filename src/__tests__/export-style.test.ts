@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { moveExportsInline, moveExportsToList } from "../helpers/export-style";
+
+describe("moveExportsToList", () => {
+  it("should remove export modifiers, keeping declare on values, and sort the merged list", () => {
+    const { chunks, list } = moveExportsToList(
+      ["/** Docs */\nexport interface B {}", "export function c(): void;", "export declare const d: 1, a: 2;"],
+      { items: ["X as A"], typeOnlyItems: new Set() },
+    );
+    expect(chunks).toEqual(["/** Docs */\ninterface B {}", "declare function c(): void;", "declare const d: 1, a: 2;"]);
+    expect(list.items).toEqual(["X as A", "B", "a", "c", "d"]);
+    expect([...list.typeOnlyItems]).toEqual(["B"]);
+  });
+});
+
+describe("moveExportsInline", () => {
+  it("should only inline the items every declaration of which can be exported", () => {
+    const { chunks, list } = moveExportsInline(
+      ["/** Docs */\ninterface A {}", "declare class B {}", "declare const c: 1, d: 2;", "declare const e: 1;"],
+      { items: ["A", "B", "c", "X as e"], typeOnlyItems: new Set(["A", "B"]) },
+    );
+    expect(chunks).toEqual([
+      "/** Docs */\nexport interface A {}",
+      "declare class B {}",
+      "declare const c: 1, d: 2;",
+      "declare const e: 1;",
+    ]);
+    expect(list.items).toEqual(["B", "c", "X as e"]);
+  });
+});
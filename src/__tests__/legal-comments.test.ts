@@ -0,0 +1,30 @@
+import * as ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { collectLegalComments, stripLeadingLegalComments } from "../helpers/legal-comments";
+
+function createSourceFile(fileName: string, text: string): ts.SourceFile {
+  return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+}
+
+describe("collectLegalComments", () => {
+  it("should collect /*! comments and @license or @preserve comments once", () => {
+    const first = createSourceFile(
+      "/a.d.ts",
+      "/*! a v1 */\r\n/** Docs */\r\nexport type A = string;\r\n/** @preserve\r\n * kept\r\n */\r\ntype B = `/*! not a comment */`;",
+    );
+    const second = createSourceFile("/b.d.ts", "// @license MIT\n/*! a v1 */\n// @licensed is not a tag\nexport {};");
+    expect(collectLegalComments([first, second])).toEqual([
+      "/*! a v1 */",
+      "/** @preserve\n * kept\n */",
+      "// @license MIT",
+    ]);
+  });
+});
+
+describe("stripLeadingLegalComments", () => {
+  it("should only remove the legal comments leading a chunk", () => {
+    expect(stripLeadingLegalComments("/*! a v1 */\n/** Docs */\n// @license MIT\ntype A = string; // @license")).toBe(
+      "/** Docs */\ntype A = string; // @license",
+    );
+  });
+});
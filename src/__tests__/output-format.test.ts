@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  formatOutputChunk,
+  joinOutputLines,
+  resolveOutputFormat,
+} from "../helpers/output-format";
+
+describe("resolveOutputFormat", () => {
+  it("should apply the defaults to unset options", () => {
+    expect(resolveOutputFormat(undefined)).toEqual(DEFAULT_OUTPUT_FORMAT);
+    expect(resolveOutputFormat({ quoteStyle: "single" })).toEqual({ ...DEFAULT_OUTPUT_FORMAT, quoteStyle: "single" });
+  });
+
+  it("should reject invalid values", () => {
+    expect(() => resolveOutputFormat({ endOfLine: "cr" as "lf" })).toThrow(
+      `The 'format.endOfLine' option must be "lf" or "crlf"`,
+    );
+    expect(() => resolveOutputFormat({ indentWidth: 1.5 })).toThrow(
+      "The 'format.indentWidth' option must be a positive integer",
+    );
+  });
+});
+
+describe("formatOutputChunk", () => {
+  const format = resolveOutputFormat({ indentStyle: "tab", quoteStyle: "single", semicolons: false });
+
+  it("should reindent lines and keep the alignment of JSDoc lines", () => {
+    const chunk = [
+      "declare namespace A {",
+      "  /**",
+      "   * Doc",
+      "   */",
+      "  interface B {",
+      "    c: string;",
+      "  }",
+      "}",
+    ];
+    expect(formatOutputChunk(chunk.join("\n"), format)).toBe(
+      ["declare namespace A {", "\t/**", "\t * Doc", "\t */", "\tinterface B {", "\t\tc: string", "\t}", "}"].join(
+        "\n",
+      ),
+    );
+  });
+
+  it("should requote string literals with the fewest escapes", () => {
+    const chunk = `type A = "a" | "it's" | "say \\"hi\\"" | 'b';`;
+    expect(formatOutputChunk(chunk, format)).toBe(`type A = 'a' | "it's" | 'say "hi"' | 'b'`);
+    expect(formatOutputChunk(chunk, resolveOutputFormat({}))).toBe(`type A = "a" | "it's" | 'say "hi"' | "b";`);
+  });
+
+  it("should leave comments and template literals untouched", () => {
+    const chunk = [
+      '// "quoted";',
+      "type A = `",
+      '  "text";',
+      '${"b"}',
+      '  "more";`; // "trailing"',
+      'type B = { a: "x"; b: string };',
+    ].join("\n");
+    expect(formatOutputChunk(chunk, format)).toBe(
+      [
+        '// "quoted";',
+        "type A = `",
+        '  "text";',
+        "${'b'}",
+        '  "more";` // "trailing"',
+        "type B = { a: 'x'; b: string }",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("joinOutputLines", () => {
+  it("should use the line endings and trailing newline of the format", () => {
+    expect(joinOutputLines(["a", "b\nc"], DEFAULT_OUTPUT_FORMAT)).toBe("a\nb\nc\n");
+    expect(joinOutputLines(["a", "b\nc"], resolveOutputFormat({ endOfLine: "crlf", trailingNewline: false }))).toBe(
+      "a\r\nb\r\nc",
+    );
+  });
+});
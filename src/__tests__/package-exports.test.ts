@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { collectPackageTypesTargets } from "../package-exports";
+
+describe("collectPackageTypesTargets", () => {
+  it("should collect the top-level types field", () => {
+    expect(collectPackageTypesTargets({ types: "./dist/index.d.ts" })).toEqual([
+      { subpath: ".", target: "./dist/index.d.ts" },
+    ]);
+  });
+
+  it("should fall back to the typings field", () => {
+    expect(collectPackageTypesTargets({ typings: "./index.d.ts" })).toEqual([{ subpath: ".", target: "./index.d.ts" }]);
+  });
+
+  it("should treat a conditions object as the root subpath", () => {
+    expect(collectPackageTypesTargets({ exports: { types: "./dist/index.d.ts", default: "./dist/index.js" } })).toEqual(
+      [{ subpath: ".", target: "./dist/index.d.ts" }],
+    );
+  });
+
+  it("should collect nested types conditions per subpath", () => {
+    const targets = collectPackageTypesTargets({
+      exports: {
+        ".": { import: { types: "./dist/index.d.mts" }, require: { types: "./dist/index.d.cts" } },
+        "./utils": [{ types: "./dist/utils.d.ts" }, "./dist/utils.js"],
+        "./package.json": "./package.json",
+      },
+    });
+
+    expect(targets).toEqual([
+      { subpath: ".", target: "./dist/index.d.mts" },
+      { subpath: ".", target: "./dist/index.d.cts" },
+      { subpath: "./utils", target: "./dist/utils.d.ts" },
+    ]);
+  });
+
+  it("should not duplicate a types field that matches an exports target", () => {
+    const targets = collectPackageTypesTargets({
+      exports: { ".": { types: "./dist/index.d.ts" } },
+      types: "./dist/index.d.ts",
+    });
+
+    expect(targets).toEqual([{ subpath: ".", target: "./dist/index.d.ts" }]);
+  });
+
+  it("should throw for subpath patterns", () => {
+    expect(() => collectPackageTypesTargets({ exports: { "./*": { types: "./dist/*.d.ts" } } })).toThrow(
+      "Subpath patterns are not supported",
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import * as ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { getReleaseTag, getReleaseTaggedMembers, getRollupFileName } from "../helpers/release-tags";
+
+const parse = (code: string): ts.Statement => {
+  const sourceFile = ts.createSourceFile("input.ts", code, ts.ScriptTarget.Latest, true);
+  return sourceFile.statements[0];
+};
+
+describe("getReleaseTag", () => {
+  it("should default to public and prefer the least public tag", () => {
+    expect(getReleaseTag(parse("export interface A {}"))).toBe("public");
+    expect(getReleaseTag(parse("/** @beta */\nexport interface A {}"))).toBe("beta");
+    expect(getReleaseTag(parse("/**\n * @public\n * @internal\n */\nexport interface A {}"))).toBe("internal");
+  });
+});
+
+describe("getReleaseTaggedMembers", () => {
+  it("should make nested members at most as public as their parent", () => {
+    const members = getReleaseTaggedMembers(
+      parse(
+        "interface A {\n  a: string;\n  /** @alpha */\n  b: {\n    c: string;\n    /** @internal */\n    d: string;\n  };\n}",
+      ),
+    );
+    expect([...members].map(([node, tag]) => [(node as ts.PropertySignature).name.getText(), tag])).toEqual([
+      ["b", "alpha"],
+      ["c", "alpha"],
+      ["d", "internal"],
+    ]);
+  });
+});
+
+describe("getRollupFileName", () => {
+  it("should insert the release level before the declaration extension", () => {
+    expect(getRollupFileName("dist/index.d.ts", "public")).toBe("dist/index.public.d.ts");
+    expect(getRollupFileName("dist/index.d.mts", "beta")).toBe("dist/index.beta.d.mts");
+    expect(getRollupFileName("dist/types", "alpha")).toBe("dist/types.alpha");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createBundleReport } from "../report";
+import { type BundleResult, DiagnosticCode } from "../types";
+
+const result: BundleResult = {
+  code: "export {};\n",
+  diagnostics: [
+    {
+      code: DiagnosticCode.ReturnTypeFallback,
+      severity: "warning",
+      message: "Cannot infer the return type of 'create'",
+      file: "/project/src/index.ts",
+      line: 3,
+      column: 1,
+    },
+    { code: "TS1110", severity: "error", message: "Type expected." },
+  ],
+  includedFiles: ["/project/src/index.ts", "/project/src/server.ts"],
+  externalImports: [
+    { moduleName: "react", name: "FC", localName: "FC", isTypeOnly: true },
+    { moduleName: "events", name: "EventEmitter", localName: "EventEmitter", isTypeOnly: false },
+    { moduleName: "react", name: "ReactNode", localName: "ReactNode", isTypeOnly: true },
+  ],
+  renamedDeclarations: [{ name: "Options", normalizedName: "Options$1", sourceFile: "/project/src/server.ts" }],
+  removedDeclarations: [{ name: "Unused", sourceFile: "/project/src/index.ts" }],
+  referencedTypesLibraries: ["node"],
+  stats: {
+    timings: { collect: 120.456, parse: 3.001, analyze: 1.5, normalize: 0.25, shake: 0.125, generate: 8.9999 },
+    fileCount: 4,
+    declarationCount: 6,
+  },
+};
+
+describe("createBundleReport", () => {
+  it("should summarize each bundle with paths relative to the working directory", () => {
+    const report = createBundleReport(
+      [{ name: "main", entry: "/project/src/index.ts", output: "/project/dist/index.d.ts", result }],
+      { duration: 150.123456, cwd: "/project" },
+    );
+
+    expect(report.duration).toBe(150.12);
+    expect(report.bundles).toEqual([
+      {
+        name: "main",
+        entry: "src/index.ts",
+        output: "dist/index.d.ts",
+        timings: { collect: 120.46, parse: 3, analyze: 1.5, normalize: 0.25, shake: 0.13, generate: 9 },
+        files: { collected: 4, included: 2 },
+        declarations: { total: 6, emitted: 5, removed: 1, renamed: 1 },
+        externalModules: ["events", "react"],
+        referencedTypesLibraries: ["node"],
+        renamedDeclarations: [{ name: "Options", normalizedName: "Options$1", sourceFile: "src/server.ts" }],
+        diagnostics: [
+          {
+            code: "DTS1003",
+            severity: "warning",
+            message: "Cannot infer the return type of 'create'",
+            file: "src/index.ts",
+            line: 3,
+            column: 1,
+          },
+          { code: "TS1110", severity: "error", message: "Type expected." },
+        ],
+      },
+    ]);
+    expect(report.diagnostics).toEqual({ errors: 1, warnings: 1 });
+    expect(report).not.toHaveProperty("error");
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it("should record the error that ended the run", () => {
+    const report = createBundleReport([], { duration: 1, error: new Error("Cannot find entry file") });
+    expect(report.bundles).toEqual([]);
+    expect(report.diagnostics).toEqual({ errors: 0, warnings: 0 });
+    expect(report.error).toBe("Cannot find entry file");
+  });
+});
@@ -0,0 +1,76 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { SourceMapBuilder, encodeVlq, relocateSourceMap } from "../helpers/source-map";
+
+describe("encodeVlq", () => {
+  it("should encode small and negative values", () => {
+    expect(encodeVlq(0)).toBe("A");
+    expect(encodeVlq(1)).toBe("C");
+    expect(encodeVlq(-1)).toBe("D");
+    expect(encodeVlq(15)).toBe("e");
+  });
+
+  it("should use continuation digits for large values", () => {
+    expect(encodeVlq(16)).toBe("gB");
+    expect(encodeVlq(-1000)).toBe("x+B");
+  });
+});
+
+describe("SourceMapBuilder", () => {
+  it("should encode sorted mappings relative to the previous segment", () => {
+    const builder = new SourceMapBuilder();
+    builder.addMapping({
+      generatedLine: 2,
+      generatedColumn: 2,
+      source: "/src/b.ts",
+      originalLine: 1,
+      originalColumn: 2,
+    });
+    builder.addMapping({
+      generatedLine: 0,
+      generatedColumn: 10,
+      source: "/src/a.ts",
+      originalLine: 0,
+      originalColumn: 10,
+      name: "Options",
+    });
+    builder.addMapping({
+      generatedLine: 0,
+      generatedColumn: 0,
+      source: "/src/a.ts",
+      originalLine: 0,
+      originalColumn: 0,
+    });
+
+    expect(builder.toSourceMap("index.d.ts")).toEqual({
+      version: 3,
+      file: "index.d.ts",
+      sources: ["/src/a.ts", "/src/b.ts"],
+      names: ["Options"],
+      mappings: "AAAA,UAAUA;;ECCR",
+    });
+  });
+
+  it("should produce empty mappings without mappings", () => {
+    expect(new SourceMapBuilder().toSourceMap("index.d.ts").mappings).toBe("");
+  });
+});
+
+describe("relocateSourceMap", () => {
+  it("should make sources relative to the output file", () => {
+    const root = path.resolve("/project");
+    const map = relocateSourceMap(
+      {
+        version: 3,
+        file: "",
+        sources: [path.join(root, "src", "index.ts"), path.join(root, "src", "utils", "a.ts")],
+        names: [],
+        mappings: "",
+      },
+      path.join(root, "dist", "index.d.ts"),
+    );
+
+    expect(map.file).toBe("index.d.ts");
+    expect(map.sources).toEqual(["../src/index.ts", "../src/utils/a.ts"]);
+  });
+});
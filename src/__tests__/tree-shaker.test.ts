@@ -36,6 +36,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: true,
@@ -65,6 +67,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: false,
@@ -102,6 +106,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set([barId]),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: true,
@@ -122,6 +128,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: false,
@@ -161,6 +169,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: true,
@@ -200,6 +210,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: true,
@@ -238,6 +250,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map(),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: false,
@@ -274,6 +288,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map([["lodash", new Set(["pick"])]]),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: true,
@@ -309,6 +325,8 @@ describe("TreeShaker", () => {
         isTypeOnly: false,
         dependencies: new Set(),
         externalDependencies: new Map([["node", new Set(["fs"])]]),
+        dependencyReleaseTags: new Map(),
+        externalDependencyReleaseTags: new Map(),
         namespaceDependencies: new Set(),
         importAliases: new Map(),
         forceInclude: true,
@@ -0,0 +1,60 @@
+import path from "node:path";
+import * as ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { findTsConfig, resolveCompilerOptions } from "../helpers/typescript-config";
+import { createVirtualSystem } from "../helpers/virtual-system";
+
+describe("resolveCompilerOptions", () => {
+  const root = path.resolve("/virtual-config");
+  const entry = path.join(root, "src", "index.ts");
+  const system = createVirtualSystem({
+    [entry]: "export {};",
+    [path.join(root, "tsconfig.json")]: JSON.stringify({ compilerOptions: { strict: false, outDir: "dist" } }),
+    [path.join(root, "tsconfig.build.json")]: JSON.stringify({
+      extends: "./tsconfig.json",
+      compilerOptions: { outDir: "build" },
+    }),
+  });
+
+  it("should read the tsconfig.json found from the entry", () => {
+    const options = resolveCompilerOptions(entry, {}, system);
+    expect(options.strict).toBe(false);
+    expect(options.outDir).toBe(path.join(root, "dist").split(path.sep).join("/"));
+  });
+
+  it("should read an explicit tsconfig", () => {
+    const options = resolveCompilerOptions(entry, { tsconfig: path.join(root, "tsconfig.build.json") }, system);
+    expect(options.strict).toBe(false);
+    expect(options.outDir).toBe(path.join(root, "build").split(path.sep).join("/"));
+  });
+
+  it("should apply overrides on top of the tsconfig", () => {
+    const options = resolveCompilerOptions(entry, { compilerOptions: { strict: true, module: "nodenext" } }, system);
+    expect(options.strict).toBe(true);
+    expect(options.module).toBe(ts.ModuleKind.NodeNext);
+  });
+
+  it("should throw when the explicit tsconfig does not exist", () => {
+    expect(() => resolveCompilerOptions(entry, { tsconfig: path.join(root, "missing.json") }, system)).toThrow(
+      "Cannot find tsconfig file",
+    );
+  });
+
+  it("should use default options when no tsconfig is found", () => {
+    const otherEntry = path.resolve("/virtual-other/index.ts");
+    const noConfigSystem = createVirtualSystem({ [otherEntry]: "export {};" });
+    expect(findTsConfig(otherEntry, noConfigSystem)).toBeNull();
+
+    const options = resolveCompilerOptions(otherEntry, { compilerOptions: { strict: false } }, noConfigSystem);
+    expect(options.moduleResolution).toBe(ts.ModuleResolutionKind.Bundler);
+    expect(options.strict).toBe(false);
+  });
+
+  it("should throw for invalid overrides", () => {
+    const otherEntry = path.resolve("/virtual-other/index.ts");
+    const noConfigSystem = createVirtualSystem({ [otherEntry]: "export {};" });
+    expect(() =>
+      resolveCompilerOptions(otherEntry, { compilerOptions: { module: "invalid" } }, noConfigSystem),
+    ).toThrow("Error parsing compilerOptions");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "../helpers/unified-diff";
+
+const lines = (count: number, prefix = "line"): string =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join("");
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty string for equal texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n", "a", "b")).toBe("");
+  });
+
+  it("should print changed lines with three lines of context", () => {
+    const oldText = lines(10);
+    const newText = oldText.replace("line 5\n", "line five\n");
+
+    expect(createUnifiedDiff(oldText, newText, "dist/index.d.ts", "dist/index.d.ts")).toBe(
+      [
+        "--- dist/index.d.ts",
+        "+++ dist/index.d.ts",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const oldText = lines(20);
+    const newText = oldText.replace("line 2\n", "").replace("line 18\n", "line 18\nline 18.5\n");
+
+    expect(createUnifiedDiff(oldText, newText, "a", "b")).toBe(
+      [
+        "--- a",
+        "+++ b",
+        "@@ -1,5 +1,4 @@",
+        " line 1",
+        "-line 2",
+        " line 3",
+        " line 4",
+        " line 5",
+        "@@ -16,5 +15,6 @@",
+        " line 16",
+        " line 17",
+        " line 18",
+        "+line 18.5",
+        " line 19",
+        " line 20",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should diff against an empty text", () => {
+    expect(createUnifiedDiff("", "a\nb\n", "/dev/null", "b")).toBe(
+      ["--- /dev/null", "+++ b", "@@ -0,0 +1,2 @@", "+a", "+b", ""].join("\n"),
+    );
+  });
+
+  it("should print a file where every line changed as one hunk of removed then added lines", () => {
+    const oldText = lines(10000).replace(/\n/g, "\r\n");
+    const newText = lines(10000);
+    const diff = createUnifiedDiff(oldText, newText, "a", "b").split("\n");
+
+    expect(diff.slice(0, 4)).toEqual(["--- a", "+++ b", "@@ -1,10000 +1,10000 @@", "-line 1\r"]);
+    expect(diff[10002]).toBe("-line 10000\r");
+    expect(diff[10003]).toBe("+line 1");
+    expect(diff).toHaveLength(20004);
+  });
+
+  it("should produce a diff that turns the old text into the new text", () => {
+    // Deterministic pseudo-random edits of a text with many repeated lines
+    let seed = 1;
+    const random = (max: number): number => {
+      seed = (seed * 16807) % 2147483647;
+      return seed % max;
+    };
+    const oldLines = Array.from({ length: 300 }, () => `line ${random(20)}`);
+    const newLines = oldLines.flatMap((line) => {
+      const edit = random(6);
+      if (edit === 0) return [];
+      if (edit === 1) return [line, `added ${random(20)}`];
+      if (edit === 2) return [`line ${random(20)}`];
+      return [line];
+    });
+
+    const diff = createUnifiedDiff(`${oldLines.join("\n")}\n`, `${newLines.join("\n")}\n`, "a", "b", 1e6);
+    const body = diff.split("\n").slice(3, -1);
+    expect(body.filter((line) => !line.startsWith("+")).map((line) => line.slice(1))).toEqual(oldLines);
+    expect(body.filter((line) => !line.startsWith("-")).map((line) => line.slice(1))).toEqual(newLines);
+  });
+
+  it("should mark a missing line break at the end of the file", () => {
+    expect(createUnifiedDiff("a\nb", "a\nb\n", "a", "b")).toBe(
+      ["--- a", "+++ b", "@@ -1,2 +1,2 @@", " a", "-b", "\\ No newline at end of file", "+b", ""].join("\n"),
+    );
+  });
+});
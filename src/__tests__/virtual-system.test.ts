@@ -0,0 +1,92 @@
+import path from "node:path";
+import * as ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { createVirtualSystem } from "../helpers/virtual-system";
+
+describe("createVirtualSystem", () => {
+  const root = path.resolve("/virtual");
+  const system = createVirtualSystem({
+    [path.join(root, "src", "index.ts")]: "export type A = string;",
+    [path.join(root, "src", "types", "b.d.ts")]: "export type B = number;",
+  });
+
+  it("should serve in-memory files", () => {
+    expect(system.fileExists(path.join(root, "src", "index.ts"))).toBe(true);
+    expect(system.readFile(path.join(root, "src", "types", "b.d.ts"))).toBe("export type B = number;");
+    expect(system.fileExists(path.join(root, "src", "missing.ts"))).toBe(false);
+  });
+
+  it("should expose the directories of in-memory files", () => {
+    expect(system.directoryExists(path.join(root, "src", "types"))).toBe(true);
+    expect(system.getDirectories(root)).toEqual(["src"]);
+    expect(system.getDirectories(path.join(root, "src"))).toEqual(["types"]);
+    expect(system.fileExists(path.join(root, "src"))).toBe(false);
+  });
+
+  it("should list in-memory files matching tsconfig patterns", () => {
+    const overlay = createVirtualSystem({
+      [path.join(root, "src", "index.ts")]: "",
+      [path.join(root, "src", "index.test.ts")]: "",
+      [path.join(root, "src", "types", "b.d.ts")]: "",
+      [path.join(root, "src", ".hidden", "c.ts")]: "",
+      [path.join(root, "src", "node_modules", "d.ts")]: "",
+      [path.join(root, "scripts", "e.ts")]: "",
+      [path.join(root, "src", "f.json")]: "",
+    });
+    const list = (includes: string[], excludes: string[] = [], depth?: number): string[] =>
+      overlay
+        .readDirectory(root, [".ts", ".d.ts"], excludes, includes, depth)
+        .map((fileName) => path.relative(root, fileName));
+
+    expect(list(["src"])).toEqual([
+      path.join("src", "index.ts"),
+      path.join("src", "index.test.ts"),
+      path.join("src", "types", "b.d.ts"),
+      path.join("src", ".hidden", "c.ts"),
+      path.join("src", "node_modules", "d.ts"),
+    ]);
+    expect(list(["src/**/*"], ["**/*.test.ts"])).toEqual([
+      path.join("src", "index.ts"),
+      path.join("src", "types", "b.d.ts"),
+    ]);
+    expect(list(["**/*.ts"], ["src/types"])).toEqual([
+      path.join("src", "index.ts"),
+      path.join("src", "index.test.ts"),
+      path.join("scripts", "e.ts"),
+    ]);
+    expect(list(["src/*"])).toEqual([path.join("src", "index.ts"), path.join("src", "index.test.ts")]);
+    expect(list(["**/*"], [], 1)).toEqual([
+      path.join("src", "index.ts"),
+      path.join("src", "index.test.ts"),
+      path.join("scripts", "e.ts"),
+    ]);
+  });
+
+  it("should include in-memory files in a parsed tsconfig", () => {
+    const overlay = createVirtualSystem({
+      [path.join(root, "tsconfig.json")]: JSON.stringify({ include: ["src"] }),
+      [path.join(root, "src", "index.ts")]: "",
+      [path.join(root, "test", "index.test.ts")]: "",
+    });
+    const config = ts.readConfigFile(path.join(root, "tsconfig.json"), (fileName) => overlay.readFile(fileName));
+    const parsed = ts.parseJsonConfigFileContent(config.config, overlay, root);
+    expect(parsed.fileNames).toEqual([path.join(root, "src", "index.ts")]);
+  });
+
+  it("should fall back to the base system", () => {
+    const libFile = ts.getDefaultLibFilePath({});
+    expect(system.fileExists(libFile)).toBe(true);
+    expect(system.readFile(libFile)).toBe(ts.sys.readFile(libFile));
+  });
+
+  it("should take precedence over the base system", () => {
+    const libFile = ts.getDefaultLibFilePath({});
+    const overlay = createVirtualSystem({ [libFile]: "// replaced" });
+    expect(overlay.readFile(libFile)).toBe("// replaced");
+  });
+
+  it("should resolve relative paths against the current directory", () => {
+    const overlay = createVirtualSystem({ "generated/api.d.ts": "export {};" });
+    expect(overlay.readFile(path.resolve("generated/api.d.ts"))).toBe("export {};");
+  });
+});
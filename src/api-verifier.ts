@@ -0,0 +1,433 @@
+import path from "node:path";
+import * as ts from "typescript";
+import { createBundleProgram } from "./helpers/bundle-program";
+import { getReleaseTag, getReleaseTaggedMembers, isReleaseTagIncluded } from "./helpers/release-tags";
+import type { TypeRegistry } from "./registry";
+import { type BundleDiagnostic, DiagnosticCode, type ReleaseLevel } from "./types";
+
+/**
+ * Options passed to `verifyApiSurface`.
+ * - `entryFile`: absolute path of the entry the bundle was built from.
+ * - `program`: program the bundle was built from; its compiler options are
+ *   used and its source files are reused.
+ * - `system`: file system the program was read from.
+ * - `registry`: registry of the bundle, used to tell where an export of the
+ *   entry comes from.
+ * - `releaseLevel`: release level the bundle is trimmed to; exports of the
+ *   entry tagged less public are expected to be missing, and exports with
+ *   trimmed members are only checked for presence.
+ * - `globalNamespace`: namespace declaring the exports of a global script
+ *   bundle; the exports of a global script without one are its top-level
+ *   declarations.
+ */
+export interface VerifyApiSurfaceOptions {
+  entryFile: string;
+  program: ts.Program;
+  system: ts.System;
+  registry: TypeRegistry;
+  releaseLevel?: ReleaseLevel;
+  globalNamespace?: string;
+}
+
+function getModuleExports(checker: ts.TypeChecker, moduleNode: ts.Node): Map<string, ts.Symbol> {
+  const moduleSymbol = checker.getSymbolAtLocation(moduleNode);
+  if (!moduleSymbol) {
+    return new Map();
+  }
+  return new Map(checker.getExportsOfModule(moduleSymbol).map((symbol) => [symbol.name, symbol]));
+}
+
+/**
+ * Get the exports of a bundle: the exports of the bundle itself, of its
+ * `declare module "<name>"` block when it is an ambient module, or of its
+ * global namespace, or the top-level declarations of a global script.
+ */
+function getBundleExports(
+  checker: ts.TypeChecker,
+  bundleSourceFile: ts.SourceFile,
+  globalNamespace: string | undefined,
+): Map<string, ts.Symbol> {
+  if (ts.isExternalModule(bundleSourceFile)) {
+    return getModuleExports(checker, bundleSourceFile);
+  }
+  const moduleDeclaration = bundleSourceFile.statements.find(
+    (statement): statement is ts.ModuleDeclaration =>
+      ts.isModuleDeclaration(statement) &&
+      (globalNamespace === undefined ? ts.isStringLiteral(statement.name) : statement.name.text === globalNamespace),
+  );
+  if (moduleDeclaration) {
+    return getModuleExports(checker, moduleDeclaration.name);
+  }
+
+  const exports = new Map<string, ts.Symbol>();
+  for (const statement of bundleSourceFile.statements) {
+    const names = ts.isVariableStatement(statement)
+      ? statement.declarationList.declarations.map((declaration) => declaration.name)
+      : [(statement as ts.Node & { name?: ts.Node }).name];
+    for (const name of names) {
+      const symbol = name && ts.isIdentifier(name) ? checker.getSymbolAtLocation(name) : undefined;
+      if (symbol) {
+        exports.set(symbol.name, symbol);
+      }
+    }
+  }
+  return exports;
+}
+
+/**
+ * Whether a symbol is exported explicitly rather than implicitly (top-level
+ * declarations of a declaration file are exported unless it contains an
+ * export list or `export {}`).
+ */
+function isExplicitExport(symbol: ts.Symbol): boolean {
+  return (symbol.declarations ?? []).some(
+    (declaration) =>
+      ts.isExportSpecifier(declaration) ||
+      ts.isExportAssignment(declaration) ||
+      ts.isNamespaceExport(declaration) ||
+      (ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Export) !== 0,
+  );
+}
+
+function resolveAlias(checker: ts.TypeChecker, symbol: ts.Symbol): ts.Symbol {
+  return symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+}
+
+function getTypeParameterCount(symbol: ts.Symbol): number {
+  let count = 0;
+  for (const declaration of symbol.declarations ?? []) {
+    if (
+      ts.isClassLike(declaration) ||
+      ts.isInterfaceDeclaration(declaration) ||
+      ts.isTypeAliasDeclaration(declaration)
+    ) {
+      count = Math.max(count, declaration.typeParameters?.length ?? 0);
+    }
+  }
+  return count;
+}
+
+/**
+ * Collect the meanings (value, type, namespace) of an export along its alias
+ * chain: a local declaration may merge with an imported alias of the same
+ * name (e.g. an interface merged with an imported const).
+ */
+function getMeanings(checker: ts.TypeChecker, symbol: ts.Symbol): ts.SymbolFlags {
+  let flags = ts.SymbolFlags.None;
+  const visited = new Set<ts.Symbol>();
+  let current: ts.Symbol | undefined = symbol;
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    flags |= current.flags & ~ts.SymbolFlags.Alias;
+    current = current.flags & ts.SymbolFlags.Alias ? checker.getImmediateAliasedSymbol(current) : undefined;
+  }
+  return flags;
+}
+
+/**
+ * Print the public shape of a type: the type itself, its signatures, index
+ * signatures and the types of its public members.
+ */
+function printShape(checker: ts.TypeChecker, type: ts.Type): string {
+  const flags = ts.TypeFormatFlags.NoTruncation;
+  const typeToString = (memberType: ts.Type): string => checker.typeToString(memberType, undefined, flags);
+
+  const parts = [typeToString(type)];
+  for (const signature of checker.getSignaturesOfType(type, ts.SignatureKind.Call)) {
+    parts.push(checker.signatureToString(signature, undefined, flags));
+  }
+  for (const signature of checker.getSignaturesOfType(type, ts.SignatureKind.Construct)) {
+    parts.push(`new ${checker.signatureToString(signature, undefined, flags)}`);
+  }
+  for (const indexInfo of checker.getIndexInfosOfType(type)) {
+    parts.push(`[${typeToString(indexInfo.keyType)}]: ${typeToString(indexInfo.type)}`);
+  }
+  for (const member of checker.getPropertiesOfType(type)) {
+    const modifierFlags = member.valueDeclaration ? ts.getCombinedModifierFlags(member.valueDeclaration) : 0;
+    if (modifierFlags & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected) || member.name.startsWith("#")) {
+      continue;
+    }
+    const optional = member.flags & ts.SymbolFlags.Optional ? "?" : "";
+    parts.push(`${member.name}${optional}: ${typeToString(checker.getTypeOfSymbol(member))}`);
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Compares exports of the entry and the bundle within one program.
+ */
+class ExportComparer {
+  /**
+   * Type checker of the program containing the entry and the bundle.
+   */
+  private checker: ts.TypeChecker;
+
+  /**
+   * Original names of the declarations renamed in the bundle, keyed by their
+   * name in the bundle (e.g. `Options$1` -> `Options`).
+   */
+  private originalNames: Map<string, string>;
+
+  constructor(checker: ts.TypeChecker, registry: TypeRegistry) {
+    this.checker = checker;
+    this.comparedNamespaces = new Set();
+    this.originalNames = new Map();
+    for (const declaration of registry.declarations.values()) {
+      if (declaration.normalizedName !== declaration.name) {
+        this.originalNames.set(declaration.normalizedName, declaration.name);
+      }
+    }
+  }
+
+  /**
+   * Namespaces being compared, to stop at namespaces exporting themselves.
+   */
+  private comparedNamespaces: Set<ts.Symbol>;
+
+  /**
+   * Compare an export of the entry with the export of the same name of the
+   * bundle.
+   * @returns Why the exports differ, or null when they are equivalent
+   */
+  compare(entryExport: ts.Symbol, bundleExport: ts.Symbol): string | null {
+    const entrySymbol = resolveAlias(this.checker, entryExport);
+    const bundleSymbol = resolveAlias(this.checker, bundleExport);
+    if (entrySymbol === bundleSymbol) {
+      // Re-exported from the same external module
+      return null;
+    }
+    if (entrySymbol.flags & ts.SymbolFlags.Namespace && bundleSymbol.flags & ts.SymbolFlags.Namespace) {
+      // `export * as Ns` is bundled as a namespace, which only is a value when it contains values
+      return this.compareNamespaces(entrySymbol, bundleSymbol);
+    }
+
+    const entryMeanings = getMeanings(this.checker, entryExport);
+    const bundleMeanings = getMeanings(this.checker, bundleExport);
+    for (const [flag, meaning] of [
+      [ts.SymbolFlags.Value, "a value"],
+      [ts.SymbolFlags.Type, "a type"],
+    ] as const) {
+      const inEntry = (entryMeanings & flag) !== 0;
+      if (inEntry !== ((bundleMeanings & flag) !== 0)) {
+        return inEntry ? `is ${meaning} in the entry but not in the bundle` : `is ${meaning} in the bundle only`;
+      }
+    }
+
+    const entryTypeParameters = getTypeParameterCount(entrySymbol);
+    const bundleTypeParameters = getTypeParameterCount(bundleSymbol);
+    if (entryTypeParameters !== bundleTypeParameters) {
+      return `has ${bundleTypeParameters} type parameter(s) in the bundle instead of ${entryTypeParameters}`;
+    }
+
+    // Merged declarations may carry a meaning on another symbol of the alias chain
+    const hasTypes = entrySymbol.flags & bundleSymbol.flags & ts.SymbolFlags.Type;
+    if (
+      hasTypes &&
+      !this.isEquivalent(
+        this.checker.getDeclaredTypeOfSymbol(entrySymbol),
+        this.checker.getDeclaredTypeOfSymbol(bundleSymbol),
+      )
+    ) {
+      return "has a different type in the bundle";
+    }
+    const hasValues = entrySymbol.flags & bundleSymbol.flags & ts.SymbolFlags.Value;
+    if (
+      hasValues &&
+      !this.isEquivalent(this.checker.getTypeOfSymbol(entrySymbol), this.checker.getTypeOfSymbol(bundleSymbol))
+    ) {
+      return "has a different type in the bundle";
+    }
+
+    return null;
+  }
+
+  /**
+   * Compare the exports of two namespaces (or modules) by name.
+   * @returns Why the namespaces differ, or null when they are equivalent
+   */
+  private compareNamespaces(entrySymbol: ts.Symbol, bundleSymbol: ts.Symbol): string | null {
+    if (this.comparedNamespaces.has(entrySymbol)) {
+      return null;
+    }
+    this.comparedNamespaces.add(entrySymbol);
+
+    const toMap = (symbol: ts.Symbol): Map<string, ts.Symbol> =>
+      new Map(this.checker.getExportsOfModule(symbol).map((member) => [member.name, member]));
+    const entryMembers = toMap(entrySymbol);
+    const bundleMembers = toMap(bundleSymbol);
+
+    try {
+      for (const [name, entryMember] of entryMembers) {
+        const bundleMember = bundleMembers.get(name);
+        if (!bundleMember) {
+          return `is missing '${name}' in the bundle`;
+        }
+        const difference = this.compare(entryMember, bundleMember);
+        if (difference) {
+          return `has a member '${name}' that ${difference}`;
+        }
+      }
+      const extraMember = [...bundleMembers.keys()].find((name) => !entryMembers.has(name));
+      return extraMember ? `has an extra member '${extraMember}' in the bundle` : null;
+    } finally {
+      this.comparedNamespaces.delete(entrySymbol);
+    }
+  }
+
+  /**
+   * Whether two types are mutually assignable. TypeScript relates enums,
+   * classes with private members and type parameters of different
+   * declarations nominally, so types whose public shapes print the same
+   * (with renamed declarations printed under their original name) are
+   * equivalent as well.
+   */
+  private isEquivalent(entryType: ts.Type, bundleType: ts.Type): boolean {
+    if (
+      this.checker.isTypeAssignableTo(entryType, bundleType) &&
+      this.checker.isTypeAssignableTo(bundleType, entryType)
+    ) {
+      return true;
+    }
+
+    const bundleShape = printShape(this.checker, bundleType).replace(
+      /[\w$]+/g,
+      (name) => this.originalNames.get(name) ?? name,
+    );
+    return printShape(this.checker, entryType) === bundleShape;
+  }
+}
+
+/**
+ * Describe how the entry exports `name`, based on the export bookkeeping of
+ * the registry.
+ * @returns The description in parentheses (with a leading space), or an
+ * empty string for declarations exported by the entry itself
+ */
+function describeExportOrigin(registry: TypeRegistry, entryFile: string, name: string): string {
+  const toRelative = (fileName: string): string =>
+    `./${path.relative(path.dirname(entryFile), fileName).split(path.sep).join("/")}`;
+
+  if (registry.entryNamespaceExports.some((entry) => entry.sourceFile === entryFile && entry.name === name)) {
+    return " (namespace export)";
+  }
+
+  const info = registry.exportedNamesByFile.get(entryFile)?.find((exported) => exported.name === name);
+  if (info?.externalModule) {
+    return ` (re-exported from "${info.externalModule}")`;
+  }
+  if (info?.sourceFile && info.sourceFile !== entryFile) {
+    return ` (re-exported from ${toRelative(info.sourceFile)})`;
+  }
+  if (info) {
+    return "";
+  }
+
+  const entryStarExports = registry.entryStarExports.filter(({ sourceFile }) => sourceFile === entryFile);
+  const localStarExport = entryStarExports.find(
+    ({ info: starInfo }) =>
+      starInfo.targetFile && registry.exportedNamesByFile.get(starInfo.targetFile)?.some((item) => item.name === name),
+  );
+  const starExport = localStarExport ?? entryStarExports.find(({ info: starInfo }) => starInfo.externalModule);
+  if (starExport?.info.targetFile) {
+    return ` (re-exported through "export *" from ${toRelative(starExport.info.targetFile)})`;
+  }
+  if (starExport?.info.externalModule) {
+    return ` (re-exported through "export *" from "${starExport.info.externalModule}")`;
+  }
+
+  return "";
+}
+
+/**
+ * Whether every declaration of an export is trimmed at `releaseLevel`.
+ */
+function isTrimmedExport(checker: ts.TypeChecker, symbol: ts.Symbol, releaseLevel: ReleaseLevel): boolean {
+  const declarations = resolveAlias(checker, symbol).declarations ?? [];
+  return (
+    declarations.length > 0 &&
+    declarations.every((declaration) => !isReleaseTagIncluded(getReleaseTag(declaration), releaseLevel))
+  );
+}
+
+/**
+ * Whether a declaration of an export has members trimmed at `releaseLevel`.
+ */
+function hasTrimmedMembers(checker: ts.TypeChecker, symbol: ts.Symbol, releaseLevel: ReleaseLevel): boolean {
+  return (resolveAlias(checker, symbol).declarations ?? []).some((declaration) =>
+    [...getReleaseTaggedMembers(declaration).values()].some((tag) => !isReleaseTagIncluded(tag, releaseLevel)),
+  );
+}
+
+/**
+ * Verify that a bundle exports the same public API as its entry. A program
+ * containing both the entry and the bundle is created, and every export of
+ * either is compared with the type checker. Exports missing from the bundle,
+ * extra exports and exports whose types are not mutually assignable are
+ * reported.
+ * @param code - Generated bundle
+ * @param options - Entry, program and registry of the bundle
+ * @returns The differences found
+ */
+export function verifyApiSurface(code: string, options: VerifyApiSurfaceOptions): BundleDiagnostic[] {
+  const { entryFile, program, system, registry, releaseLevel, globalNamespace } = options;
+
+  const { program: verificationProgram, bundleSourceFile } = createBundleProgram(
+    code,
+    entryFile,
+    program,
+    system,
+    { ...program.getCompilerOptions(), noEmit: true },
+    [entryFile],
+  );
+  const entrySourceFile = verificationProgram.getSourceFile(entryFile);
+  if (!bundleSourceFile || !entrySourceFile) {
+    return [];
+  }
+
+  const checker = verificationProgram.getTypeChecker();
+  const comparer = new ExportComparer(checker, registry);
+  const entryExports = getModuleExports(checker, entrySourceFile);
+  const bundleExports = getBundleExports(checker, bundleSourceFile, globalNamespace);
+
+  const diagnostics: BundleDiagnostic[] = [];
+  const report = (message: string, symbol?: ts.Symbol): void => {
+    const diagnostic: BundleDiagnostic = { code: DiagnosticCode.ApiMismatch, severity: "error", message };
+    const declaration = symbol ? resolveAlias(checker, symbol).declarations?.[0] : undefined;
+    if (declaration) {
+      const sourceFile = declaration.getSourceFile();
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(declaration.getStart(sourceFile));
+      diagnostic.file = sourceFile.fileName;
+      diagnostic.line = line + 1;
+      diagnostic.column = character + 1;
+    }
+    diagnostics.push(diagnostic);
+  };
+
+  for (const [name, entryExport] of entryExports) {
+    if (releaseLevel && isTrimmedExport(checker, entryExport, releaseLevel)) {
+      continue;
+    }
+    const origin = describeExportOrigin(registry, entryFile, name);
+    const bundleExport = bundleExports.get(name);
+    if (!bundleExport) {
+      report(`Export '${name}'${origin} is missing from the bundle`, entryExport);
+      continue;
+    }
+    if (releaseLevel && hasTrimmedMembers(checker, entryExport, releaseLevel)) {
+      continue;
+    }
+
+    const difference = comparer.compare(entryExport, bundleExport);
+    if (difference) {
+      report(`Export '${name}'${origin} ${difference}`, entryExport);
+    }
+  }
+  for (const [name, bundleExport] of bundleExports) {
+    if (!entryExports.has(name) && isExplicitExport(bundleExport)) {
+      report(`The bundle exports '${name}', which the entry does not export`);
+    }
+  }
+
+  return diagnostics;
+}
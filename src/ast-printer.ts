@@ -9,6 +9,8 @@ import * as ts from "typescript";
  * - `preserveGlobalReferences` prevents renaming of identifiers resolved to global symbols.
  * - `namespaceImportNames` lists namespace import identifiers that should be preserved when printing qualified names.
  * - `stripImportType` provides custom logic to convert `import("x").T` nodes to a type/query when desired.
+ * - `importTypes` maps local names of external imports to the module and export they refer to; type
+ *   references and type queries through them are printed as `import("module").export` types.
  */
 export interface AstPrintOptions {
   renameMap?: Map<string, string>;
@@ -17,6 +19,16 @@ export interface AstPrintOptions {
   preserveGlobalReferences?: boolean;
   namespaceImportNames?: Set<string>;
   stripImportType?: (node: ts.ImportTypeNode) => boolean;
+  importTypes?: Map<string, ImportTypeTarget>;
+}
+
+/**
+ * Module and export an external import refers to. `importName` is undefined
+ * for namespace and `import = require()` imports, which refer to the module.
+ */
+export interface ImportTypeTarget {
+  moduleName: string;
+  importName?: string;
 }
 
 export class AstPrinter {
@@ -46,7 +58,7 @@ export class AstPrinter {
    */
   printNode(node: ts.Node, sourceFile: ts.SourceFile, options: AstPrintOptions = {}): string {
     const transformed =
-      options.renameMap || options.qualifiedNameMap || options.stripImportType
+      options.renameMap || options.qualifiedNameMap || options.stripImportType || options.importTypes
         ? AstPrinter.applyRenameTransformer(
             node,
             options.renameMap,
@@ -55,6 +67,7 @@ export class AstPrinter {
             options.preserveGlobalReferences,
             options.namespaceImportNames,
             options.stripImportType,
+            options.importTypes,
           )
         : node;
     return this.printer.printNode(ts.EmitHint.Unspecified, transformed, sourceFile);
@@ -71,7 +84,7 @@ export class AstPrinter {
    */
   printStatement(node: ts.Node, sourceFile: ts.SourceFile, options: AstPrintOptions = {}): string {
     const transformed =
-      options.renameMap || options.qualifiedNameMap || options.stripImportType
+      options.renameMap || options.qualifiedNameMap || options.stripImportType || options.importTypes
         ? AstPrinter.applyRenameTransformer(
             node,
             options.renameMap,
@@ -80,6 +93,7 @@ export class AstPrinter {
             options.preserveGlobalReferences,
             options.namespaceImportNames,
             options.stripImportType,
+            options.importTypes,
           )
         : node;
     return this.printer.printNode(ts.EmitHint.Unspecified, transformed, sourceFile);
@@ -89,6 +103,7 @@ export class AstPrinter {
    * Create a transformer that applies identifier and qualified-name renames.
    * This transformer also supports:
    * - converting `import("x").T` nodes to type/query nodes via `stripImportType`;
+   * - converting references to external imports to `import("x").T` nodes via `importTypes`;
    * - preserving namespace-import identifiers and global references when requested.
    *
    * Note: This is an internal helper but is documented so callers understand
@@ -104,6 +119,7 @@ export class AstPrinter {
     preserveGlobalReferences?: boolean,
     namespaceImportNames?: Set<string>,
     stripImportType?: (node: ts.ImportTypeNode) => boolean,
+    importTypes?: Map<string, ImportTypeTarget>,
   ): T {
     const transformer: ts.TransformerFactory<T> = (context) => {
       const isGlobalReference = (identifier: ts.Identifier): boolean => {
@@ -136,6 +152,21 @@ export class AstPrinter {
       };
 
       const visit: ts.Visitor = (current) => {
+        if (importTypes && (ts.isTypeReferenceNode(current) || ts.isTypeQueryNode(current))) {
+          const entityName = ts.isTypeReferenceNode(current) ? current.typeName : current.exprName;
+          const visitedTypeArguments = current.typeArguments?.map((arg) => ts.visitNode(arg, visit) as ts.TypeNode);
+          const replacement = AstPrinter.createImportTypeFromEntityName(
+            entityName,
+            importTypes,
+            visitedTypeArguments,
+            ts.isTypeQueryNode(current),
+          );
+          if (replacement) {
+            ts.setTextRange(replacement, current);
+            return replacement;
+          }
+        }
+
         if (ts.isImportTypeNode(current)) {
           const qualifier = current.qualifier;
           const shouldStrip = qualifier ? (stripImportType?.(current) ?? false) : false;
@@ -288,6 +319,43 @@ export class AstPrinter {
     return transformed;
   }
 
+  /**
+   * Convert a reference through an external import (e.g. `ns.Type`) into an
+   * `import("x").Type` node.
+   *
+   * @param entityName - Referenced name.
+   * @param importTypes - Targets of the external imports by local name.
+   * @param typeArguments - Type arguments of the reference.
+   * @param isTypeOf - Whether the reference is a `typeof` query.
+   * @returns The import type, or undefined when the name is not imported.
+   */
+  private static createImportTypeFromEntityName(
+    entityName: ts.EntityName,
+    importTypes: Map<string, ImportTypeTarget>,
+    typeArguments: ts.TypeNode[] | undefined,
+    isTypeOf: boolean,
+  ): ts.ImportTypeNode | undefined {
+    const parts: string[] = [];
+    let current: ts.EntityName = entityName;
+    while (ts.isQualifiedName(current)) {
+      parts.unshift(current.right.text);
+      current = current.left;
+    }
+    const target = importTypes.get(current.text);
+    if (!target) {
+      return undefined;
+    }
+
+    const qualifierParts = target.importName ? [target.importName, ...parts] : parts;
+    return ts.factory.createImportTypeNode(
+      ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(target.moduleName)),
+      undefined,
+      qualifierParts.length > 0 ? AstPrinter.createQualifiedNameFromString(qualifierParts.join(".")) : undefined,
+      typeArguments,
+      isTypeOf,
+    );
+  }
+
   /**
    * Convert a dotted name string into a `ts.EntityName` (`Identifier` / `QualifiedName`).
    *
@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type ts from "typescript";
+import type { BundleResult } from "./types";
+
+/**
+ * Everything besides the input files that determines the output of a build.
+ */
+export interface BuildCacheKey {
+  /**
+   * Map of entry key to absolute entry file path
+   */
+  entries: Record<string, string>;
+
+  /**
+   * Bundling options affecting the output (JSON-serializable)
+   */
+  options: Record<string, unknown>;
+
+  /**
+   * Compiler options of the program
+   */
+  compilerOptions: ts.CompilerOptions;
+
+  /**
+   * Version of the bundler
+   */
+  version: string | null;
+
+  /**
+   * Absolute paths of files the output depends on besides the collected
+   * files, e.g. the package.json read for the banner variables; they are
+   * hashed together with the collected files
+   */
+  inputFiles: string[];
+}
+
+/**
+ * Content of a cache file.
+ * - `files`: content hash of every collected file, keyed by absolute path.
+ * - `results`: bundle results, keyed like `BuildCacheKey.entries`.
+ */
+interface BuildCacheEntry {
+  files: Record<string, string>;
+  results: Record<string, BundleResult>;
+}
+
+function hash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * On-disk cache of bundle results. Each key is stored in its own file of the
+ * cache directory together with the content hashes of the files collected
+ * for the build; a cached result is only returned while all of those files
+ * are unchanged.
+ */
+export class BuildCache {
+  /**
+   * Path of the cache file for the key.
+   */
+  private cacheFile: string;
+
+  /**
+   * File system the collected files are hashed from.
+   */
+  private system: ts.System;
+
+  /**
+   * Files hashed with the collected files of every build.
+   */
+  private inputFiles: string[];
+
+  /**
+   * Create a `BuildCache` for a build.
+   * @param cacheDir - Directory the cache files are stored in
+   * @param key - Inputs of the build besides its files
+   * @param system - File system the collected files are read from
+   */
+  constructor(cacheDir: string, key: BuildCacheKey, system: ts.System) {
+    this.cacheFile = path.join(path.resolve(cacheDir), `${hash(JSON.stringify(key))}.json`);
+    this.system = system;
+    this.inputFiles = key.inputFiles;
+  }
+
+  /**
+   * Return the cached results when every file collected for them is
+   * unchanged.
+   * @returns The cached results, or null on a cache miss
+   */
+  read(): Record<string, BundleResult> | null {
+    let entry: BuildCacheEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(this.cacheFile, "utf-8")) as BuildCacheEntry;
+    } catch {
+      // Missing or unreadable cache files are misses
+      return null;
+    }
+
+    for (const [fileName, fileHash] of Object.entries(entry.files)) {
+      const content = this.system.readFile(fileName);
+      if (content === undefined || hash(content) !== fileHash) {
+        return null;
+      }
+    }
+
+    return entry.results;
+  }
+
+  /**
+   * Store the results of a build.
+   * @param results - Bundle results, keyed like `BuildCacheKey.entries`
+   * @param collectedFiles - Absolute paths of the files the results were built from
+   */
+  write(results: Record<string, BundleResult>, collectedFiles: string[]): void {
+    const files: Record<string, string> = {};
+    for (const fileName of new Set([...collectedFiles, ...this.inputFiles])) {
+      const content = this.system.readFile(fileName);
+      if (content !== undefined) {
+        files[fileName] = hash(content);
+      }
+    }
+
+    const entry: BuildCacheEntry = { files, results };
+    // Write to a temporary file first so concurrent builds never read a partial file
+    const tempFile = `${this.cacheFile}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+    fs.writeFileSync(tempFile, JSON.stringify(entry), "utf-8");
+    fs.renameSync(tempFile, this.cacheFile);
+  }
+}
@@ -0,0 +1,81 @@
+import * as ts from "typescript";
+import { createBundleProgram } from "./helpers/bundle-program";
+import { type BundleDiagnostic, DiagnosticCode, type TypeDeclaration } from "./types";
+
+/**
+ * Options passed to `validateBundle`.
+ * - `entryFile`: absolute path of the entry; the bundle is checked as a file
+ *   next to it (see `getBundleFileName`).
+ * - `program`: program the bundle was built from. Its compiler options are
+ *   used and its source files (e.g. default libraries) are reused.
+ * - `system`: file system the program was read from.
+ * - `getDeclarationsAtLine`: the declarations printed on a 0-based line of
+ *   the bundle, used to map errors back to their original declaration.
+ */
+export interface ValidateBundleOptions {
+  entryFile: string;
+  program: ts.Program;
+  system: ts.System;
+  getDeclarationsAtLine: (line: number) => TypeDeclaration[];
+}
+
+/**
+ * Type-check a generated bundle as a standalone declaration file and report
+ * its errors. Errors inside a bundled declaration point to the original
+ * location of that declaration; other errors (e.g. in the export list)
+ * carry the line of the bundle in their message.
+ * @param code - Generated bundle
+ * @param options - Program and source mapping of the bundle
+ * @returns The diagnostics of the bundle
+ */
+export function validateBundle(code: string, options: ValidateBundleOptions): BundleDiagnostic[] {
+  const { entryFile, program, system, getDeclarationsAtLine } = options;
+
+  const compilerOptions: ts.CompilerOptions = {
+    ...program.getCompilerOptions(),
+    noEmit: true,
+    // Declaration files are only checked without `skipLibCheck`
+    skipLibCheck: false,
+    skipDefaultLibCheck: true,
+  };
+  const { program: validationProgram, bundleSourceFile } = createBundleProgram(
+    code,
+    entryFile,
+    program,
+    system,
+    compilerOptions,
+  );
+  if (!bundleSourceFile) {
+    return [];
+  }
+
+  const errors = [
+    ...validationProgram.getSyntacticDiagnostics(bundleSourceFile),
+    ...validationProgram.getSemanticDiagnostics(bundleSourceFile),
+  ].filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+
+  return errors.map((error) => {
+    const message = ts.flattenDiagnosticMessageText(error.messageText, "\n");
+    const { line } = bundleSourceFile.getLineAndCharacterOfPosition(error.start ?? 0);
+
+    const [declaration] = getDeclarationsAtLine(line);
+    if (!declaration) {
+      return {
+        code: DiagnosticCode.InvalidBundle,
+        severity: "error",
+        message: `The bundle does not type-check at line ${line + 1}: ${message} (TS${error.code})`,
+      };
+    }
+
+    const sourceFile = declaration.sourceFileNode;
+    const start = sourceFile.getLineAndCharacterOfPosition(declaration.node.getStart(sourceFile));
+    return {
+      code: DiagnosticCode.InvalidBundle,
+      severity: "error",
+      message: `Bundled declaration '${declaration.normalizedName}' does not type-check: ${message} (TS${error.code})`,
+      file: declaration.sourceFile,
+      line: start.line + 1,
+      column: start.character + 1,
+    };
+  });
+}
@@ -0,0 +1,427 @@
+import type { BundleTypesOptions } from "./types";
+
+/**
+ * Options of `BundleTypesOptions` that cannot be given on the command line.
+ * `plugins` can be set in the targets of a JavaScript or TypeScript config.
+ */
+type ApiOnlyOption = "files" | "system" | "onDiagnostic" | "plugins";
+
+/**
+ * Options parsed from the command line: every serializable bundling option,
+ * with the banner and footer as templates, plus the options of the CLI itself.
+ * - `packagePath`: bundle every types target of a package instead of `entry`.
+ * - `watch`: rebuild on change.
+ * - `config`/`target`: bundle the (selected) targets of a config file.
+ * - `check`: compare the bundles with the output files instead of writing.
+ * - `report`/`reportFile`: format of the report of the run (only `json`) and
+ *   the file it is written to instead of stdout.
+ * - `help`: print the help and exit.
+ */
+export type CliOptions = Partial<Omit<BundleTypesOptions, ApiOnlyOption | "banner" | "footer">> & {
+  banner?: string;
+  footer?: string;
+  packagePath?: string;
+  config?: string;
+  target?: string[];
+  check?: boolean;
+  report?: string;
+  reportFile?: string;
+  watch?: boolean;
+  help?: boolean;
+};
+
+/**
+ * How the value of an option is parsed; lists are comma-separated on the
+ * command line.
+ */
+export type CliValueKind = "boolean" | "list" | "string" | "json";
+
+/**
+ * How the value of a flag is parsed, derived from the type of its option.
+ */
+type CliFlagKind<T> = unknown extends T
+  ? CliValueKind
+  : NonNullable<T> extends boolean
+    ? "boolean"
+    : NonNullable<T> extends string[]
+      ? "list"
+      : NonNullable<T> extends string
+        ? "string"
+        : "json";
+
+/**
+ * Command-line flag of an option.
+ * - `flag`: long name, e.g. `--entry`. Boolean flags are turned off with
+ *   `--no-<flag>` (`--no-validate`), and flags starting with `--no-` by
+ *   dropping it (`--banner`).
+ * - `aliases`: other names of the flag, e.g. `-e`.
+ * - `kind`: how the value is parsed; lists are comma-separated.
+ * - `valueName`: placeholder of the value in the help.
+ * - `description`: line shown in the help.
+ */
+interface CliFlag<T> {
+  flag: string;
+  aliases?: string[];
+  kind: CliFlagKind<T>;
+  valueName?: string;
+  description: string;
+}
+
+/**
+ * Flags of every CLI option, in the order of the help. Being keyed by
+ * `CliOptions`, adding a bundling option fails to compile until it has a flag.
+ */
+const CLI_FLAGS: { [K in keyof Required<CliOptions>]: CliFlag<CliOptions[K]> } = {
+  entry: { flag: "--entry", aliases: ["-e"], kind: "string", valueName: "file", description: "Entry TypeScript file" },
+  outFile: {
+    flag: "--output",
+    aliases: ["-o"],
+    kind: "string",
+    valueName: "file",
+    description: "Output bundled file",
+  },
+  packagePath: {
+    flag: "--package",
+    kind: "string",
+    valueName: "dir",
+    description: "Bundle every types target of the package.json exports map",
+  },
+  config: {
+    flag: "--config",
+    aliases: ["-c"],
+    kind: "string",
+    valueName: "file",
+    description: "Bundle the targets of a config file (default: dts-bundler.config.* or package.json)",
+  },
+  target: {
+    flag: "--target",
+    aliases: ["-t"],
+    kind: "list",
+    valueName: "names",
+    description: "Comma-separated names of the config targets to bundle (default: all)",
+  },
+  tsconfig: {
+    flag: "--project",
+    aliases: ["-p"],
+    kind: "string",
+    valueName: "file",
+    description: "Path to the tsconfig file (default: nearest tsconfig.json)",
+  },
+  compilerOptions: {
+    flag: "--compiler-options",
+    kind: "json",
+    valueName: "json",
+    description: "Compiler options overriding the tsconfig, as a JSON object",
+  },
+  inlinedLibraries: {
+    flag: "--inlined-libraries",
+    aliases: ["-i", "--inlinedLibraries"],
+    kind: "list",
+    valueName: "list",
+    description: "Comma-separated libraries to inline",
+  },
+  allowedTypesLibraries: {
+    flag: "--allowed-types-libraries",
+    kind: "list",
+    valueName: "list",
+    description: "Comma-separated @types libraries to reference with triple-slash directives",
+  },
+  importedLibraries: {
+    flag: "--imported-libraries",
+    kind: "list",
+    valueName: "list",
+    description: "Comma-separated libraries to keep as regular imports",
+  },
+  inlineDeclareGlobals: {
+    flag: "--inline-declare-globals",
+    kind: "boolean",
+    description: "Inline declare global blocks",
+  },
+  inlineDeclareExternals: {
+    flag: "--inline-declare-externals",
+    kind: "boolean",
+    description: "Inline declare module blocks of external modules",
+  },
+  exportReferencedTypes: {
+    flag: "--export-referenced-types",
+    kind: "boolean",
+    description: "Export the types referenced by exported declarations",
+  },
+  noBanner: { flag: "--no-banner", kind: "boolean", description: "Omit the generated banner comment" },
+  banner: {
+    flag: "--banner-text",
+    kind: "string",
+    valueName: "text",
+    description: "Banner replacing the generated one, with {{packageName}}-style variables",
+  },
+  footer: {
+    flag: "--footer-text",
+    kind: "string",
+    valueName: "text",
+    description: "Footer at the end of the output, with the variables of the banner",
+  },
+  legalComments: {
+    flag: "--legal-comments",
+    kind: "string",
+    valueName: "mode",
+    description: "Legal comments of the bundled files: none, inline, or external (<output>.LICENSE.txt)",
+  },
+  comments: {
+    flag: "--comments",
+    kind: "string",
+    valueName: "mode",
+    description: "Comments kept in the declarations: all, jsdoc, exported-only, or none",
+  },
+  stripJsDocTags: {
+    flag: "--strip-jsdoc-tags",
+    kind: "list",
+    valueName: "tags",
+    description: "Comma-separated JSDoc tags removed from the kept comments, e.g. example,remarks",
+  },
+  sortNodes: { flag: "--sort-nodes", kind: "boolean", description: "Sort declarations alphabetically" },
+  order: {
+    flag: "--order",
+    kind: "string",
+    valueName: "strategy",
+    description:
+      "Order of the declarations: source, entry-exports, alphabetical, kind-then-alphabetical, or dependency",
+  },
+  exportStyle: {
+    flag: "--export-style",
+    kind: "string",
+    valueName: "style",
+    description: "Export declarations with inline modifiers or one sorted export list: inline or list",
+  },
+  umdModuleName: {
+    flag: "--umd-module-name",
+    kind: "string",
+    valueName: "name",
+    description: "Add an `export as namespace <name>` declaration",
+  },
+  ambientModule: {
+    flag: "--ambient-module",
+    kind: "string",
+    valueName: "name",
+    description: 'Wrap the bundle in a `declare module "<name>"` block',
+  },
+  globalScript: {
+    flag: "--global-script",
+    kind: "boolean",
+    description: "Emit the bundle as a global script without module syntax",
+  },
+  globalNamespace: {
+    flag: "--global-namespace",
+    kind: "string",
+    valueName: "name",
+    description: "Wrap the declarations of the global script in `declare namespace <name>`",
+  },
+  format: {
+    flag: "--format",
+    kind: "json",
+    valueName: "json",
+    description: 'Output formatting as a JSON object, e.g. {"indentStyle":"tab","endOfLine":"crlf"}',
+  },
+  respectPreserveConstEnum: {
+    flag: "--respect-preserve-const-enum",
+    kind: "boolean",
+    description: "Keep const enums when the tsconfig sets preserveConstEnums",
+  },
+  failOnWarnings: {
+    flag: "--fail-on-warnings",
+    kind: "boolean",
+    description: "Exit with an error when bundling reports warnings",
+  },
+  declarationMap: {
+    flag: "--declaration-map",
+    kind: "boolean",
+    description: "Write a declaration map (.d.ts.map) next to each output",
+  },
+  validate: {
+    flag: "--validate",
+    kind: "boolean",
+    description: "Type-check the bundle on its own and report its errors",
+  },
+  verifyApi: {
+    flag: "--verify-api",
+    kind: "boolean",
+    description: "Report exports the bundle changed compared to the entry",
+  },
+  stripInternal: {
+    flag: "--strip-internal",
+    kind: "boolean",
+    description: "Drop declarations and members tagged @internal",
+  },
+  rollups: {
+    flag: "--rollups",
+    kind: "list",
+    valueName: "levels",
+    description: "Comma-separated release levels (public, beta, alpha) to also write trimmed rollups for",
+  },
+  check: {
+    flag: "--check",
+    kind: "boolean",
+    description: "Print a diff and exit with an error when an output file is out of date, without writing",
+  },
+  report: {
+    flag: "--report",
+    kind: "string",
+    valueName: "format",
+    description: "Print a report of the timings, files, declarations and diagnostics of each bundle (format: json)",
+  },
+  reportFile: {
+    flag: "--report-file",
+    kind: "string",
+    valueName: "file",
+    description: "Write the report to <file> instead of stdout (default format: json)",
+  },
+  watch: {
+    flag: "--watch",
+    aliases: ["-w"],
+    kind: "boolean",
+    description: "Rebuild when the bundled files or the tsconfig change",
+  },
+  cacheDir: {
+    flag: "--cache-dir",
+    kind: "string",
+    valueName: "dir",
+    description: "Reuse the output of unchanged builds cached in <dir>",
+  },
+  help: { flag: "--help", aliases: ["-h"], kind: "boolean", description: "Show this help message" },
+};
+
+/**
+ * Get how the value of every option is parsed.
+ * @returns Map of option name (e.g. `inlinedLibraries`) to its kind
+ */
+export function getOptionKinds(): Map<keyof CliOptions, CliValueKind> {
+  return new Map(
+    (Object.entries(CLI_FLAGS) as [keyof CliOptions, CliFlag<unknown>][]).map(([key, { kind }]) => [key, kind]),
+  );
+}
+
+/**
+ * Name of the flag turning a boolean flag off, e.g. `--no-validate` for
+ * `--validate` and `--banner` for `--no-banner`.
+ */
+function getNegatedFlag(flag: string): string {
+  return flag.startsWith("--no-") ? `--${flag.slice("--no-".length)}` : `--no-${flag.slice("--".length)}`;
+}
+
+/**
+ * Map every name a flag can be given as to its option and the value a
+ * boolean flag sets.
+ */
+function createFlagLookup(): Map<string, { key: keyof CliOptions; negated: boolean }> {
+  const lookup = new Map<string, { key: keyof CliOptions; negated: boolean }>();
+  for (const [key, { flag, aliases = [], kind }] of Object.entries(CLI_FLAGS) as [
+    keyof CliOptions,
+    CliFlag<unknown>,
+  ][]) {
+    for (const name of [flag, ...aliases]) {
+      lookup.set(name, { key, negated: false });
+    }
+    if (kind === "boolean") {
+      lookup.set(getNegatedFlag(flag), { key, negated: true });
+    }
+  }
+  return lookup;
+}
+
+function parseValue(name: string, kind: CliValueKind, value: string): unknown {
+  if (kind === "list") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (kind === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(`Option ${name} expects a JSON object, got: ${value}`);
+    }
+    return parsed;
+  }
+  return value;
+}
+
+/**
+ * Split an argument into its flag name and the value attached with `=`.
+ */
+function splitArg(arg: string): { name: string; inlineValue?: string } {
+  const separator = arg.startsWith("--") ? arg.indexOf("=") : -1;
+  return separator === -1 ? { name: arg } : { name: arg.slice(0, separator), inlineValue: arg.slice(separator + 1) };
+}
+
+/**
+ * Parse command-line arguments. Values follow their flag (`--entry file`) or
+ * are attached with `=` (`--entry=file`); a following value may start with
+ * `-` unless it is a known flag. A boolean flag set twice keeps the last
+ * value, so `--no-*` flags can override earlier ones.
+ * @param args - Arguments without the node executable and script path
+ * @returns The options given on the command line
+ * @throws {Error} When an argument is not a known flag or a value is missing
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const lookup = createFlagLookup();
+  const options: Record<string, unknown> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const { name, inlineValue } = splitArg(args[i]);
+
+    const match = lookup.get(name);
+    if (!match) {
+      throw new Error(name.startsWith("-") ? `Unknown option: ${name}` : `Unexpected argument: ${name}`);
+    }
+
+    const { kind } = CLI_FLAGS[match.key] as CliFlag<unknown>;
+    if (kind === "boolean") {
+      if (inlineValue !== undefined) {
+        throw new Error(`Option ${name} does not take a value`);
+      }
+      options[match.key] = !match.negated;
+      continue;
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined || (inlineValue === undefined && lookup.has(splitArg(value).name))) {
+      throw new Error(`Option ${name} requires a value`);
+    }
+    options[match.key] = parseValue(name, kind, value);
+  }
+
+  return options as CliOptions;
+}
+
+/**
+ * Generate the help of the CLI from the flags of every option.
+ * @returns The help text
+ */
+export function formatCliHelp(): string {
+  const rows = Object.values(CLI_FLAGS as Record<string, CliFlag<unknown>>).map(
+    ({ flag, aliases = [], valueName, description }) => {
+      const shortAliases = aliases.filter((alias) => !alias.startsWith("--"));
+      const names = [...shortAliases, flag].join(", ");
+      return [valueName ? `${names} <${valueName}>` : names, description];
+    },
+  );
+  const width = Math.max(...rows.map(([names]) => names.length)) + 2;
+
+  return [
+    "TypeScript Type Bundler v2",
+    "",
+    "Usage: bundle-types -e <entry> -o <output> [options]",
+    "       bundle-types --package <dir> [options]",
+    "       bundle-types [--config <file>] [--target <names>] [options]",
+    "",
+    "Options:",
+    ...rows.map(([names, description]) => `  ${names.padEnd(width)}${description}`),
+    "",
+    "Boolean flags are turned off with --no-<flag> (e.g. --no-validate); flags starting with --no- are",
+    "turned off by dropping it (e.g. --banner).",
+  ].join("\n");
+}
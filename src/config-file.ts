@@ -0,0 +1,385 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import * as ts from "typescript";
+import { type CliOptions, type CliValueKind, getOptionKinds } from "./cli";
+import type { BundleTarget, BundleTargetOptions, DtsBundlerConfig } from "./types";
+
+/**
+ * Config file names looked up in the working directory, in order of
+ * precedence. A `dtsBundler` key in package.json is used when none exists.
+ */
+export const CONFIG_FILE_NAMES = ["dts-bundler.config.ts", "dts-bundler.config.mjs", "dts-bundler.config.json"];
+
+/**
+ * A target of a loaded config: the defaults merged with the target options,
+ * with paths resolved against the config file directory.
+ */
+export interface ResolvedBundleTarget extends BundleTargetOptions {
+  name?: string;
+  entry: string;
+  output: string;
+}
+
+/**
+ * A loaded and validated config.
+ * - `configPath`: absolute path of the file the config was read from.
+ * - `targets`: every target of the config.
+ */
+export interface LoadedConfig {
+  configPath: string;
+  targets: ResolvedBundleTarget[];
+}
+
+/**
+ * CLI options that are not options of a target.
+ */
+const NON_TARGET_OPTIONS = new Set<keyof CliOptions>([
+  "entry",
+  "outFile",
+  "packagePath",
+  "config",
+  "target",
+  "check",
+  "report",
+  "reportFile",
+  "watch",
+  "help",
+]);
+
+/**
+ * Kinds of the options a target or `defaults` may set.
+ */
+const TARGET_OPTION_KINDS = new Map<string, CliValueKind>(
+  [...getOptionKinds()].filter(([key]) => !NON_TARGET_OPTIONS.has(key)),
+);
+
+/**
+ * Options that configs written in JavaScript or TypeScript may also set to a
+ * function.
+ */
+const FUNCTION_OPTIONS = new Set(["banner", "footer"]);
+
+/**
+ * Options holding paths, resolved against the config file directory.
+ */
+const PATH_OPTIONS = ["tsconfig", "cacheDir"] as const;
+
+/**
+ * Find the config of a directory.
+ * @param cwd - Directory to look in
+ * @returns The path of the config file or package.json with a `dtsBundler`
+ * key, or null when there is none
+ */
+export function findConfigFile(cwd: string): string | null {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const configPath = path.join(cwd, fileName);
+    if (fs.existsSync(configPath)) {
+      return configPath;
+    }
+  }
+
+  const packageJsonPath = path.join(cwd, "package.json");
+  try {
+    const pkg = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8")) as Record<string, unknown>;
+    return pkg.dtsBundler !== undefined ? packageJsonPath : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Import a config module. TypeScript configs are transpiled to a temporary
+ * module next to them, so that their imports resolve like their own.
+ */
+async function importConfigModule(configPath: string): Promise<unknown> {
+  let modulePath = configPath;
+  if (configPath.endsWith(".ts")) {
+    const { outputText } = ts.transpileModule(fs.readFileSync(configPath, "utf-8"), {
+      fileName: configPath,
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    modulePath = `${configPath}.timestamp-${Date.now()}.mjs`;
+    fs.writeFileSync(modulePath, outputText, "utf-8");
+  }
+
+  try {
+    const module = (await import(pathToFileURL(modulePath).href)) as { default?: unknown };
+    return await module.default;
+  } finally {
+    if (modulePath !== configPath) {
+      fs.rmSync(modulePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Read the raw config from a config file or package.json.
+ */
+async function readConfig(configPath: string): Promise<unknown> {
+  if (path.basename(configPath) === "package.json") {
+    const pkg = JSON.parse(fs.readFileSync(configPath, "utf-8")) as Record<string, unknown>;
+    return pkg.dtsBundler;
+  }
+  if (configPath.endsWith(".json")) {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8")) as unknown;
+  }
+  return importConfigModule(configPath);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesKind(value: unknown, kind: CliValueKind): boolean {
+  switch (kind) {
+    case "boolean":
+      return typeof value === "boolean";
+    case "string":
+      return typeof value === "string";
+    case "list":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+    case "json":
+      return isPlainObject(value);
+    default:
+      return false;
+  }
+}
+
+const KIND_DESCRIPTIONS: Record<CliValueKind, string> = {
+  boolean: "a boolean",
+  string: "a string",
+  list: "an array of strings",
+  json: "an object",
+};
+
+/**
+ * Number of single-character edits turning `a` into `b`.
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Validates a raw config and collects every problem with its path in the
+ * config (e.g. `targets[1].inlinedLibraries`).
+ */
+class ConfigValidator {
+  /**
+   * Problems found so far.
+   */
+  private errors: string[];
+
+  constructor() {
+    this.errors = [];
+  }
+
+  /**
+   * Validate a raw config.
+   * @param config - Default export of the config file, or the `dtsBundler` key
+   * @returns The problems found, empty when the config is valid
+   */
+  validate(config: unknown): string[] {
+    this.errors = [];
+
+    if (!isPlainObject(config)) {
+      this.errors.push("the config must be an object with a `targets` array");
+      return this.errors;
+    }
+
+    for (const key of Object.keys(config)) {
+      if (key !== "defaults" && key !== "targets") {
+        this.reportUnknownKey(key, key, ["defaults", "targets"]);
+      }
+    }
+    if (config.defaults !== undefined) {
+      this.validateOptions(config.defaults, "defaults", []);
+    }
+
+    if (!Array.isArray(config.targets) || config.targets.length === 0) {
+      this.errors.push("targets must be a non-empty array");
+      return this.errors;
+    }
+
+    const names = new Set<string>();
+    config.targets.forEach((target, index) => {
+      const targetPath = `targets[${index}]`;
+      this.validateOptions(target, targetPath, ["name", "entry", "output"]);
+      if (!isPlainObject(target)) return;
+
+      for (const key of ["entry", "output"]) {
+        if (target[key] === undefined) {
+          this.errors.push(`${targetPath}.${key} is required`);
+        }
+      }
+      if (typeof target.name === "string") {
+        if (names.has(target.name)) {
+          this.errors.push(`${targetPath}.name "${target.name}" is used by another target`);
+        }
+        names.add(target.name);
+      }
+    });
+
+    return this.errors;
+  }
+
+  /**
+   * Validate the options of `defaults` or of a target.
+   * @param options - Options to validate
+   * @param optionsPath - Path of the options in the config
+   * @param stringKeys - Keys allowed besides the bundling options, holding strings
+   */
+  private validateOptions(options: unknown, optionsPath: string, stringKeys: string[]): void {
+    if (!isPlainObject(options)) {
+      this.errors.push(`${optionsPath} must be an object`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(options)) {
+      const keyPath = `${optionsPath}.${key}`;
+      if (key === "plugins") {
+        this.validatePlugins(value, keyPath);
+        continue;
+      }
+      const kind = stringKeys.includes(key) ? "string" : TARGET_OPTION_KINDS.get(key);
+      if (!kind) {
+        this.reportUnknownKey(key, keyPath, [...stringKeys, ...TARGET_OPTION_KINDS.keys(), "plugins"]);
+      } else if (FUNCTION_OPTIONS.has(key)) {
+        if (value !== undefined && !matchesKind(value, kind) && typeof value !== "function") {
+          this.errors.push(`${keyPath} must be ${KIND_DESCRIPTIONS[kind]} or a function, got ${JSON.stringify(value)}`);
+        }
+      } else if (value !== undefined && !matchesKind(value, kind)) {
+        this.errors.push(`${keyPath} must be ${KIND_DESCRIPTIONS[kind]}, got ${JSON.stringify(value)}`);
+      }
+    }
+  }
+
+  /**
+   * Validate the `plugins` of `defaults` or of a target, which only configs
+   * written in JavaScript or TypeScript can implement.
+   */
+  private validatePlugins(plugins: unknown, pluginsPath: string): void {
+    if (plugins === undefined) return;
+    if (!Array.isArray(plugins)) {
+      this.errors.push(`${pluginsPath} must be an array of plugins`);
+      return;
+    }
+    plugins.forEach((plugin, index) => {
+      if (!isPlainObject(plugin) || typeof plugin.name !== "string" || plugin.name === "") {
+        this.errors.push(`${pluginsPath}[${index}] must be a plugin object with a name`);
+      }
+    });
+  }
+
+  /**
+   * Report an unknown key, suggesting the closest known key.
+   */
+  private reportUnknownKey(key: string, keyPath: string, knownKeys: string[]): void {
+    const [suggestion] = knownKeys
+      .map((knownKey) => ({ knownKey, distance: getEditDistance(key, knownKey) }))
+      .filter(({ distance }) => distance <= Math.max(2, Math.floor(key.length / 4)))
+      .sort((a, b) => a.distance - b.distance);
+    this.errors.push(
+      suggestion
+        ? `${keyPath} is not a known option (did you mean "${suggestion.knownKey}"?)`
+        : `${keyPath} is not a known option`,
+    );
+  }
+}
+
+/**
+ * Merge the defaults into a target and resolve its paths against the config
+ * file directory.
+ */
+function resolveTarget(target: BundleTarget, defaults: BundleTargetOptions, configDir: string): ResolvedBundleTarget {
+  const resolved: ResolvedBundleTarget = {
+    ...defaults,
+    ...target,
+    entry: path.resolve(configDir, target.entry),
+    output: path.resolve(configDir, target.output),
+  };
+  for (const option of PATH_OPTIONS) {
+    const value = resolved[option];
+    if (value !== undefined) {
+      resolved[option] = path.resolve(configDir, value);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Load and validate a config: a `dts-bundler.config.{ts,mjs,json}` file, or
+ * the `dtsBundler` key of a package.json. Modules provide the config as their
+ * default export.
+ * @param configPath - Path of the config file or package.json; looked up in
+ * `cwd` when omitted
+ * @param cwd - Directory relative paths resolve against
+ * @returns The config, or null when no path is given and `cwd` has none
+ * @throws {Error} When the config cannot be read or is invalid
+ */
+export async function loadConfig(configPath?: string, cwd = process.cwd()): Promise<LoadedConfig | null> {
+  const resolvedPath = configPath ? path.resolve(cwd, configPath) : findConfigFile(cwd);
+  if (!resolvedPath) {
+    return null;
+  }
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Cannot find config file: ${resolvedPath}`);
+  }
+
+  let config: unknown;
+  try {
+    config = await readConfig(resolvedPath);
+  } catch (error) {
+    throw new Error(`Error reading config ${resolvedPath}: ${(error as Error).message}`);
+  }
+
+  const errors = new ConfigValidator().validate(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid config ${resolvedPath}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+
+  const { defaults = {}, targets } = config as DtsBundlerConfig;
+  const configDir = path.dirname(resolvedPath);
+  return {
+    configPath: resolvedPath,
+    targets: targets.map((target) => resolveTarget(target, defaults, configDir)),
+  };
+}
+
+/**
+ * Pick the targets of a config by name.
+ * @param config - Loaded config
+ * @param names - Names of the targets; every target when empty
+ * @returns The selected targets, in the order of the config
+ * @throws {Error} When a name matches no target
+ */
+export function selectTargets(config: LoadedConfig, names: string[] = []): ResolvedBundleTarget[] {
+  const knownNames = config.targets.flatMap(({ name }) => (name ? [name] : []));
+  const unknownNames = names.filter((name) => !knownNames.includes(name));
+  if (unknownNames.length > 0) {
+    const available = knownNames.length > 0 ? knownNames.join(", ") : "none (targets need a name to be selected)";
+    throw new Error(
+      `Unknown target ${unknownNames.map((name) => `"${name}"`).join(", ")} in ${config.configPath}; available targets: ${available}`,
+    );
+  }
+
+  return names.length > 0 ? config.targets.filter(({ name }) => name && names.includes(name)) : config.targets;
+}
+
+/**
+ * Type a config in a `dts-bundler.config.ts` or `.mjs` file.
+ * @param config - The config
+ * @returns The config unchanged
+ */
+export function defineConfig(config: DtsBundlerConfig): DtsBundlerConfig {
+  return config;
+}
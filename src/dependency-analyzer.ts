@@ -2,6 +2,7 @@ import path from "node:path";
 import * as ts from "typescript";
 import { hasDefaultModifier } from "./declaration-utils";
 import type { FileCollector } from "./file-collector";
+import { type ReleaseTag, getMostPublicReleaseTag, getReleaseTaggedMembers } from "./helpers/release-tags";
 import type { TypeRegistry } from "./registry";
 import { ExportKind } from "./types";
 
@@ -172,6 +173,8 @@ export class DependencyAnalyzer {
     sourceFile: string;
     dependencies: Set<symbol>;
     externalDependencies: Map<string, Set<string>>;
+    dependencyReleaseTags: Map<symbol, ReleaseTag>;
+    externalDependencyReleaseTags: Map<string, ReleaseTag>;
     namespaceDependencies: Set<string>;
     importAliases: Map<string, { sourceFile: string; originalName: string; qualifiedName?: string }>;
     id: symbol;
@@ -190,10 +193,28 @@ export class DependencyAnalyzer {
       >();
     const references = new Set<string>();
     const valueReferences = new Set<string>();
+    const taggedMembers = getReleaseTaggedMembers(declaration.node);
 
-    this.extractTypeReferences(declaration.node, references, valueReferences);
+    this.extractTypeReferences(declaration.node, references, valueReferences, taggedMembers);
     this.trackImportTypeDependencies(declaration);
 
+    // Names referenced only from members with a release tag are followed only
+    // by bundles keeping the most public of those members
+    const referenceReleaseTags = new Map<string, ReleaseTag>();
+    for (const [member, tag] of taggedMembers) {
+      const memberReferences = new Set<string>();
+      this.extractTypeReferences(member, memberReferences, valueReferences, taggedMembers);
+      for (const refName of memberReferences) {
+        if (!references.has(refName)) {
+          const previousTag = referenceReleaseTags.get(refName);
+          referenceReleaseTags.set(refName, previousTag ? getMostPublicReleaseTag(previousTag, tag) : tag);
+        }
+      }
+    }
+    for (const refName of referenceReleaseTags.keys()) {
+      references.add(refName);
+    }
+
     for (const refName of valueReferences) {
       const importInfo = fileImports.get(refName);
       if (importInfo?.isExternal && importInfo.sourceFile) {
@@ -203,6 +224,7 @@ export class DependencyAnalyzer {
 
     for (const refName of references) {
       const importInfo = fileImports.get(refName);
+      const releaseTag = referenceReleaseTags.get(refName);
 
       if (importInfo) {
         // Check if this is a namespace import (import * as namespace)
@@ -221,7 +243,7 @@ export class DependencyAnalyzer {
               const depIds = this.registry.getDeclarationIdsByKey(key);
               if (depIds) {
                 for (const depId of depIds) {
-                  declaration.dependencies.add(depId);
+                  DependencyAnalyzer.addDependency(declaration, depId, releaseTag);
                 }
               }
             }
@@ -232,7 +254,7 @@ export class DependencyAnalyzer {
               : null;
             if (sourceFileDecls) {
               for (const declId of sourceFileDecls) {
-                declaration.dependencies.add(declId);
+                DependencyAnalyzer.addDependency(declaration, declId, releaseTag);
               }
             }
           }
@@ -243,6 +265,19 @@ export class DependencyAnalyzer {
           }
           // Use the original import name from the registry (which might include "= " prefix)
           const importName = importInfo.originalName;
+          const key = `${moduleName}:${importName}`;
+          const isPublicDependency =
+            declaration.externalDependencies.get(moduleName)?.has(importName) &&
+            !declaration.externalDependencyReleaseTags.has(key);
+          if (!releaseTag) {
+            declaration.externalDependencyReleaseTags.delete(key);
+          } else if (!isPublicDependency) {
+            const previousTag = declaration.externalDependencyReleaseTags.get(key);
+            declaration.externalDependencyReleaseTags.set(
+              key,
+              previousTag ? getMostPublicReleaseTag(previousTag, releaseTag) : releaseTag,
+            );
+          }
           declaration.externalDependencies.get(moduleName)?.add(importName);
         } else if (importInfo.sourceFile) {
           let originalName = importInfo.originalName;
@@ -278,7 +313,7 @@ export class DependencyAnalyzer {
           }
           if (depIds) {
             for (const depId of depIds) {
-              declaration.dependencies.add(depId);
+              DependencyAnalyzer.addDependency(declaration, depId, releaseTag);
             }
           } else {
             const resolved = this.resolveStarExportedDeclarationIds(importInfo.sourceFile, originalName, new Set());
@@ -294,7 +329,7 @@ export class DependencyAnalyzer {
                 ) {
                   depDecl.exportInfo.kind = ExportKind.Named;
                 }
-                declaration.dependencies.add(depId);
+                DependencyAnalyzer.addDependency(declaration, depId, releaseTag);
               }
               importInfo.sourceFile = namedResolved.targetFile;
             }
@@ -316,13 +351,37 @@ export class DependencyAnalyzer {
                 continue;
               }
             }
-            declaration.dependencies.add(localId);
+            DependencyAnalyzer.addDependency(declaration, localId, releaseTag);
           }
         }
       }
     }
   }
 
+  /**
+   * Add a dependency to a declaration, recording its release tag when it is
+   * referenced only from members with a release tag other than public.
+   * @param releaseTag - Release tag of the referencing members; undefined
+   * when the dependency is referenced outside of them
+   */
+  private static addDependency(
+    declaration: { dependencies: Set<symbol>; dependencyReleaseTags: Map<symbol, ReleaseTag> },
+    depId: symbol,
+    releaseTag: ReleaseTag | undefined,
+  ): void {
+    const isPublicDependency = declaration.dependencies.has(depId) && !declaration.dependencyReleaseTags.has(depId);
+    if (!releaseTag) {
+      declaration.dependencyReleaseTags.delete(depId);
+    } else if (!isPublicDependency) {
+      const previousTag = declaration.dependencyReleaseTags.get(depId);
+      declaration.dependencyReleaseTags.set(
+        depId,
+        previousTag ? getMostPublicReleaseTag(previousTag, releaseTag) : releaseTag,
+      );
+    }
+    declaration.dependencies.add(depId);
+  }
+
   /**
    * Handle `import("module").X` style nodes by resolving the module and
    * adding the referenced declarations to the dependency set.
@@ -432,8 +491,14 @@ export class DependencyAnalyzer {
    * Walk `node` and collect type and (optionally) value references.
    * - `references` receives type-level identifier names
    * - `valueReferences` receives names used in value positions when available
+   * - `skippedNodes` holds descendants whose references are not collected
    */
-  private extractTypeReferences(node: ts.Node, references: Set<string>, valueReferences?: Set<string>): void {
+  private extractTypeReferences(
+    node: ts.Node,
+    references: Set<string>,
+    valueReferences?: Set<string>,
+    skippedNodes?: Map<ts.Node, unknown>,
+  ): void {
     const addReference = (name: string): void => {
       references.add(name);
     };
@@ -518,16 +583,19 @@ export class DependencyAnalyzer {
 
     if (ts.isFunctionLike(node) && "body" in node && node.body) {
       node.forEachChild((child) => {
-        if (child === node.body) {
+        if (child === node.body || skippedNodes?.has(child)) {
           return;
         }
-        this.extractTypeReferences(child, references, valueReferences);
+        this.extractTypeReferences(child, references, valueReferences, skippedNodes);
       });
       return;
     }
 
     node.forEachChild((child) => {
-      this.extractTypeReferences(child, references, valueReferences);
+      if (skippedNodes?.has(child)) {
+        return;
+      }
+      this.extractTypeReferences(child, references, valueReferences, skippedNodes);
     });
 
     if (isCtsFile) {
@@ -0,0 +1,114 @@
+import * as ts from "typescript";
+import { tryGetSourceFile } from "./helpers/file-utils";
+import type { BundleDiagnostic, DiagnosticCode } from "./types";
+
+/**
+ * Convert a TypeScript diagnostic into a bundle diagnostic with a
+ * `TS<code>` code and 1-based line and column numbers.
+ * @param diagnostic - TypeScript diagnostic
+ * @returns The bundle diagnostic
+ */
+export function toBundleDiagnostic(diagnostic: ts.Diagnostic): BundleDiagnostic {
+  const result: BundleDiagnostic = {
+    code: `TS${diagnostic.code}`,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+  };
+
+  if (diagnostic.file) {
+    result.file = diagnostic.file.fileName;
+    if (diagnostic.start !== undefined) {
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      result.line = line + 1;
+      result.column = character + 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a bundle diagnostic located at `node` when the node belongs to a
+ * parsed source file (synthesized nodes carry no location).
+ * @param code - Diagnostic code
+ * @param severity - Diagnostic severity
+ * @param message - Human-readable message
+ * @param node - Node the diagnostic refers to
+ * @returns The bundle diagnostic
+ */
+export function createDiagnostic(
+  code: DiagnosticCode,
+  severity: BundleDiagnostic["severity"],
+  message: string,
+  node?: ts.Node,
+): BundleDiagnostic {
+  const result: BundleDiagnostic = { code, severity, message };
+
+  const sourceFile = node ? tryGetSourceFile(node) : null;
+  if (node && sourceFile) {
+    result.file = sourceFile.fileName;
+    if (node.pos >= 0) {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      result.line = line + 1;
+      result.column = character + 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format a diagnostic as `file:line:column - code: message`.
+ * @param diagnostic - Diagnostic to format
+ * @returns The formatted diagnostic
+ */
+export function formatDiagnostic(diagnostic: BundleDiagnostic): string {
+  const { code, severity, message, file, line, column } = diagnostic;
+  const location = file ? `${file}${line !== undefined ? `:${line}:${column}` : ""} - ` : "";
+  return `${location}${severity} ${code}: ${message}`;
+}
+
+/**
+ * Error carrying the diagnostics that caused bundling to fail, either an
+ * error the bundler cannot recover from or warnings with `failOnWarnings`.
+ */
+export class BundleDiagnosticError extends Error {
+  /** Diagnostics that caused the failure. */
+  readonly diagnostics: BundleDiagnostic[];
+
+  constructor(message: string, diagnostics: BundleDiagnostic[]) {
+    super(`${message}\n${diagnostics.map((diagnostic) => `  ${formatDiagnostic(diagnostic)}`).join("\n")}`);
+    this.name = "BundleDiagnosticError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Collects the diagnostics reported while bundling one entry and forwards
+ * each of them to the `onDiagnostic` callback.
+ */
+export class DiagnosticReporter {
+  /** Diagnostics reported so far, in reporting order. */
+  private diagnostics: BundleDiagnostic[];
+
+  /** Callback invoked for every reported diagnostic. */
+  private onDiagnostic?: (diagnostic: BundleDiagnostic) => void;
+
+  constructor(onDiagnostic?: (diagnostic: BundleDiagnostic) => void) {
+    this.diagnostics = [];
+    this.onDiagnostic = onDiagnostic;
+  }
+
+  report(diagnostic: BundleDiagnostic): void {
+    this.diagnostics.push(diagnostic);
+    this.onDiagnostic?.(diagnostic);
+  }
+
+  warning(code: DiagnosticCode, message: string, node?: ts.Node): void {
+    this.report(createDiagnostic(code, "warning", message, node));
+  }
+
+  getDiagnostics(): BundleDiagnostic[] {
+    return [...this.diagnostics];
+  }
+}
@@ -1,12 +1,18 @@
-import fs from "node:fs";
 import { builtinModules } from "node:module";
 import path from "node:path";
 import * as ts from "typescript";
+import type { DiagnosticReporter } from "./diagnostics";
 import { getLibraryName, getTypesLibraryName } from "./helpers/node-modules";
-import { findTsConfig, getCompilerOptions } from "./helpers/typescript-config";
+import { type ProgramConfig, createCompilerHost, resolveCompilerOptions } from "./helpers/typescript-config";
+import { DiagnosticCode } from "./types";
 
 interface FileCollectorOptions {
   inlinedLibraries?: string[];
+  program?: ts.Program;
+  moduleResolutionCache?: ts.ModuleResolutionCache;
+  diagnostics?: DiagnosticReporter;
+  system?: ts.System;
+  config?: ProgramConfig;
 }
 
 /**
@@ -14,6 +20,15 @@ interface FileCollectorOptions {
  * - `inlinedLibraries`: explicit list of package names that should be treated
  *   as inlined (their files are included in the bundle) instead of preserved
  *   as external dependencies.
+ * - `program`: an existing `Program` to reuse instead of creating one for the
+ *   entry (used when bundling several entries in one run).
+ * - `moduleResolutionCache`: a resolution cache shared between collectors
+ *   that use the same `Program`.
+ * - `diagnostics`: reporter receiving warnings such as unresolved imports.
+ * - `system`: file system every file read and existence check goes through
+ *   (defaults to `ts.sys`).
+ * - `config`: explicit tsconfig path and compiler option overrides used when
+ *   creating the `Program` for the entry.
  */
 
 export interface CollectedFile {
@@ -26,7 +41,8 @@ export interface CollectedFile {
 
 /**
  * Representation of a source file collected for bundling.
- * - `content`: file contents as read from disk (or sourceFile.text fallback).
+ * - `content`: file contents as read through the collector's file system (or
+ *   sourceFile.text fallback).
  * - `sourceFile`: TypeScript `SourceFile` AST for analysis.
  * - `isEntry`: true for the bundle entry file.
  * - `hasEmptyExport`: true when the file contains `export {}`.
@@ -85,19 +101,43 @@ export class FileCollector {
    */
   private externalResolveCache: Map<string, { resolvedPath: string | null; typesLibraryName: string | null }>;
 
+  /**
+   * TypeScript module resolution cache used by `resolveModuleSpecifier`.
+   */
+  private moduleResolutionCache: ts.ModuleResolutionCache;
+
+  /**
+   * Reporter receiving warnings raised while collecting files.
+   */
+  private diagnostics: DiagnosticReporter | undefined;
+
+  /**
+   * File system used for every file read and existence check.
+   */
+  private system: ts.System;
+
   /**
    * Create a new `FileCollector`.
    * @param entryFile - The absolute or relative path to the bundle entry file.
    * @param options.inlinedLibraries - Packages to inline into the bundle.
+   * @param options.program - Existing `Program` to reuse; one is created for the entry when omitted.
+   * @param options.moduleResolutionCache - Resolution cache to share with other collectors.
+   * @param options.diagnostics - Reporter receiving warnings such as unresolved imports.
+   * @param options.system - File system to read from; defaults to `ts.sys`.
+   * @param options.config - Tsconfig path and compiler option overrides for the created `Program`.
    */
   constructor(entryFile: string, options: FileCollectorOptions = {}) {
-    this.entryFile = path.resolve(entryFile);
+    this.system = options.system ?? ts.sys;
+    this.entryFile = path.resolve(this.system.getCurrentDirectory(), entryFile);
     this.inlinedLibraries = options.inlinedLibraries ?? [];
-    this.program = this.createProgram();
+    this.program = options.program ?? FileCollector.createProgram([this.entryFile], this.system, options.config);
     this.typeChecker = this.program.getTypeChecker();
+    this.moduleResolutionCache =
+      options.moduleResolutionCache ?? FileCollector.createModuleResolutionCache(this.program, this.system);
+    this.diagnostics = options.diagnostics;
 
     const compilerOptions = this.program.getCompilerOptions();
-    const effectiveRoots = ts.getEffectiveTypeRoots(compilerOptions, ts.sys) ?? [];
+    const effectiveRoots = ts.getEffectiveTypeRoots(compilerOptions, this.system) ?? [];
     const configRoots = compilerOptions.typeRoots ?? [];
     this.typeRoots = [...new Set([...effectiveRoots, ...configRoots])].map((root) => path.resolve(root));
 
@@ -112,18 +152,43 @@ export class FileCollector {
   }
 
   /**
-   * Create a TypeScript `Program` for the entry file using the discovered
-   * `tsconfig.json` and compiler options appropriate for Node's module
-   * resolution (NodeNext) when required by the entry extension.
+   * Create a TypeScript `Program` for one or more entry files with the
+   * options of `getProgramCompilerOptions`.
    *
-   * @returns A new TypeScript `Program` configured for the entry file.
+   * @param entryFiles - Absolute paths of the entry files (program root names).
+   * @param system - File system the program reads the tsconfig and sources from.
+   * @param config - Explicit tsconfig path and compiler option overrides.
+   * @returns A new TypeScript `Program` configured for the entry files.
    */
-  private createProgram(): ts.Program {
-    const configPath = findTsConfig(this.entryFile);
-    const compilerOptions = getCompilerOptions(configPath);
+  static createProgram(entryFiles: string[], system: ts.System = ts.sys, config: ProgramConfig = {}): ts.Program {
+    const compilerOptions = FileCollector.getProgramCompilerOptions(entryFiles, system, config);
+    return ts.createProgram(entryFiles, compilerOptions, createCompilerHost(compilerOptions, system));
+  }
 
-    const entryExt = path.extname(this.entryFile).toLowerCase();
-    if (entryExt === ".cts" || entryExt === ".mts" || entryExt === ".cjs" || entryExt === ".mjs") {
+  /**
+   * Compute the compiler options of the `Program` for one or more entry
+   * files: the given tsconfig (or the `tsconfig.json` discovered from the
+   * first entry, or default options when there is none) with the configured
+   * overrides, and options appropriate for Node's module resolution
+   * (NodeNext) when required by an entry extension.
+   *
+   * @param entryFiles - Absolute paths of the entry files.
+   * @param system - File system to read the tsconfig from.
+   * @param config - Explicit tsconfig path and compiler option overrides.
+   * @returns The compiler options.
+   */
+  static getProgramCompilerOptions(
+    entryFiles: string[],
+    system: ts.System = ts.sys,
+    config: ProgramConfig = {},
+  ): ts.CompilerOptions {
+    const compilerOptions = resolveCompilerOptions(entryFiles[0], config, system);
+
+    const needsNodeNext = entryFiles.some((entryFile) => {
+      const entryExt = path.extname(entryFile).toLowerCase();
+      return entryExt === ".cts" || entryExt === ".mts" || entryExt === ".cjs" || entryExt === ".mjs";
+    });
+    if (needsNodeNext) {
       compilerOptions.moduleResolution = ts.ModuleResolutionKind.NodeNext;
       if (compilerOptions.module === undefined) {
         compilerOptions.module = ts.ModuleKind.NodeNext;
@@ -137,8 +202,25 @@ export class FileCollector {
     compilerOptions.skipLibCheck = true;
     compilerOptions.skipDefaultLibCheck = true;
 
-    // Create program with the entry file
-    return ts.createProgram([this.entryFile], compilerOptions);
+    return compilerOptions;
+  }
+
+  /**
+   * Create a module resolution cache matching the options of `program`.
+   * Collectors sharing a `Program` can share the returned cache as well.
+   *
+   * @param program - The program whose compiler options drive resolution.
+   * @param system - File system the program reads from.
+   * @returns A new TypeScript `ModuleResolutionCache`.
+   */
+  static createModuleResolutionCache(program: ts.Program, system: ts.System = ts.sys): ts.ModuleResolutionCache {
+    const getCanonicalFileName = (fileName: string): string =>
+      system.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase();
+    return ts.createModuleResolutionCache(
+      program.getCurrentDirectory(),
+      getCanonicalFileName,
+      program.getCompilerOptions(),
+    );
   }
 
   /**
@@ -367,6 +449,11 @@ export class FileCollector {
     return this.program.getCompilerOptions();
   }
 
+  getSystem(): ts.System {
+    /** Return the file system files are read from. */
+    return this.system;
+  }
+
   /**
    * Check if a given file path belongs to an inlined library
    */
@@ -382,7 +469,7 @@ export class FileCollector {
   resolveImport(fromFile: string, importPath: string): string | null {
     /**
      * Resolve an import specifier relative to `fromFile` to an actual file
-     * path on disk. Handles relative resolution, a set of common extension
+     * path. Handles relative resolution, a set of common extension
      * fallbacks, and delegates to TypeScript resolution as needed.
      */
     // For relative imports, we can use simple path resolution
@@ -410,7 +497,7 @@ export class FileCollector {
         if (![".ts", ".tsx", ".js", ".mjs", ".cjs", ".mts", ".cts"].includes(ext)) {
           const basePath = resolved.slice(0, -ext.length);
           const arbitraryDeclPath = `${basePath}.d${ext}.ts`;
-          if (fs.existsSync(arbitraryDeclPath)) {
+          if (this.system.fileExists(arbitraryDeclPath)) {
             return arbitraryDeclPath;
           }
         }
@@ -437,14 +524,14 @@ export class FileCollector {
       for (const base of basePaths) {
         for (const ext of extensions) {
           const fullPath = base + ext;
-          if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+          if (this.system.fileExists(fullPath)) {
             return fullPath;
           }
         }
       }
 
       const resolvedByTs = this.resolveModuleSpecifier(fromFile, importPath);
-      if (resolvedByTs && fs.existsSync(resolvedByTs) && fs.statSync(resolvedByTs).isFile()) {
+      if (resolvedByTs && this.system.fileExists(resolvedByTs)) {
         return resolvedByTs;
       }
 
@@ -479,7 +566,7 @@ export class FileCollector {
     }
 
     const resolvedByTs = this.resolveModuleSpecifier(fromFile, importPath);
-    if (resolvedByTs && fs.existsSync(resolvedByTs) && fs.statSync(resolvedByTs).isFile()) {
+    if (resolvedByTs && this.system.fileExists(resolvedByTs)) {
       this.moduleResolveCache.set(importPath, resolvedByTs);
       return resolvedByTs;
     }
@@ -493,7 +580,13 @@ export class FileCollector {
      * Use TypeScript's `resolveModuleName` to resolve an import to a file
      * name according to the program's compiler options.
      */
-    const result = ts.resolveModuleName(importPath, fromFile, this.program.getCompilerOptions(), ts.sys);
+    const result = ts.resolveModuleName(
+      importPath,
+      fromFile,
+      this.program.getCompilerOptions(),
+      this.system,
+      this.moduleResolutionCache,
+    );
     const resolvedFileName = result.resolvedModule?.resolvedFileName;
     return resolvedFileName ?? null;
   }
@@ -553,16 +646,16 @@ export class FileCollector {
    * including the referenced declaration files in the bundle.
    *
    * @param sourceFile - The source file AST to scan.
-   * @returns A set of module specifiers used in import type nodes.
+   * @returns The module specifier literals used in import type nodes.
    */
-  private static collectImportTypeModuleSpecifiers(sourceFile: ts.SourceFile): Set<string> {
-    const modules = new Set<string>();
+  private static collectImportTypeModuleSpecifiers(sourceFile: ts.SourceFile): ts.StringLiteral[] {
+    const modules: ts.StringLiteral[] = [];
 
     const visit = (node: ts.Node): void => {
       if (ts.isImportTypeNode(node)) {
         const argument = node.argument;
         if (ts.isLiteralTypeNode(argument) && ts.isStringLiteral(argument.literal)) {
-          modules.add(argument.literal.text);
+          modules.push(argument.literal);
         }
       }
       node.forEachChild(visit);
@@ -572,11 +665,78 @@ export class FileCollector {
     return modules;
   }
 
-  collectFiles(): Map<string, CollectedFile> {
+  /**
+   * Collect the module specifiers a source file depends on: import/export
+   * declarations, `import x = require()` and `import("...")` types.
+   *
+   * @param sourceFile - The source file AST to scan.
+   * @returns The module specifier literals in order of appearance.
+   */
+  private static collectModuleSpecifiers(sourceFile: ts.SourceFile): ts.StringLiteral[] {
+    const specifiers: ts.StringLiteral[] = [];
+    for (const statement of sourceFile.statements) {
+      let moduleSpecifier: ts.Expression | undefined;
+      if (ts.isImportDeclaration(statement)) {
+        moduleSpecifier = statement.moduleSpecifier;
+      } else if (ts.isExportDeclaration(statement)) {
+        moduleSpecifier = statement.moduleSpecifier;
+      } else if (ts.isImportEqualsDeclaration(statement)) {
+        if (ts.isExternalModuleReference(statement.moduleReference)) {
+          moduleSpecifier = statement.moduleReference.expression;
+        }
+      }
+
+      if (!moduleSpecifier || !ts.isStringLiteral(moduleSpecifier)) continue;
+      specifiers.push(moduleSpecifier);
+    }
+
+    specifiers.push(...FileCollector.collectImportTypeModuleSpecifiers(sourceFile));
+    return specifiers;
+  }
+
+  /**
+   * Walk the import graph of the `Program` starting at the entry file and
+   * return every program file reachable through module specifiers,
+   * `import("...")` types and `/// <reference path="..." />` directives.
+   * Used to tell apart the files of different entries sharing one `Program`.
+   *
+   * @returns Absolute paths of the reachable files, including the entry.
+   */
+  getReachableFiles(): Set<string> {
+    const reachable = new Set<string>([this.entryFile]);
+    const queue = [this.entryFile];
+
+    while (queue.length > 0) {
+      const currentPath = queue.shift();
+      if (!currentPath) continue;
+      const sourceFile = this.program.getSourceFile(currentPath);
+      if (!sourceFile) continue;
+
+      const dependencies = FileCollector.collectModuleSpecifiers(sourceFile).map((specifier) =>
+        this.resolveImport(currentPath, specifier.text),
+      );
+      for (const reference of sourceFile.referencedFiles) {
+        dependencies.push(path.resolve(path.dirname(currentPath), reference.fileName));
+      }
+
+      for (const dependency of dependencies) {
+        if (!dependency || reachable.has(dependency)) continue;
+        if (!this.program.getSourceFile(dependency)) continue;
+        reachable.add(dependency);
+        queue.push(dependency);
+      }
+    }
+
+    return reachable;
+  }
+
+  collectFiles(excludedFiles: Set<string> = new Set()): Map<string, CollectedFile> {
     /**
      * Collect and return all files that should be included in the bundle.
      * The returned `Map` keys are absolute file paths and values are
-     * `CollectedFile` instances describing each file.
+     * `CollectedFile` instances describing each file. Program files listed
+     * in `excludedFiles` (e.g. files only reachable from other entries of a
+     * shared `Program`) are skipped.
      */
     const files = new Map<string, CollectedFile>();
     const sourceFiles = this.program.getSourceFiles();
@@ -584,12 +744,7 @@ export class FileCollector {
     const createCollectedFile = (sourceFile: ts.SourceFile, isEntry: boolean): CollectedFile => {
       const filePath = sourceFile.fileName;
 
-      let content: string;
-      if (fs.existsSync(filePath)) {
-        content = fs.readFileSync(filePath, "utf-8");
-      } else {
-        content = sourceFile.text;
-      }
+      const content = this.system.readFile(filePath) ?? sourceFile.text;
 
       const hasEmptyExport = sourceFile.statements.some((statement) => {
         if (!ts.isExportDeclaration(statement)) return false;
@@ -637,6 +792,10 @@ export class FileCollector {
         continue;
       }
 
+      if (excludedFiles.has(sourceFile.fileName) && sourceFile.fileName !== this.entryFile) {
+        continue;
+      }
+
       const filePath = sourceFile.fileName;
       const isEntry = filePath === this.entryFile;
       files.set(filePath, createCollectedFile(sourceFile, isEntry));
@@ -649,38 +808,28 @@ export class FileCollector {
       const current = files.get(currentPath);
       if (!current) continue;
 
-      const enqueueResolvedFile = (importPath: string): void => {
+      const enqueueResolvedFile = (specifier: ts.StringLiteral): void => {
+        const importPath = specifier.text;
         const resolvedPath = this.resolveImport(currentPath, importPath);
+        if (!resolvedPath && (importPath.startsWith(".") || this.shouldInline(importPath, currentPath))) {
+          this.diagnostics?.warning(
+            DiagnosticCode.UnresolvedImport,
+            `Cannot resolve module '${importPath}'; declarations imported from it are missing from the bundle`,
+            specifier,
+          );
+        }
         if (!resolvedPath || files.has(resolvedPath)) return;
 
-        if (!fs.existsSync(resolvedPath) || !fs.statSync(resolvedPath).isFile()) return;
-        const content = fs.readFileSync(resolvedPath, "utf-8");
+        const content = this.system.readFile(resolvedPath);
+        if (content === undefined) return;
         const sourceFile = ts.createSourceFile(resolvedPath, content, ts.ScriptTarget.Latest, true);
         if (!this.shouldInlineFile(sourceFile)) return;
         files.set(resolvedPath, createCollectedFile(sourceFile, false));
         queue.push(resolvedPath);
       };
 
-      for (const statement of current.sourceFile.statements) {
-        let moduleSpecifier: ts.Expression | undefined;
-        if (ts.isImportDeclaration(statement)) {
-          moduleSpecifier = statement.moduleSpecifier;
-        } else if (ts.isExportDeclaration(statement)) {
-          moduleSpecifier = statement.moduleSpecifier;
-        } else if (ts.isImportEqualsDeclaration(statement)) {
-          if (ts.isExternalModuleReference(statement.moduleReference)) {
-            moduleSpecifier = statement.moduleReference.expression;
-          }
-        }
-
-        if (!moduleSpecifier || !ts.isStringLiteral(moduleSpecifier)) continue;
-
-        enqueueResolvedFile(moduleSpecifier.text);
-      }
-
-      const importTypeModules = FileCollector.collectImportTypeModuleSpecifiers(current.sourceFile);
-      for (const importPath of importTypeModules) {
-        enqueueResolvedFile(importPath);
+      for (const specifier of FileCollector.collectModuleSpecifiers(current.sourceFile)) {
+        enqueueResolvedFile(specifier);
       }
     }
 
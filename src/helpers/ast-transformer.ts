@@ -1,4 +1,6 @@
 import * as ts from "typescript";
+import { BundleDiagnosticError, createDiagnostic } from "../diagnostics";
+import { DiagnosticCode } from "../types";
 
 export type ModifiersMap = Record<ts.ModifierSyntaxKind, boolean>;
 
@@ -151,5 +153,6 @@ function recreateRootLevelNodeWithModifiersImpl(node: ts.Node, modifiersMap: Mod
     return ts.factory.createVariableStatement(modifiers, node.declarationList);
   }
 
-  throw new Error(`Unknown top-level node kind (with modifiers): ${ts.SyntaxKind[node.kind]}`);
+  const message = `Unknown top-level node kind (with modifiers): ${ts.SyntaxKind[node.kind]}`;
+  throw new BundleDiagnosticError(message, [createDiagnostic(DiagnosticCode.UnknownNodeKind, "error", message, node)]);
 }
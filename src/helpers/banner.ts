@@ -0,0 +1,117 @@
+import path from "node:path";
+import * as ts from "typescript";
+import type { BannerOption, BannerVariables } from "../types";
+
+/**
+ * Variables a banner or footer template may use.
+ */
+const BANNER_VARIABLES: (keyof BannerVariables)[] = [
+  "packageName",
+  "packageVersion",
+  "entry",
+  "bundlerVersion",
+  "date",
+];
+
+/**
+ * Matches a `{{name}}` variable of a template, with optional spaces.
+ */
+const VARIABLE_PATTERN = /\{\{\s*([\w$]*)\s*\}\}/g;
+
+/**
+ * Check the variables of a `banner` or `footer` template.
+ * @param option - Name of the option
+ * @param banner - Value of the option
+ * @returns The value of the option
+ * @throws {Error} When a template uses an unknown variable
+ */
+export function checkBannerOption(
+  option: "banner" | "footer",
+  banner: BannerOption | undefined,
+): BannerOption | undefined {
+  if (typeof banner === "string") {
+    for (const [variable, name] of banner.matchAll(VARIABLE_PATTERN)) {
+      if (!BANNER_VARIABLES.includes(name as keyof BannerVariables)) {
+        throw new Error(
+          `Unknown variable '${variable}' in the '${option}' option; expected ${BANNER_VARIABLES.join(", ")}`,
+        );
+      }
+    }
+  }
+  return banner;
+}
+
+/**
+ * Check whether a `banner` or `footer` template uses a variable.
+ * @param banner - Value of the option
+ * @param name - Name of the variable
+ * @returns False for functions, whose variables are unknown
+ */
+export function usesBannerVariable(banner: BannerOption | undefined, name: keyof BannerVariables): boolean {
+  return typeof banner === "string" && [...banner.matchAll(VARIABLE_PATTERN)].some(([, variable]) => variable === name);
+}
+
+/**
+ * Get the value of the `date` variable: the current UTC date as YYYY-MM-DD.
+ */
+export function getBannerDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Find the package.json the package variables of an entry are read from.
+ * @param entryFile - Absolute path of the entry file
+ * @param system - File system to search
+ * @returns The path of the nearest package.json, or undefined when there is none
+ */
+export function findPackageJson(entryFile: string, system: ts.System): string | undefined {
+  return ts.findConfigFile(path.dirname(entryFile), (fileName) => system.fileExists(fileName), "package.json");
+}
+
+/**
+ * Get the variables of the banner and footer of an entry.
+ * @param entryFile - Absolute path of the entry file
+ * @param system - File system the nearest package.json is read from
+ * @param bundlerVersion - Version of the bundler, null when unknown and empty
+ * when the bundler package has none
+ * @returns The variables
+ */
+export function getBannerVariables(
+  entryFile: string,
+  system: ts.System,
+  bundlerVersion: string | null,
+): BannerVariables {
+  const packageJsonPath = findPackageJson(entryFile, system);
+  let pkg: { name?: unknown; version?: unknown } = {};
+  try {
+    pkg = packageJsonPath ? (JSON.parse(system.readFile(packageJsonPath) ?? "{}") as typeof pkg) : {};
+  } catch {
+    // An unreadable package.json leaves the package variables empty
+  }
+
+  const rootDir = packageJsonPath ? path.dirname(packageJsonPath) : path.dirname(entryFile);
+  return {
+    packageName: typeof pkg.name === "string" ? pkg.name : "",
+    packageVersion: typeof pkg.version === "string" ? pkg.version : "",
+    entry: path.relative(rootDir, entryFile).split(path.sep).join("/"),
+    bundlerVersion: bundlerVersion || "unversioned",
+    date: getBannerDate(),
+  };
+}
+
+/**
+ * Render a banner or footer.
+ * @param banner - Template or function of the variables
+ * @param variables - Values of the variables
+ * @returns The text without trailing line breaks, or undefined when it is empty
+ */
+export function renderBanner(banner: BannerOption | undefined, variables: BannerVariables): string | undefined {
+  if (banner === undefined) {
+    return undefined;
+  }
+  const text =
+    typeof banner === "function"
+      ? banner(variables)
+      : banner.replace(VARIABLE_PATTERN, (_variable, name: keyof BannerVariables) => variables[name]);
+  return text.trimEnd() || undefined;
+}
@@ -0,0 +1,47 @@
+import path from "node:path";
+import * as ts from "typescript";
+import { createCompilerHost } from "./typescript-config";
+import { createVirtualSystem } from "./virtual-system";
+
+/**
+ * Path a bundle of `entryFile` is checked at: next to the entry, so that its
+ * imports resolve like the imports of the entry, with the declaration
+ * extension matching the module format of the entry.
+ * @param entryFile - Absolute path of the entry file
+ * @returns Absolute path of the bundle
+ */
+export function getBundleFileName(entryFile: string): string {
+  const match = /(?:\.d)?\.([cm]?)tsx?$/.exec(entryFile);
+  const baseName = path.basename(entryFile, match?.[0]);
+  return path.join(path.dirname(entryFile), `${baseName}.bundle.d.${match?.[1] ?? ""}ts`);
+}
+
+/**
+ * Create a program containing a generated bundle, stored in memory at
+ * `getBundleFileName(entryFile)`. Source files of `program` (e.g. the default
+ * libraries) are reused instead of being parsed again.
+ * @param code - Generated bundle
+ * @param entryFile - Absolute path of the entry the bundle was built from
+ * @param program - Program the bundle was built from
+ * @param system - File system `program` was read from
+ * @param compilerOptions - Compiler options of the new program
+ * @param rootNames - Root files of the new program besides the bundle
+ * @returns The program and the source file of the bundle
+ */
+export function createBundleProgram(
+  code: string,
+  entryFile: string,
+  program: ts.Program,
+  system: ts.System,
+  compilerOptions: ts.CompilerOptions,
+  rootNames: string[] = [],
+): { program: ts.Program; bundleSourceFile: ts.SourceFile | undefined } {
+  const bundleFileName = getBundleFileName(entryFile);
+  const host = createCompilerHost(compilerOptions, createVirtualSystem({ [bundleFileName]: code }, system));
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, ...args) =>
+    (fileName !== bundleFileName ? program.getSourceFile(fileName) : undefined) ?? getSourceFile(fileName, ...args);
+
+  const bundleProgram = ts.createProgram([...rootNames, bundleFileName], compilerOptions, host);
+  return { program: bundleProgram, bundleSourceFile: bundleProgram.getSourceFile(bundleFileName) };
+}
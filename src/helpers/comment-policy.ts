@@ -0,0 +1,138 @@
+import * as ts from "typescript";
+import type { CommentsMode } from "../types";
+import { forEachOutputToken } from "./output-format";
+
+/**
+ * Values of the `comments` option.
+ */
+const COMMENTS_MODES: CommentsMode[] = ["all", "jsdoc", "exported-only", "none"];
+
+/**
+ * The `comments` and `stripJsDocTags` options, checked.
+ * - `comments`: comments declarations keep; unset keeps the default policy.
+ * - `stripJsDocTags`: names of the JSDoc tags to remove, without `@`.
+ */
+export interface CommentPolicy {
+  comments?: CommentsMode;
+  stripJsDocTags: string[];
+}
+
+/**
+ * Comments a printed statement keeps once the policy is applied.
+ */
+type KeptComments = "all" | "jsdoc" | "none";
+
+/**
+ * Check the `comments` and `stripJsDocTags` options.
+ * @param comments - Comments declarations keep
+ * @param stripJsDocTags - JSDoc tags to remove, with or without `@`
+ * @returns The comment policy, or undefined when neither option is set
+ * @throws {Error} When the mode is unknown or a tag is not a tag name
+ */
+export function resolveCommentPolicy(
+  comments: CommentsMode | undefined,
+  stripJsDocTags: string[] | undefined,
+): CommentPolicy | undefined {
+  if (comments !== undefined && !COMMENTS_MODES.includes(comments)) {
+    throw new Error(`The 'comments' option must be "all", "jsdoc", "exported-only" or "none"`);
+  }
+  const tags = (stripJsDocTags ?? []).map((tag) => tag.replace(/^@/, ""));
+  const invalidTag = tags.find((tag) => !/^[A-Za-z][\w-]*$/.test(tag));
+  if (invalidTag !== undefined) {
+    throw new Error(`The 'stripJsDocTags' option must list JSDoc tag names, got '${invalidTag}'`);
+  }
+  return comments !== undefined || tags.length > 0 ? { comments, stripJsDocTags: tags } : undefined;
+}
+
+/**
+ * Remove the blocks of stripped tags from a JSDoc comment. A block runs from
+ * the line starting with its tag to the next tag; lines of code fences are
+ * never read as tags.
+ * @returns The comment, or an empty string when nothing is left of it
+ */
+function stripJsDocTags(comment: string, tags: string[]): string {
+  const lines = comment.slice("/**".length, -"*/".length).split("\n");
+  const kept: string[] = [];
+  let isStripping = false;
+  let isInFence = false;
+  for (const line of lines) {
+    const content = line.replace(/^\s*\*?\s?/, "");
+    if (!isInFence) {
+      const tag = /^@([A-Za-z][\w-]*)/.exec(content)?.[1];
+      if (tag !== undefined) {
+        isStripping = tags.includes(tag);
+      }
+    }
+    if (content.trimStart().startsWith("```")) {
+      isInFence = !isInFence;
+    }
+    if (!isStripping) {
+      kept.push(line);
+    }
+  }
+
+  // Blank lines the stripped blocks leave before the end of the comment
+  while (kept.length > 1 && kept[kept.length - 1].replace(/^\s*\*?/, "").trim() === "") {
+    kept.pop();
+  }
+  if (kept.every((line) => line.replace(/^\s*\*?/, "").trim() === "")) {
+    return "";
+  }
+  const closingIndent = /^\s*/.exec(lines[lines.length - 1])?.[0] ?? "";
+  const isSingleLine = lines.length === 1;
+  return isSingleLine ? `/**${kept[0].trimEnd()} */` : `/**${kept.join("\n")}\n${closingIndent}*/`;
+}
+
+/**
+ * Apply the comment policy to a printed declaration: comments that are not
+ * kept are removed, with their line when they stand alone on it, and the
+ * stripped tags are removed from the JSDoc comments that are.
+ * @param chunk - Printed statement, with its leading comments
+ * @param policy - Comment policy of the bundle
+ * @param isExported - Whether the bundle exports the declaration
+ * @returns The statement with its comments filtered
+ */
+export function applyCommentPolicy(chunk: string, policy: CommentPolicy, isExported: boolean): string {
+  const kept: KeptComments =
+    policy.comments === "exported-only" ? (isExported ? "jsdoc" : "none") : (policy.comments ?? "all");
+  const edits: { start: number; end: number; text: string }[] = [];
+  forEachOutputToken(chunk, (token, start, end) => {
+    if (token !== ts.SyntaxKind.SingleLineCommentTrivia && token !== ts.SyntaxKind.MultiLineCommentTrivia) {
+      return;
+    }
+    const comment = chunk.slice(start, end);
+    const isJsDoc = comment.startsWith("/**") && comment !== "/**/";
+    let text = kept === "all" || (kept === "jsdoc" && isJsDoc) ? comment : "";
+    if (text !== "" && isJsDoc && policy.stripJsDocTags.length > 0) {
+      text = stripJsDocTags(comment, policy.stripJsDocTags);
+    }
+    if (text !== comment) {
+      edits.push({ start, end, text });
+    }
+  });
+
+  let result = "";
+  let position = 0;
+  for (const { start, end, text } of edits) {
+    let editStart = start;
+    let editEnd = end;
+    if (text === "") {
+      const lineStart = chunk.lastIndexOf("\n", start - 1) + 1;
+      const before = chunk.slice(lineStart, start);
+      const after = /^[ \t]*(\n|$)/.exec(chunk.slice(end));
+      if (/^[ \t]*$/.test(before) && after) {
+        // A comment alone on its line goes with the line
+        editStart = Math.max(lineStart, position);
+        editEnd = end + after[0].length;
+      } else if (after) {
+        editStart = start - (/[ \t]*$/.exec(before)?.[0].length ?? 0);
+      } else {
+        editEnd = end + (/^[ \t]*/.exec(chunk.slice(end))?.[0].length ?? 0);
+      }
+    }
+    result += chunk.slice(position, Math.max(editStart, position)) + text;
+    position = editEnd;
+  }
+  result += chunk.slice(position);
+  return result.replace(/\n+$/, "");
+}
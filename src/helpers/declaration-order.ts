@@ -0,0 +1,124 @@
+import * as ts from "typescript";
+import type { DeclarationOrder, TypeDeclaration } from "../types";
+
+/**
+ * Values of the `order` option.
+ */
+export const DECLARATION_ORDERS: DeclarationOrder[] = [
+  "source",
+  "entry-exports",
+  "alphabetical",
+  "kind-then-alphabetical",
+  "dependency",
+];
+
+/**
+ * What the strategies order declarations by, besides the declarations.
+ * - `fileOrder`: files of the declarations, in the order of the program.
+ * - `entryExports`: declarations exported by the entry, in the order of its
+ *   exports; only read by `entry-exports`.
+ */
+export interface DeclarationOrderContext {
+  fileOrder: string[];
+  entryExports: TypeDeclaration[];
+}
+
+/**
+ * Rank of the kind of a declaration: interfaces, type aliases, classes,
+ * enums, namespaces, then the rest.
+ */
+function getKindRank(declaration: TypeDeclaration): number {
+  const node = declaration.node;
+  if (ts.isInterfaceDeclaration(node)) return 1;
+  if (ts.isTypeAliasDeclaration(node)) return 2;
+  if (ts.isClassDeclaration(node)) return 3;
+  if (ts.isEnumDeclaration(node)) return 4;
+  if (ts.isModuleDeclaration(node)) return 5;
+  return 10;
+}
+
+/**
+ * Compare names by code point, so that the order does not depend on the locale.
+ */
+function compareNames(a: TypeDeclaration, b: TypeDeclaration): number {
+  if (a.normalizedName === b.normalizedName) return 0;
+  return a.normalizedName < b.normalizedName ? -1 : 1;
+}
+
+/**
+ * Order declarations with a strategy of the `order` option. Every strategy
+ * falls back to the source order, so the result only depends on the sources.
+ * @param declarations - Declarations of the bundle
+ * @param order - Strategy
+ * @param context - File order and entry exports
+ * @returns The declarations in order
+ */
+export function orderDeclarations(
+  declarations: TypeDeclaration[],
+  order: DeclarationOrder,
+  context: DeclarationOrderContext,
+): TypeDeclaration[] {
+  const fileIndex = new Map(context.fileOrder.map((file, index) => [file, index]));
+  const compareSource = (a: TypeDeclaration, b: TypeDeclaration): number =>
+    (fileIndex.get(a.sourceFile) ?? fileIndex.size) - (fileIndex.get(b.sourceFile) ?? fileIndex.size) ||
+    a.node.pos - b.node.pos ||
+    (a.variableDeclaration?.pos ?? 0) - (b.variableDeclaration?.pos ?? 0);
+  const bySource = [...declarations].sort(compareSource);
+
+  switch (order) {
+    case "source":
+      return bySource;
+    case "alphabetical":
+      return bySource.sort(compareNames);
+    case "kind-then-alphabetical":
+      return bySource.sort((a, b) => getKindRank(a) - getKindRank(b) || compareNames(a, b));
+    case "dependency":
+      return placeDependenciesFirst(bySource, bySource, new Set());
+    case "entry-exports": {
+      const included = new Set(declarations);
+      const entryExports = context.entryExports.filter((declaration) => included.has(declaration));
+      // Exports are placed in their own turn, not before the exports using them
+      return placeDependenciesFirst([...new Set([...entryExports, ...bySource])], bySource, new Set(entryExports));
+    }
+  }
+}
+
+/**
+ * Place declarations in order, each after the dependencies it has among
+ * `declarations`, except the dependencies in `deferred` that are not placed
+ * yet. Dependency cycles are broken where they are found.
+ * @param roots - Declarations in the order they are placed
+ * @param declarations - Declarations of the bundle, in source order
+ * @param deferred - Declarations only placed as roots
+ */
+function placeDependenciesFirst(
+  roots: TypeDeclaration[],
+  declarations: TypeDeclaration[],
+  deferred: Set<TypeDeclaration>,
+): TypeDeclaration[] {
+  const byId = new Map(declarations.map((declaration) => [declaration.id, declaration]));
+  const sourceIndex = new Map(declarations.map((declaration, index) => [declaration, index]));
+  const placed = new Set<TypeDeclaration>();
+  const visiting = new Set<TypeDeclaration>();
+  const result: TypeDeclaration[] = [];
+
+  const place = (declaration: TypeDeclaration): void => {
+    if (placed.has(declaration) || visiting.has(declaration)) return;
+    visiting.add(declaration);
+    const dependencies = [...declaration.dependencies]
+      .flatMap((id) => byId.get(id) ?? [])
+      .filter((dependency) => !deferred.has(dependency))
+      .sort((a, b) => (sourceIndex.get(a) ?? 0) - (sourceIndex.get(b) ?? 0));
+    for (const dependency of dependencies) {
+      place(dependency);
+    }
+    visiting.delete(declaration);
+    placed.add(declaration);
+    result.push(declaration);
+  };
+
+  for (const root of roots) {
+    place(root);
+  }
+  return result;
+}
@@ -1,4 +1,3 @@
-import fs from "node:fs";
 import path from "node:path";
 import * as ts from "typescript";
 import type { TypeRegistry } from "../registry";
@@ -62,21 +61,33 @@ const resolveEntryExportOriginalName = (
   return { sourceFile, originalName };
 };
 
+// Try every spelling the file of a declaration may be keyed by in the name map
+export const lookupNormalizedName = (
+  nameMap: Map<string, string> | undefined,
+  sourceFile: string,
+  originalName: string,
+  system: ts.System,
+): string | undefined => {
+  const realpath = system.realpath ?? ((fileName: string) => fileName);
+  return (
+    nameMap?.get(`${sourceFile}:${originalName}`) ??
+    nameMap?.get(`${sourceFile.replace(/\\/g, "/")}:${originalName}`) ??
+    nameMap?.get(`${path.resolve(sourceFile)}:${originalName}`) ??
+    nameMap?.get(`${path.resolve(sourceFile).replace(/\\/g, "/")}:${originalName}`) ??
+    (system.fileExists(sourceFile) ? nameMap?.get(`${realpath(sourceFile)}:${originalName}`) : undefined)
+  );
+};
+
 const shouldSkipEntryExport = (
   registry: TypeRegistry,
   entryFile: string,
   exported: { name: string; originalName?: string; sourceFile?: string },
+  system: ts.System,
   aliasMap?: Map<string, { sourceFile: string; originalName: string }>,
   nameMap?: Map<string, string>,
 ): boolean => {
   const { sourceFile, originalName } = resolveEntryExportOriginalName(registry, entryFile, exported, aliasMap);
-  const normalizedOriginal =
-    nameMap?.get(`${sourceFile}:${originalName}`) ??
-    nameMap?.get(`${sourceFile.replace(/\\/g, "/")}:${originalName}`) ??
-    nameMap?.get(`${path.resolve(sourceFile)}:${originalName}`) ??
-    nameMap?.get(`${path.resolve(sourceFile).replace(/\\/g, "/")}:${originalName}`) ??
-    (fs.existsSync(sourceFile) ? nameMap?.get(`${fs.realpathSync(sourceFile)}:${originalName}`) : undefined) ??
-    originalName;
+  const normalizedOriginal = lookupNormalizedName(nameMap, sourceFile, originalName, system) ?? originalName;
 
   if (normalizedOriginal !== exported.name) {
     return false;
@@ -116,6 +127,7 @@ export const buildEntryExportData = (params: {
   usedDeclarations: Set<symbol>;
   entryFile?: string;
   nameMap: Map<string, string>;
+  system: ts.System;
   getNormalizedExternalImportName: (moduleName: string, importName: string) => string;
   extractImportName: (importStr: string) => string;
   entryAliasMap?: Map<string, { sourceFile: string; originalName: string }>;
@@ -231,16 +243,14 @@ export const buildEntryExportData = (params: {
     const decl = decls[0] ?? null;
     const normalizedOriginal =
       decl?.normalizedName ??
-      params.nameMap.get(`${sourceFile}:${originalName}`) ??
-      params.nameMap.get(`${sourceFile.replace(/\\/g, "/")}:${originalName}`) ??
-      params.nameMap.get(`${path.resolve(sourceFile)}:${originalName}`) ??
-      params.nameMap.get(`${path.resolve(sourceFile).replace(/\\/g, "/")}:${originalName}`) ??
-      (fs.existsSync(sourceFile) ? params.nameMap.get(`${fs.realpathSync(sourceFile)}:${originalName}`) : undefined) ??
+      lookupNormalizedName(params.nameMap, sourceFile, originalName, params.system) ??
       originalName;
     const exportItem =
       normalizedOriginal === exported.name ? normalizedOriginal : `${normalizedOriginal} as ${exported.name}`;
 
-    if (shouldSkipEntryExport(params.registry, entryFile, exported, params.entryAliasMap, params.nameMap)) {
+    if (
+      shouldSkipEntryExport(params.registry, entryFile, exported, params.system, params.entryAliasMap, params.nameMap)
+    ) {
       continue;
     }
 
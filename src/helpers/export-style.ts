@@ -0,0 +1,177 @@
+import * as ts from "typescript";
+import type { ExportStyle } from "../types";
+import { collectBindingIdentifiersFromName } from "./binding-identifiers";
+
+/**
+ * Values of the `exportStyle` option.
+ */
+export const EXPORT_STYLES: ExportStyle[] = ["inline", "list"];
+
+/**
+ * Items of an `export { ... }` list, e.g. `A` or `A as B`, and the items
+ * only exporting types.
+ */
+export interface ExportList {
+  items: string[];
+  typeOnlyItems: Set<string>;
+}
+
+/**
+ * Top-level statement of a chunk of output.
+ * - `names`: names the statement declares.
+ * - `exportModifier`: its `export` modifier, unless it is a default export.
+ * - `isDeclared`: whether it has a `declare` modifier.
+ * - `isTypeOnly`: whether it only declares a type.
+ */
+interface ChunkStatement {
+  sourceFile: ts.SourceFile;
+  statement: ts.Statement;
+  names: string[];
+  exportModifier?: ts.Modifier;
+  isDeclared: boolean;
+  isTypeOnly: boolean;
+}
+
+/**
+ * Parse the statement of a declaration chunk.
+ * @returns The statement, or undefined when it declares no exportable name,
+ * e.g. a `declare global` block or a default export
+ */
+function parseChunkStatement(chunk: string): ChunkStatement | undefined {
+  const sourceFile = ts.createSourceFile("chunk.d.ts", chunk, ts.ScriptTarget.Latest, true);
+  const statement = sourceFile.statements[0];
+  if (!statement || !ts.canHaveModifiers(statement)) {
+    return undefined;
+  }
+  const modifiers = ts.getModifiers(statement) ?? [];
+  if (modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+    return undefined;
+  }
+
+  let names: string[] = [];
+  if (ts.isVariableStatement(statement)) {
+    names = statement.declarationList.declarations.flatMap((declaration) =>
+      collectBindingIdentifiersFromName(declaration.name).map((identifier) => identifier.text),
+    );
+  } else if (ts.isModuleDeclaration(statement)) {
+    names = ts.isIdentifier(statement.name) && statement.name.text !== "global" ? [statement.name.text] : [];
+  } else if (
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isFunctionDeclaration(statement) ||
+    ts.isImportEqualsDeclaration(statement)
+  ) {
+    names = statement.name ? [statement.name.text] : [];
+  }
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  return {
+    sourceFile,
+    statement,
+    names,
+    exportModifier: modifiers.find((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword),
+    isDeclared: modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.DeclareKeyword),
+    isTypeOnly: ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement),
+  };
+}
+
+/**
+ * Get the name an export list item exports.
+ */
+function getExportedName(item: string): string {
+  return item.split(/\s+as\s+/).pop() ?? item;
+}
+
+/**
+ * Remove the `export` modifiers of declaration chunks and add their names to
+ * an export list, sorted by exported name.
+ * @param chunks - Top-level declaration chunks
+ * @param list - Export list of the other exports
+ * @returns The chunks without `export` modifiers and the merged list
+ */
+export function moveExportsToList(chunks: string[], list: ExportList): { chunks: string[]; list: ExportList } {
+  const items = new Set(list.items);
+  const typeOnlyItems = new Set(list.typeOnlyItems);
+  // A name is only exported as a type when every declaration of it is a type
+  const valueNames = new Set<string>();
+  const unexported = chunks.map((chunk) => {
+    const parsed = parseChunkStatement(chunk);
+    if (!parsed?.exportModifier) {
+      return chunk;
+    }
+    for (const name of parsed.names) {
+      items.add(name);
+      if (parsed.isTypeOnly && !valueNames.has(name)) {
+        typeOnlyItems.add(name);
+      } else {
+        valueNames.add(name);
+        typeOnlyItems.delete(name);
+      }
+    }
+    // Values declared without `declare` need it once they are not exported
+    const needsDeclare = !parsed.isDeclared && !parsed.isTypeOnly && !ts.isImportEqualsDeclaration(parsed.statement);
+    const start = parsed.exportModifier.getStart(parsed.sourceFile);
+    return chunk.slice(0, start) + chunk.slice(start).replace(/^export\s+/, needsDeclare ? "declare " : "");
+  });
+
+  const sorted = [...items].sort((a, b) => {
+    const nameA = getExportedName(a);
+    const nameB = getExportedName(b);
+    if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  });
+  return { chunks: unexported, list: { items: sorted, typeOnlyItems } };
+}
+
+/**
+ * Add an `export` modifier to the declaration chunks of the items of an
+ * export list and remove the items. Items stay in the list when they rename
+ * a declaration, have no declaration chunk (external imports), only export
+ * the type of a value, or share a variable statement with names that are not
+ * exported.
+ * @param chunks - Top-level declaration chunks
+ * @param list - Export list
+ * @returns The chunks with `export` modifiers and the remaining list
+ */
+export function moveExportsInline(chunks: string[], list: ExportList): { chunks: string[]; list: ExportList } {
+  const parsedChunks = chunks.map(parseChunkStatement);
+  const chunksByName = new Map<string, number[]>();
+  parsedChunks.forEach((parsed, index) => {
+    for (const name of parsed?.names ?? []) {
+      chunksByName.set(name, [...(chunksByName.get(name) ?? []), index]);
+    }
+  });
+
+  const listedNames = new Set(list.items.filter((item) => /^[\w$]+$/.test(item)));
+  const exportedChunks = new Set<number>();
+  const items = list.items.filter((item) => {
+    const indexes = listedNames.has(item) ? (chunksByName.get(item) ?? []) : [];
+    const canInline =
+      indexes.length > 0 &&
+      indexes.every((index) => {
+        const parsed = parsedChunks[index] as ChunkStatement;
+        return (
+          parsed.exportModifier !== undefined ||
+          parsed.names.every((name) => listedNames.has(name) && (parsed.isTypeOnly || !list.typeOnlyItems.has(name)))
+        );
+      });
+    if (canInline) {
+      indexes.forEach((index) => exportedChunks.add(index));
+    }
+    return !canInline;
+  });
+
+  const exported = chunks.map((chunk, index) => {
+    const parsed = parsedChunks[index];
+    if (!parsed || parsed.exportModifier || !exportedChunks.has(index)) {
+      return chunk;
+    }
+    const start = parsed.statement.getStart(parsed.sourceFile);
+    return `${chunk.slice(0, start)}export ${chunk.slice(start)}`;
+  });
+  return { chunks: exported, list: { items, typeOnlyItems: list.typeOnlyItems } };
+}
@@ -0,0 +1,58 @@
+import * as ts from "typescript";
+import type { LegalCommentsMode } from "../types";
+
+/**
+ * Values of the `legalComments` option.
+ */
+export const LEGAL_COMMENTS_MODES: LegalCommentsMode[] = ["none", "inline", "external"];
+
+/**
+ * Whether a comment is a legal comment: a `/*!` comment, or a comment with a
+ * `@license` or `@preserve` tag.
+ */
+function isLegalComment(comment: string): boolean {
+  return comment.startsWith("/*!") || /@(?:license|preserve)\b/.test(comment);
+}
+
+/**
+ * Collect the legal comments of files, in order. Comments found in several
+ * files are only collected once.
+ * @param sourceFiles - Files contributing declarations to a bundle
+ * @returns The text of each distinct legal comment, with `\n` line breaks
+ */
+export function collectLegalComments(sourceFiles: ts.SourceFile[]): string[] {
+  const comments = new Set<string>();
+  for (const sourceFile of sourceFiles) {
+    const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, sourceFile.languageVariant, sourceFile.text);
+    for (let token = scanner.scan(); token !== ts.SyntaxKind.EndOfFileToken; token = scanner.scan()) {
+      if (token !== ts.SyntaxKind.MultiLineCommentTrivia && token !== ts.SyntaxKind.SingleLineCommentTrivia) {
+        continue;
+      }
+      const comment = scanner.getTokenText().replace(/\r\n?/g, "\n");
+      if (isLegalComment(comment)) {
+        comments.add(comment);
+      }
+    }
+  }
+  return [...comments];
+}
+
+/**
+ * Remove the legal comments leading a chunk of output, which are emitted
+ * apart from the declarations they were attached to.
+ * @param chunk - Printed statement with its leading comments
+ * @returns The chunk without its leading legal comments
+ */
+export function stripLeadingLegalComments(chunk: string): string {
+  let result = "";
+  let position = 0;
+  for (const range of ts.getLeadingCommentRanges(chunk, 0) ?? []) {
+    if (isLegalComment(chunk.slice(range.pos, range.end))) {
+      result += chunk.slice(position, range.pos);
+      // The line break ending the comment goes with it
+      position = /^[ \t]*\n/.exec(chunk.slice(range.end))?.[0].length ?? 0;
+      position += range.end;
+    }
+  }
+  return result + chunk.slice(position);
+}
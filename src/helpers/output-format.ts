@@ -0,0 +1,211 @@
+import * as ts from "typescript";
+import type { OutputFormatOptions } from "../types";
+
+/**
+ * Format options with their defaults applied.
+ */
+export type ResolvedOutputFormat = Required<OutputFormatOptions>;
+
+/**
+ * Format of the output when the `format` option is not set, which is also
+ * the format the declarations are printed in before being reformatted.
+ */
+export const DEFAULT_OUTPUT_FORMAT: ResolvedOutputFormat = {
+  indentStyle: "space",
+  indentWidth: 2,
+  quoteStyle: "double",
+  semicolons: true,
+  trailingNewline: true,
+  endOfLine: "lf",
+};
+
+/**
+ * Check the `format` option and apply its defaults.
+ * @param format - Format options given by the user
+ * @returns The format of the output
+ * @throws {Error} When an option has an invalid value
+ */
+export function resolveOutputFormat(format: OutputFormatOptions | undefined): ResolvedOutputFormat {
+  const resolved = { ...DEFAULT_OUTPUT_FORMAT, ...format };
+  const expectOneOf = (name: keyof OutputFormatOptions, values: unknown[]): void => {
+    if (!values.includes(resolved[name])) {
+      throw new Error(
+        `The 'format.${name}' option must be ${values.map((value) => JSON.stringify(value)).join(" or ")}`,
+      );
+    }
+  };
+  expectOneOf("indentStyle", ["space", "tab"]);
+  expectOneOf("quoteStyle", ["double", "single"]);
+  expectOneOf("semicolons", [true, false]);
+  expectOneOf("trailingNewline", [true, false]);
+  expectOneOf("endOfLine", ["lf", "crlf"]);
+  if (!Number.isInteger(resolved.indentWidth) || resolved.indentWidth < 1) {
+    throw new Error("The 'format.indentWidth' option must be a positive integer");
+  }
+  return resolved;
+}
+
+/**
+ * Get the line break of a format.
+ */
+function getNewLine(format: ResolvedOutputFormat): string {
+  return format.endOfLine === "crlf" ? "\r\n" : "\n";
+}
+
+/**
+ * Join output lines into the text of a file: line breaks and the trailing
+ * line break follow the format.
+ * @param lines - Lines of the file, which may contain `\n` line breaks
+ * @param format - Format of the output
+ * @returns The text of the file
+ */
+export function joinOutputLines(lines: string[], format: ResolvedOutputFormat): string {
+  const newLine = getNewLine(format);
+  const text = lines.join("\n").replace(/\r?\n/g, newLine);
+  return format.trailingNewline ? `${text}${newLine}` : text;
+}
+
+/**
+ * Re-quote a string literal token with the quote of the format, unless the
+ * other quote needs fewer escapes.
+ */
+function requoteStringLiteral(token: string, quoteStyle: ResolvedOutputFormat["quoteStyle"]): string {
+  const preferred = quoteStyle === "single" ? "'" : '"';
+  const alternate = preferred === "'" ? '"' : "'";
+  const body = token.slice(1, -1);
+  const count = (quote: string): number => body.split(quote).length - 1;
+  const quote = count(preferred) > count(alternate) ? alternate : preferred;
+  if (token[0] === quote) {
+    return token;
+  }
+
+  const requoted = body.replace(/\\(.)|(["'])/gs, (match: string, escaped: string | undefined, bare?: string) => {
+    if (escaped !== undefined) {
+      // An escaped quote of the other kind no longer needs its escape
+      return escaped === token[0] && escaped !== quote ? escaped : match;
+    }
+    return bare === quote ? `\\${bare}` : match;
+  });
+  return `${quote}${requoted}${quote}`;
+}
+
+/**
+ * Call `visit` with every token of a chunk of output, trivia included. The
+ * parts of template literals are scanned as such, so that their text is not
+ * mistaken for code.
+ * @param chunk - Lines of output
+ * @param visit - Called with the kind, start and end of each token
+ */
+export function forEachOutputToken(
+  chunk: string,
+  visit: (token: ts.SyntaxKind, start: number, end: number) => void,
+): void {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, chunk);
+  // Brace depths at which a template literal substitution is open
+  const templateDepths: number[] = [];
+  let braceDepth = 0;
+
+  for (let token = scanner.scan(); token !== ts.SyntaxKind.EndOfFileToken; token = scanner.scan()) {
+    if (token === ts.SyntaxKind.CloseBraceToken && templateDepths[templateDepths.length - 1] === braceDepth) {
+      token = scanner.reScanTemplateToken(false);
+      if (token === ts.SyntaxKind.TemplateTail) {
+        templateDepths.pop();
+      }
+    }
+    if (token === ts.SyntaxKind.OpenBraceToken) {
+      braceDepth++;
+    } else if (token === ts.SyntaxKind.CloseBraceToken) {
+      braceDepth--;
+    } else if (token === ts.SyntaxKind.TemplateHead) {
+      templateDepths.push(braceDepth);
+    }
+    visit(token, scanner.getTokenStart(), scanner.getTokenEnd());
+  }
+}
+
+/**
+ * Reformat a chunk of output printed in the default format: indentation,
+ * quotes of string literals, including the ones copied from the sources, and
+ * statement semicolons follow `format`. Comments and the content of template
+ * literals are left untouched.
+ * @param chunk - Lines of output with `\n` line breaks and two-space indentation
+ * @param format - Format of the output
+ * @returns The reformatted chunk, still with `\n` line breaks
+ */
+export function formatOutputChunk(chunk: string, format: ResolvedOutputFormat): string {
+  const reindent = format.indentStyle !== "space" || format.indentWidth !== 2;
+  const edits: { start: number; end: number; text: string }[] = [];
+  // Ranges of template literal text, whose lines must not be reindented
+  const templateRanges: { start: number; end: number }[] = [];
+  let semicolonStart = -1;
+
+  forEachOutputToken(chunk, (token, start, end) => {
+    if (semicolonStart >= 0 && token !== ts.SyntaxKind.WhitespaceTrivia) {
+      // Only semicolons ending a line are removed
+      if (token === ts.SyntaxKind.NewLineTrivia || token === ts.SyntaxKind.SingleLineCommentTrivia) {
+        edits.push({ start: semicolonStart, end: semicolonStart + 1, text: "" });
+      }
+      semicolonStart = -1;
+    }
+
+    switch (token) {
+      case ts.SyntaxKind.TemplateHead:
+      case ts.SyntaxKind.TemplateMiddle:
+      case ts.SyntaxKind.TemplateTail:
+      case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+        templateRanges.push({ start, end });
+        break;
+      case ts.SyntaxKind.StringLiteral: {
+        const text = chunk.slice(start, end);
+        const requoted = requoteStringLiteral(text, format.quoteStyle);
+        if (requoted !== text) {
+          edits.push({ start, end, text: requoted });
+        }
+        break;
+      }
+      case ts.SyntaxKind.SemicolonToken:
+        if (!format.semicolons) {
+          semicolonStart = start;
+        }
+        break;
+    }
+  });
+  if (semicolonStart >= 0) {
+    edits.push({ start: semicolonStart, end: semicolonStart + 1, text: "" });
+  }
+
+  let result = "";
+  let position = 0;
+  for (const edit of edits) {
+    result += chunk.slice(position, edit.start) + edit.text;
+    position = edit.end;
+  }
+  result += chunk.slice(position);
+  if (!reindent) {
+    return result;
+  }
+
+  // Edits never span lines, so the line starts of the template literals are
+  // found by their line number
+  const templateLines = new Set<number>();
+  for (const { start, end } of templateRanges) {
+    const firstLine = chunk.slice(0, start).split("\n").length;
+    const lastLine = firstLine + chunk.slice(start, end).split("\n").length - 1;
+    for (let line = firstLine; line < lastLine; line++) {
+      templateLines.add(line);
+    }
+  }
+
+  const indentUnit = format.indentStyle === "tab" ? "\t" : " ".repeat(format.indentWidth);
+  return result
+    .split("\n")
+    .map((line, index) => {
+      const indent = /^ */.exec(line)?.[0].length ?? 0;
+      if (indent === 0 || templateLines.has(index)) {
+        return line;
+      }
+      // An odd space is the alignment of a JSDoc line, kept as is
+      return `${indentUnit.repeat(Math.floor(indent / 2))}${" ".repeat(indent % 2)}${line.slice(indent)}`;
+    })
+    .join("\n");
+}
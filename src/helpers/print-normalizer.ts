@@ -2,6 +2,7 @@ import * as ts from "typescript";
 
 type NormalizeOptions = {
   preserveJsDoc?: boolean;
+  preserveComments?: boolean;
 };
 
 function normalizeIndentation(text: string): string {
@@ -83,6 +84,7 @@ export function normalizePrintedStatement(
   options: NormalizeOptions = {},
 ): string {
   const preserveJsDoc = options.preserveJsDoc ?? true;
+  const preserveComments = options.preserveComments ?? false;
   let result = text.replace(/\t/g, "  ");
   result = normalizeIndentation(result);
   result = collapseGenericArguments(result);
@@ -99,7 +101,9 @@ export function normalizePrintedStatement(
   }
 
   if (ts.isVariableStatement(node)) {
-    result = preserveJsDoc ? stripLeadingNonJsDoc(result) : stripLeadingAllComments(result);
+    if (!preserveComments) {
+      result = preserveJsDoc ? stripLeadingNonJsDoc(result) : stripLeadingAllComments(result);
+    }
     result = result.replace(/:\s*([^;]+);/g, (match: string, typeText: string) => {
       const collapsed = typeText.replace(/\s*\n\s*/g, " ").trim();
       return `: ${collapsed};`;
@@ -112,7 +116,9 @@ export function normalizePrintedStatement(
   }
 
   if (ts.isModuleDeclaration(node)) {
-    result = preserveJsDoc ? stripLeadingNonJsDoc(result) : stripLeadingAllComments(result);
+    if (!preserveComments) {
+      result = preserveJsDoc ? stripLeadingNonJsDoc(result) : stripLeadingAllComments(result);
+    }
     if (originalText) {
       const header = originalText.split("{")[0] ?? originalText;
       const isDeclareModule = /\bdeclare\s+module\b/.test(header);
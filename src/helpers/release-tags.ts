@@ -0,0 +1,118 @@
+import * as ts from "typescript";
+import type { ReleaseLevel } from "../types";
+
+/**
+ * TSDoc release tag of a declaration or member. Untagged APIs are public.
+ */
+export type ReleaseTag = "internal" | "alpha" | "beta" | "public";
+
+/**
+ * Release tags from the least to the most public.
+ */
+const RELEASE_TAGS: ReleaseTag[] = ["internal", "alpha", "beta", "public"];
+
+/**
+ * Release levels of the rollups, from the least to the most trimmed.
+ */
+export const RELEASE_LEVELS: ReleaseLevel[] = ["alpha", "beta", "public"];
+
+/**
+ * Get the release tag of a declaration or member from its JSDoc. When a
+ * comment has several release tags, the least public one wins.
+ * @param node - Declaration or member, possibly transformed
+ * @returns The release tag, `public` when untagged
+ */
+export function getReleaseTag(node: ts.Node): ReleaseTag {
+  let tag: ReleaseTag = "public";
+  for (const jsDocTag of ts.getJSDocTags(ts.getOriginalNode(node))) {
+    const name = jsDocTag.tagName.text as ReleaseTag;
+    if (RELEASE_TAGS.includes(name) && RELEASE_TAGS.indexOf(name) < RELEASE_TAGS.indexOf(tag)) {
+      tag = name;
+    }
+  }
+  return tag;
+}
+
+/**
+ * Whether a bundle trimmed to `level` keeps APIs tagged with `tag`.
+ */
+export function isReleaseTagIncluded(tag: ReleaseTag, level: ReleaseLevel): boolean {
+  return RELEASE_TAGS.indexOf(tag) >= RELEASE_TAGS.indexOf(level);
+}
+
+/**
+ * Get the more public of two release tags.
+ */
+export function getMostPublicReleaseTag(a: ReleaseTag, b: ReleaseTag): ReleaseTag {
+  return RELEASE_TAGS.indexOf(a) >= RELEASE_TAGS.indexOf(b) ? a : b;
+}
+
+/**
+ * Whether a node is a member that release tags trim on its own: a member of
+ * an interface, class, enum or type literal, or a statement of a namespace.
+ */
+function isTrimmableMember(node: ts.Node): boolean {
+  return (
+    ts.isTypeElement(node) ||
+    ts.isClassElement(node) ||
+    ts.isEnumMember(node) ||
+    (ts.isStatement(node) && ts.isModuleBlock(node.parent))
+  );
+}
+
+/**
+ * Collect the members of a declaration that are not public. A member nested
+ * in a tagged member is at most as public as its parent.
+ * @param node - Declaration node
+ * @returns Map of member node to its effective release tag
+ */
+export function getReleaseTaggedMembers(node: ts.Node): Map<ts.Node, ReleaseTag> {
+  const members = new Map<ts.Node, ReleaseTag>();
+
+  const visit = (current: ts.Node, inheritedTag: ReleaseTag): void => {
+    current.forEachChild((child) => {
+      let tag = inheritedTag;
+      if (isTrimmableMember(child)) {
+        const ownTag = getReleaseTag(child);
+        tag = RELEASE_TAGS.indexOf(ownTag) < RELEASE_TAGS.indexOf(inheritedTag) ? ownTag : inheritedTag;
+        if (tag !== "public") {
+          members.set(child, tag);
+        }
+      }
+      visit(child, tag);
+    });
+  };
+  visit(node, "public");
+
+  return members;
+}
+
+/**
+ * Create a transformer removing the members whose release tag is trimmed
+ * at `level`.
+ * @param level - Release level of the bundle
+ * @returns The transformer
+ */
+export function createReleaseTrimTransformer(level: ReleaseLevel): ts.TransformerFactory<ts.Node> {
+  return (context) => {
+    const visit: ts.Visitor = (node) => {
+      if (isTrimmableMember(ts.getOriginalNode(node)) && !isReleaseTagIncluded(getReleaseTag(node), level)) {
+        return undefined;
+      }
+      return ts.visitEachChild(node, visit, context);
+    };
+    return (rootNode) => ts.visitEachChild(rootNode, visit, context);
+  };
+}
+
+/**
+ * Get the path a rollup of a bundle is written to: `index.d.ts` becomes
+ * `index.public.d.ts`.
+ * @param outFile - Path of the bundle
+ * @param level - Release level of the rollup
+ * @returns The path of the rollup
+ */
+export function getRollupFileName(outFile: string, level: ReleaseLevel): string {
+  const match = /(\.d)?\.[cm]?ts$/.exec(outFile);
+  return match ? `${outFile.slice(0, match.index)}.${level}${match[0]}` : `${outFile}.${level}`;
+}
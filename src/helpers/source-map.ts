@@ -0,0 +1,149 @@
+import path from "node:path";
+
+/**
+ * A single source map mapping. Lines and columns are 0-based.
+ */
+export interface SourceMapping {
+  generatedLine: number;
+  generatedColumn: number;
+  source: string;
+  originalLine: number;
+  originalColumn: number;
+  name?: string;
+}
+
+/**
+ * Source map in the v3 format.
+ */
+export interface RawSourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  names: string[];
+  mappings: string;
+}
+
+const base64Chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Encode a number as a base64 VLQ, as used by the `mappings` field.
+ * @param value - The number to encode
+ * @returns The encoded value
+ */
+export function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = "";
+  do {
+    let digit = vlq & 0b11111;
+    vlq >>>= 5;
+    if (vlq > 0) {
+      digit |= 0b100000;
+    }
+    result += base64Chars[digit];
+  } while (vlq > 0);
+  return result;
+}
+
+/**
+ * Collect mappings and serialize them as a v3 source map.
+ */
+export class SourceMapBuilder {
+  /** Mappings added so far, in any order. */
+  private mappings: SourceMapping[];
+
+  constructor() {
+    this.mappings = [];
+  }
+
+  addMapping(mapping: SourceMapping): void {
+    this.mappings.push(mapping);
+  }
+
+  /**
+   * Serialize the collected mappings.
+   * @param file - Name of the generated file the map belongs to
+   * @returns The source map
+   */
+  toSourceMap(file: string): RawSourceMap {
+    const sources: string[] = [];
+    const names: string[] = [];
+    const sourceIndexes = new Map<string, number>();
+    const nameIndexes = new Map<string, number>();
+
+    const sorted = [...this.mappings].sort(
+      (a, b) => a.generatedLine - b.generatedLine || a.generatedColumn - b.generatedColumn,
+    );
+
+    const lines: string[] = [];
+    let previousSource = 0;
+    let previousOriginalLine = 0;
+    let previousOriginalColumn = 0;
+    let previousName = 0;
+    let currentLine = -1;
+    let previousGeneratedColumn = 0;
+    let segments: string[] = [];
+
+    for (const mapping of sorted) {
+      while (currentLine < mapping.generatedLine) {
+        if (currentLine >= 0) {
+          lines.push(segments.join(","));
+        }
+        segments = [];
+        previousGeneratedColumn = 0;
+        currentLine++;
+      }
+
+      let sourceIndex = sourceIndexes.get(mapping.source);
+      if (sourceIndex === undefined) {
+        sourceIndex = sources.length;
+        sources.push(mapping.source);
+        sourceIndexes.set(mapping.source, sourceIndex);
+      }
+
+      let segment =
+        encodeVlq(mapping.generatedColumn - previousGeneratedColumn) +
+        encodeVlq(sourceIndex - previousSource) +
+        encodeVlq(mapping.originalLine - previousOriginalLine) +
+        encodeVlq(mapping.originalColumn - previousOriginalColumn);
+
+      if (mapping.name !== undefined) {
+        let nameIndex = nameIndexes.get(mapping.name);
+        if (nameIndex === undefined) {
+          nameIndex = names.length;
+          names.push(mapping.name);
+          nameIndexes.set(mapping.name, nameIndex);
+        }
+        segment += encodeVlq(nameIndex - previousName);
+        previousName = nameIndex;
+      }
+
+      segments.push(segment);
+      previousGeneratedColumn = mapping.generatedColumn;
+      previousSource = sourceIndex;
+      previousOriginalLine = mapping.originalLine;
+      previousOriginalColumn = mapping.originalColumn;
+    }
+
+    if (currentLine >= 0) {
+      lines.push(segments.join(","));
+    }
+
+    return { version: 3, file, sources, names, mappings: lines.join(";") };
+  }
+}
+
+/**
+ * Rewrite a source map with absolute `sources` for a generated file written
+ * to `outFile`: sources become relative to the directory of `outFile`.
+ * @param map - Source map with absolute source paths
+ * @param outFile - Path the generated file is written to
+ * @returns The relocated source map
+ */
+export function relocateSourceMap(map: RawSourceMap, outFile: string): RawSourceMap {
+  const outDir = path.dirname(path.resolve(outFile));
+  return {
+    ...map,
+    file: path.basename(outFile),
+    sources: map.sources.map((source) => path.relative(outDir, source).split(path.sep).join("/")),
+  };
+}
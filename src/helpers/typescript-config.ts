@@ -1,35 +1,57 @@
-import fs from "node:fs";
 import path from "node:path";
 import * as ts from "typescript";
 
-const parseConfigHost: ts.ParseConfigHost = {
-  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
-  readDirectory: (...args: Parameters<typeof ts.sys.readDirectory>) => ts.sys.readDirectory(...args),
-  fileExists: (fileName: string) => ts.sys.fileExists(fileName),
-  readFile: (fileName: string) => ts.sys.readFile(fileName),
+/**
+ * Where the compiler options of a program come from: an explicit tsconfig
+ * path (otherwise discovered from the entry) and overrides in tsconfig.json
+ * `compilerOptions` format.
+ */
+export interface ProgramConfig {
+  tsconfig?: string;
+  compilerOptions?: Record<string, unknown>;
+}
+
+/**
+ * Compiler options (in tsconfig.json format) used when no tsconfig.json is found.
+ */
+const defaultCompilerOptions: Record<string, unknown> = {
+  target: "esnext",
+  module: "esnext",
+  moduleResolution: "bundler",
+  strict: true,
 };
 
+function createParseConfigHost(system: ts.System): ts.ParseConfigHost {
+  return {
+    useCaseSensitiveFileNames: system.useCaseSensitiveFileNames,
+    readDirectory: (...args: Parameters<typeof system.readDirectory>) => system.readDirectory(...args),
+    fileExists: (fileName: string) => system.fileExists(fileName),
+    readFile: (fileName: string) => system.readFile(fileName),
+  };
+}
+
 /**
  * Find tsconfig.json for a given input file by walking up the directory tree
  * @param inputFile - The input TypeScript file
- * @returns Path to the tsconfig.json file
+ * @param system - File system to search
+ * @returns Path to the tsconfig.json file, or null when there is none
  */
-export function findTsConfig(inputFile: string): string {
-  const absolutePath = path.resolve(inputFile);
+export function findTsConfig(inputFile: string, system: ts.System = ts.sys): string | null {
+  const absolutePath = path.resolve(system.getCurrentDirectory(), inputFile);
   let currentDir = path.dirname(absolutePath);
 
   // Walk up the directory tree looking for tsconfig.json
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
   while (true) {
     const configPath = path.join(currentDir, "tsconfig.json");
-    if (fs.existsSync(configPath)) {
+    if (system.fileExists(configPath)) {
       return configPath;
     }
 
     const parentDir = path.dirname(currentDir);
     if (parentDir === currentDir) {
       // Reached root, no tsconfig found
-      throw new Error(`Cannot find tsconfig.json for file: ${inputFile}`);
+      return null;
     }
     currentDir = parentDir;
   }
@@ -38,19 +60,26 @@ export function findTsConfig(inputFile: string): string {
 /**
  * Get TypeScript compiler options from a tsconfig file
  * @param configPath - Path to tsconfig.json
+ * @param system - File system to read the tsconfig (and its `extends` chain) from
+ * @param overrides - Compiler options (tsconfig.json format) taking precedence over the file
  * @returns Parsed compiler options
  */
-export function getCompilerOptions(configPath: string): ts.CompilerOptions {
-  const configFile = ts.readConfigFile(configPath, (fileName: string) => ts.sys.readFile(fileName));
+export function getCompilerOptions(
+  configPath: string,
+  system: ts.System = ts.sys,
+  overrides: Record<string, unknown> = {},
+): ts.CompilerOptions {
+  const configFile = ts.readConfigFile(configPath, (fileName: string) => system.readFile(fileName));
 
   if (configFile.error) {
     const message = ts.flattenDiagnosticMessageText(configFile.error.messageText, "\n");
     throw new Error(`Error reading tsconfig.json: ${message}`);
   }
 
+  const config = configFile.config as { compilerOptions?: Record<string, unknown> };
   const parsedConfig = ts.parseJsonConfigFileContent(
-    configFile.config,
-    parseConfigHost,
+    { ...config, compilerOptions: { ...config.compilerOptions, ...overrides } },
+    createParseConfigHost(system),
     path.dirname(configPath),
     undefined,
     configPath,
@@ -69,3 +98,90 @@ export function getCompilerOptions(configPath: string): ts.CompilerOptions {
 
   return parsedConfig.options;
 }
+
+/**
+ * Locate the tsconfig of a program: the one given in `config`, or the
+ * `tsconfig.json` found from `searchFrom`.
+ * @param searchFrom - File the tsconfig.json lookup starts from (e.g. the entry)
+ * @param config - Explicit tsconfig path
+ * @param system - File system to search
+ * @returns Path to the tsconfig file, or null when there is none
+ * @throws When the explicit tsconfig does not exist
+ */
+export function resolveTsConfigPath(
+  searchFrom: string,
+  config: ProgramConfig = {},
+  system: ts.System = ts.sys,
+): string | null {
+  if (!config.tsconfig) {
+    return findTsConfig(searchFrom, system);
+  }
+
+  const configPath = path.resolve(system.getCurrentDirectory(), config.tsconfig);
+  if (!system.fileExists(configPath)) {
+    throw new Error(`Cannot find tsconfig file: ${configPath}`);
+  }
+  return configPath;
+}
+
+/**
+ * Resolve the compiler options for a program: read the tsconfig given in
+ * `config` (or the one found from `searchFrom`), falling back to default
+ * options when there is none, and apply the `compilerOptions` overrides.
+ * @param searchFrom - File the tsconfig.json lookup starts from (e.g. the entry)
+ * @param config - Explicit tsconfig path and compiler option overrides
+ * @param system - File system to read from
+ * @returns Parsed compiler options
+ * @throws When the explicit tsconfig does not exist or the options are invalid
+ */
+export function resolveCompilerOptions(
+  searchFrom: string,
+  config: ProgramConfig = {},
+  system: ts.System = ts.sys,
+): ts.CompilerOptions {
+  const configPath = resolveTsConfigPath(searchFrom, config, system);
+  if (configPath) {
+    return getCompilerOptions(configPath, system, config.compilerOptions);
+  }
+
+  const converted = ts.convertCompilerOptionsFromJson(
+    { ...defaultCompilerOptions, ...config.compilerOptions },
+    system.getCurrentDirectory(),
+  );
+  if (converted.errors.length > 0) {
+    const errors = converted.errors.map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n")).join("\n");
+    throw new Error(`Error parsing compilerOptions: ${errors}`);
+  }
+
+  return converted.options;
+}
+
+/**
+ * Create a compiler host that reads every file through `system` instead of
+ * the disk, so programs can be built from in-memory files.
+ * @param compilerOptions - Compiler options of the program
+ * @param system - File system to read source files from
+ * @returns The compiler host
+ */
+export function createCompilerHost(compilerOptions: ts.CompilerOptions, system: ts.System = ts.sys): ts.CompilerHost {
+  const host = ts.createCompilerHost(compilerOptions);
+  if (system === ts.sys) {
+    return host;
+  }
+
+  return {
+    ...host,
+    getSourceFile: (fileName, languageVersionOrOptions) => {
+      const text = system.readFile(fileName);
+      return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersionOrOptions);
+    },
+    fileExists: (fileName) => system.fileExists(fileName),
+    readFile: (fileName) => system.readFile(fileName),
+    directoryExists: (directoryName) => system.directoryExists(directoryName),
+    getDirectories: (directoryName) => system.getDirectories(directoryName),
+    realpath: system.realpath ? (fileName) => system.realpath?.(fileName) ?? fileName : undefined,
+    getCurrentDirectory: () => system.getCurrentDirectory(),
+    useCaseSensitiveFileNames: () => system.useCaseSensitiveFileNames,
+    getNewLine: () => system.newLine,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * A line of a line diff: kept (` `), removed (`-`) or added (`+`).
+ */
+interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * Marks the last line of a text that does not end with a line break, so
+ * that it differs from the same line followed by one.
+ */
+const NO_NEWLINE = "\0";
+
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
+
+/**
+ * Snake of the middle of a shortest edit path: the diagonal run from
+ * (`x`, `y`) to (`u`, `v`) shared by the paths from both ends.
+ */
+interface MiddleSnake {
+  x: number;
+  y: number;
+  u: number;
+  v: number;
+}
+
+/**
+ * Find the middle snake of `a[aLow..aHigh)` and `b[bLow..bHigh)` by running
+ * the Myers algorithm from both ends until the paths meet, so only the
+ * furthest points of the current edit distance are kept.
+ * @returns The snake, in absolute line indexes
+ */
+function findMiddleSnake(
+  a: string[],
+  aLow: number,
+  aHigh: number,
+  b: string[],
+  bLow: number,
+  bHigh: number,
+): MiddleSnake {
+  const n = aHigh - aLow;
+  const m = bHigh - bLow;
+  const delta = n - m;
+  const odd = (delta & 1) === 1;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // `forward[k + offset]` is the furthest x on diagonal k = x - y from the
+  // start; `backward[k + offset]` the same from the end, in reversed sequences
+  const forward = new Int32Array(2 * offset + 1);
+  const backward = new Int32Array(2 * offset + 1);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[k - 1 + offset] < forward[k + 1 + offset])
+          ? forward[k + 1 + offset]
+          : forward[k - 1 + offset] + 1;
+      let y = x - k;
+      const snakeX = x;
+      const snakeY = y;
+      while (x < n && y < m && a[aLow + x] === b[bLow + y]) {
+        x++;
+        y++;
+      }
+      forward[k + offset] = x;
+      // With an odd delta the paths meet on a forward step
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[reverseK + offset] >= n) {
+        return { x: aLow + snakeX, y: bLow + snakeY, u: aLow + x, v: bLow + y };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[k - 1 + offset] < backward[k + 1 + offset])
+          ? backward[k + 1 + offset]
+          : backward[k - 1 + offset] + 1;
+      let y = x - k;
+      const snakeX = x;
+      const snakeY = y;
+      while (x < n && y < m && a[aHigh - 1 - x] === b[bHigh - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[k + offset] = x;
+      // With an even delta the paths meet on a backward step
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + forward[forwardK + offset] >= n) {
+        return { x: aHigh - x, y: bHigh - y, u: aHigh - snakeX, v: bHigh - snakeY };
+      }
+    }
+  }
+
+  // Unreachable: the paths meet within half of the edit distance
+  throw new Error("Cannot find the middle snake of the diff");
+}
+
+/**
+ * Diff `a[aLow..aHigh)` against `b[bLow..bHigh)`, splitting the problem at
+ * the middle snake so that memory stays linear in the number of lines.
+ * @param result - Receives the lines of both ranges in order
+ */
+function diffRange(
+  a: string[],
+  aLow: number,
+  aHigh: number,
+  b: string[],
+  bLow: number,
+  bHigh: number,
+  result: DiffLine[],
+): void {
+  while (aLow < aHigh && bLow < bHigh && a[aLow] === b[bLow]) {
+    result.push({ type: " ", text: a[aLow] });
+    aLow++;
+    bLow++;
+  }
+  let suffix = 0;
+  while (aLow < aHigh - suffix && bLow < bHigh - suffix && a[aHigh - 1 - suffix] === b[bHigh - 1 - suffix]) {
+    suffix++;
+  }
+  aHigh -= suffix;
+  bHigh -= suffix;
+
+  if (aLow === aHigh) {
+    for (let i = bLow; i < bHigh; i++) result.push({ type: "+", text: b[i] });
+  } else if (bLow === bHigh) {
+    for (let i = aLow; i < aHigh; i++) result.push({ type: "-", text: a[i] });
+  } else {
+    // Without a common prefix or suffix the edit distance is at least 2, so
+    // both halves are smaller problems
+    const snake = findMiddleSnake(a, aLow, aHigh, b, bLow, bHigh);
+    diffRange(a, aLow, snake.x, b, bLow, snake.y, result);
+    for (let i = snake.x; i < snake.u; i++) result.push({ type: " ", text: a[i] });
+    diffRange(a, snake.u, aHigh, b, snake.v, bHigh, result);
+  }
+
+  for (let i = aHigh; i < aHigh + suffix; i++) result.push({ type: " ", text: a[i] });
+}
+
+/**
+ * Diff two arrays of lines with the linear-space variant of the Myers
+ * algorithm, which finds a shortest edit script.
+ * @returns Every line of both arrays in order, marked as kept, removed or
+ * added; removed lines come before the added lines they are replaced with
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, lines);
+
+  // Splitting at middle snakes may interleave the lines of a replaced block
+  const result: DiffLine[] = [];
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].type === " ") {
+      result.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type !== " ") end++;
+    const changes = lines.slice(i, end);
+    result.push(...changes.filter(({ type }) => type === "-"), ...changes.filter(({ type }) => type === "+"));
+    i = end;
+  }
+  return result;
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range starts at the line before it
+  const line = count === 0 ? start : start + 1;
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
+
+/**
+ * Create a unified diff (as printed by `diff -u`) of two texts.
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @param oldLabel - Name of the original text in the `---` header
+ * @param newLabel - Name of the changed text in the `+++` header
+ * @param context - Unchanged lines shown around each change
+ * @returns The diff, or an empty string when the texts are equal
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3,
+): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  // Lines of the old and new text before `index`
+  let index = 0;
+  let oldLine = 0;
+  let newLine = 0;
+  while (index < lines.length) {
+    let firstChange = index;
+    while (firstChange < lines.length && lines[firstChange].type === " ") {
+      firstChange++;
+    }
+    if (firstChange === lines.length) {
+      break;
+    }
+
+    // Extend the hunk while changes are separated by at most twice the context
+    let end = firstChange;
+    for (let i = firstChange; i < lines.length && i - end <= 2 * context + 1; i++) {
+      if (lines[i].type !== " ") {
+        end = i;
+      }
+    }
+    const start = Math.max(index, firstChange - context);
+    const stop = Math.min(lines.length, end + context + 1);
+
+    // Every line between `index` and the first change is kept
+    const oldStart = oldLine + (start - index);
+    const newStart = newLine + (start - index);
+    const hunk = lines.slice(start, stop);
+    const oldCount = hunk.filter(({ type }) => type !== "+").length;
+    const newCount = hunk.filter(({ type }) => type !== "-").length;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const { type, text } of hunk) {
+      if (text.endsWith(NO_NEWLINE)) {
+        output.push(`${type}${text.slice(0, -NO_NEWLINE.length)}`, "\\ No newline at end of file");
+      } else {
+        output.push(`${type}${text}`);
+      }
+    }
+    index = stop;
+    oldLine = oldStart + oldCount;
+    newLine = newStart + newCount;
+  }
+
+  return `${output.join("\n")}\n`;
+}
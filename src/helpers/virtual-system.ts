@@ -0,0 +1,131 @@
+import path from "node:path";
+import * as ts from "typescript";
+
+/**
+ * Directories a `**` of an `include` pattern does not enter, as in tsconfig.
+ */
+const SKIPPED_DIRECTORIES = "(?:node_modules|bower_components|jspm_packages)";
+
+/**
+ * Convert a tsconfig `include` or `exclude` pattern to a regular expression
+ * matching absolute paths with `/` separators. As in tsconfig, `*` and `?`
+ * match within a path component, `**\/` matches any number of directories,
+ * and an include pattern whose last component has no wildcard names a
+ * directory (or file) whose files are all included. Wildcards of include
+ * patterns do not match names starting with a dot, nor does `**` enter
+ * `node_modules`.
+ * @param pattern - Absolute pattern with `/` separators
+ * @param usage - Whether the pattern includes or excludes files
+ * @param caseSensitive - Whether file names are case sensitive
+ */
+function getPatternRegExp(pattern: string, usage: "include" | "exclude", caseSensitive: boolean): RegExp {
+  const isInclude = usage === "include";
+  const components = pattern.replace(/\/+$/, "").split("/");
+  // A trailing `**` names the files below the directory, like a plain directory
+  if (components.length > 1 && components[components.length - 1] === "**") {
+    components.pop();
+  }
+  const lastComponent = components[components.length - 1];
+
+  let source = "";
+  components.forEach((component, index) => {
+    if (component === "**") {
+      const directory = isInclude ? `(?!${SKIPPED_DIRECTORIES}(?:/|$))[^./][^/]*` : "[^/]+";
+      source += `(?:${directory}/)*`;
+      return;
+    }
+    const escaped = component
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\?/g, "[^/]");
+    source += isInclude && /^[*?]/.test(component) ? `(?!\\.)${escaped}` : escaped;
+    if (index < components.length - 1) {
+      source += "/";
+    }
+  });
+
+  const suffix = isInclude && /[*?]/.test(lastComponent) ? "$" : "(?:/.*)?$";
+  return new RegExp(`^${source}${suffix}`, caseSensitive ? "" : "i");
+}
+
+/**
+ * Create a `ts.System` serving `files` from memory on top of `baseSystem`.
+ * In-memory files take precedence; every other path (e.g. the TypeScript
+ * default libraries or `node_modules`) is read from `baseSystem`. Directory
+ * listings, such as the `include` patterns of a tsconfig, see both.
+ * @param files - Map of file path to content; relative paths resolve against
+ * the current directory of `baseSystem`
+ * @param baseSystem - File system used for paths that are not in `files`
+ * @returns The overlaid file system
+ */
+export function createVirtualSystem(files: Record<string, string>, baseSystem: ts.System = ts.sys): ts.System {
+  const currentDirectory = baseSystem.getCurrentDirectory();
+  const resolve = (fileName: string): string => path.resolve(currentDirectory, fileName);
+
+  const virtualFiles = new Map<string, string>();
+  const virtualDirectories = new Map<string, Set<string>>();
+  for (const [fileName, content] of Object.entries(files)) {
+    const filePath = resolve(fileName);
+    virtualFiles.set(filePath, content);
+
+    // Register every ancestor directory together with its child directory
+    let child = filePath;
+    let directory = path.dirname(filePath);
+    while (directory !== child) {
+      const children = virtualDirectories.get(directory) ?? new Set<string>();
+      if (child !== filePath) {
+        children.add(path.basename(child));
+      }
+      virtualDirectories.set(directory, children);
+      child = directory;
+      directory = path.dirname(directory);
+    }
+  }
+
+  return {
+    ...baseSystem,
+    fileExists: (fileName) => virtualFiles.has(resolve(fileName)) || baseSystem.fileExists(fileName),
+    readFile: (fileName, encoding) => virtualFiles.get(resolve(fileName)) ?? baseSystem.readFile(fileName, encoding),
+    directoryExists: (directoryName) =>
+      virtualDirectories.has(resolve(directoryName)) || baseSystem.directoryExists(directoryName),
+    getDirectories: (directoryName) => {
+      const children = virtualDirectories.get(resolve(directoryName)) ?? new Set<string>();
+      return [...new Set([...baseSystem.getDirectories(directoryName), ...children])];
+    },
+    readDirectory: (directoryName, extensions, excludes, includes, depth) => {
+      const rootDir = resolve(directoryName);
+      const toPattern = (spec: string): string => path.resolve(rootDir, spec).split(path.sep).join("/");
+      const caseSensitive = baseSystem.useCaseSensitiveFileNames;
+      const includePatterns = (includes ?? ["**/*"]).map((spec) =>
+        getPatternRegExp(toPattern(spec), "include", caseSensitive),
+      );
+      const excludePatterns = (excludes ?? []).map((spec) =>
+        getPatternRegExp(toPattern(spec), "exclude", caseSensitive),
+      );
+
+      const matches = [...virtualFiles.keys()].filter((fileName) => {
+        const relativePath = path.relative(rootDir, fileName);
+        if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) return false;
+        if (depth !== undefined && relativePath.split(path.sep).length - 1 > depth) return false;
+        if (extensions && extensions.length > 0 && !extensions.some((extension) => fileName.endsWith(extension))) {
+          return false;
+        }
+        const slashedPath = fileName.split(path.sep).join("/");
+        return (
+          includePatterns.some((pattern) => pattern.test(slashedPath)) &&
+          !excludePatterns.some((pattern) => pattern.test(slashedPath))
+        );
+      });
+      return [
+        ...new Set([...baseSystem.readDirectory(directoryName, extensions, excludes, includes, depth), ...matches]),
+      ];
+    },
+    realpath: (fileName) => {
+      const filePath = resolve(fileName);
+      if (virtualFiles.has(filePath) || virtualDirectories.has(filePath)) {
+        return filePath;
+      }
+      return baseSystem.realpath?.(fileName) ?? fileName;
+    },
+  };
+}
@@ -4,40 +4,297 @@ import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import * as ts from "typescript";
+import { verifyApiSurface } from "./api-verifier";
+import { BuildCache } from "./build-cache";
+import { validateBundle } from "./bundle-validator";
+import { type CliOptions, formatCliHelp, parseCliArgs } from "./cli";
+import { type ResolvedBundleTarget, loadConfig, selectTargets } from "./config-file";
 import { DeclarationParser } from "./declaration-parser";
 import { DependencyAnalyzer } from "./dependency-analyzer";
-import { FileCollector } from "./file-collector";
+import { BundleDiagnosticError, DiagnosticReporter, formatDiagnostic, toBundleDiagnostic } from "./diagnostics";
+import { type CollectedFile, FileCollector } from "./file-collector";
+import {
+  checkBannerOption,
+  findPackageJson,
+  getBannerDate,
+  getBannerVariables,
+  renderBanner,
+  usesBannerVariable,
+} from "./helpers/banner";
+import { type CommentPolicy, resolveCommentPolicy } from "./helpers/comment-policy";
+import { DECLARATION_ORDERS } from "./helpers/declaration-order";
+import { EXPORT_STYLES } from "./helpers/export-style";
+import { LEGAL_COMMENTS_MODES, collectLegalComments } from "./helpers/legal-comments";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  type ResolvedOutputFormat,
+  joinOutputLines,
+  resolveOutputFormat,
+} from "./helpers/output-format";
+import { RELEASE_LEVELS, getReleaseTag, getRollupFileName } from "./helpers/release-tags";
+import { type RawSourceMap, relocateSourceMap } from "./helpers/source-map";
+import type { ProgramConfig } from "./helpers/typescript-config";
+import { createUnifiedDiff } from "./helpers/unified-diff";
+import { createVirtualSystem } from "./helpers/virtual-system";
 import { NameNormalizer } from "./name-normalizer";
-import { OutputGenerator } from "./output-generator";
+import { OutputGenerator, getVersion } from "./output-generator";
+import { resolvePackageTypesEntries } from "./package-exports";
+import { PluginHost, resolvePlugins } from "./plugin-host";
 import { TypeRegistry } from "./registry";
+import { type ReportedBundle, createBundleReport } from "./report";
 import { TreeShaker } from "./tree-shaker";
-import type { BundleTypesOptions } from "./types";
+import {
+  type AmbientModulesBundleTypesOptions,
+  type BannerOption,
+  type BundleDeclarationInfo,
+  type BundleDiagnostic,
+  type BundleExternalImport,
+  type BundlePhaseTimings,
+  type BundlePlugin,
+  type BundleResult,
+  type BundleRollup,
+  type BundleTypesOptions,
+  type DeclarationOrder,
+  DiagnosticCode,
+  type ExportStyle,
+  type ExternalImport,
+  type LegalCommentsMode,
+  type MultiEntryBundleTypesOptions,
+  type PackageBundleTypesOptions,
+  type PackageTypesBundle,
+  type ReleaseLevel,
+  type RenamedDeclarationInfo,
+  type WatchTypesOptions,
+} from "./types";
+import { TypesWatcher } from "./types-watcher";
 
-function bundle(
-  entry: string,
-  inlinedLibraries: string[] = [],
-  options: {
-    noBanner?: boolean;
-    sortNodes?: boolean;
-    umdModuleName?: string;
-    exportReferencedTypes?: boolean;
-    includeEmptyExport?: boolean;
-    allowedTypesLibraries?: string[];
-    importedLibraries?: string[];
-    referencedTypes?: Set<string>;
-    inlineDeclareGlobals?: boolean;
-    inlineDeclareExternals?: boolean;
-    respectPreserveConstEnum?: boolean;
-  } = {},
-): string {
-  const entryFile = path.resolve(entry);
-
-  if (!fs.existsSync(entryFile)) {
+export { defineConfig, loadConfig, selectTargets } from "./config-file";
+export type { LoadedConfig, ResolvedBundleTarget } from "./config-file";
+export { BundleDiagnosticError, formatDiagnostic } from "./diagnostics";
+export type { CollectedFile } from "./file-collector";
+export type { BundleReport, BundleReportEntry } from "./report";
+export { DiagnosticCode } from "./types";
+export type {
+  AmbientModulesBundleTypesOptions,
+  BannerOption,
+  BannerVariables,
+  BundleDeclarationInfo,
+  BundleDiagnostic,
+  BundleExternalImport,
+  BundlePhaseTimings,
+  BundlePlugin,
+  BundlePluginContext,
+  BundleResult,
+  BundleRollup,
+  BundleStats,
+  BundleTarget,
+  BundleTargetOptions,
+  BundleTypesOptions,
+  CommentsMode,
+  DeclarationOrder,
+  DtsBundlerConfig,
+  ExportStyle,
+  LegalCommentsMode,
+  MultiEntryBundleTypesOptions,
+  OutputFormatOptions,
+  PackageBundleTypesOptions,
+  PackageTypesBundle,
+  RebuildInfo,
+  ReleaseLevel,
+  RenamedDeclarationInfo,
+  TypeDeclaration,
+  WatchTypesOptions,
+} from "./types";
+export type { TypesWatcher } from "./types-watcher";
+
+type BundleOptions = {
+  noBanner?: boolean;
+  banner?: BannerOption;
+  footer?: BannerOption;
+  legalComments?: LegalCommentsMode;
+  commentPolicy?: CommentPolicy;
+  order?: DeclarationOrder;
+  exportStyle?: ExportStyle;
+  umdModuleName?: string;
+  ambientModule?: string;
+  globalScript?: boolean;
+  globalNamespace?: string;
+  format?: ResolvedOutputFormat;
+  exportReferencedTypes?: boolean;
+  includeEmptyExport?: boolean;
+  allowedTypesLibraries?: string[];
+  importedLibraries?: string[];
+  referencedTypes?: Set<string>;
+  inlineDeclareGlobals?: boolean;
+  inlineDeclareExternals?: boolean;
+  respectPreserveConstEnum?: boolean;
+  declarationMap?: boolean;
+  validate?: boolean;
+  verifyApi?: boolean;
+  stripInternal?: boolean;
+  rollups?: ReleaseLevel[];
+  plugins?: BundlePlugin[];
+};
+
+/**
+ * Resolve an entry path and make sure it exists.
+ * @param entry - Entry file path as given by the caller.
+ * @param system - File system the entry is looked up in.
+ * @returns The absolute entry file path.
+ */
+function resolveEntryFile(entry: string, system: ts.System): string {
+  const entryFile = path.resolve(system.getCurrentDirectory(), entry);
+
+  if (!system.fileExists(entryFile)) {
     throw new Error(`Entry file ${entryFile} does not exist`);
   }
 
-  const collector = new FileCollector(entryFile, { inlinedLibraries });
-  const files = collector.collectFiles();
+  return entryFile;
+}
+
+/**
+ * Pick the file system a bundle reads from: `system` (or `ts.sys`), with the
+ * in-memory `files` overlaid when given.
+ * @param options - Bundling options
+ * @returns The file system to read from
+ */
+function resolveSystem(options: Pick<BundleTypesOptions, "files" | "system">): ts.System {
+  const system = options.system ?? ts.sys;
+  return options.files ? createVirtualSystem(options.files, system) : system;
+}
+
+/**
+ * Pick the options of the bundling phases from the public options.
+ * @param options - Bundling options
+ * @returns The options passed to `bundle()`
+ * @throws {Error} When options conflict, a rollup level is unknown, a format
+ * option is invalid, a banner uses an unknown variable, the legal comments or
+ * comments mode is unknown, a stripped JSDoc tag is invalid, the order or
+ * export style is unknown or a plugin has no name
+ */
+function toBundleOptions(options: BundleTypesOptions | MultiEntryBundleTypesOptions): BundleOptions {
+  if (options.ambientModule !== undefined && options.umdModuleName !== undefined) {
+    throw new Error("The 'umdModuleName' option cannot be used with 'ambientModule'");
+  }
+  const globalScript = Boolean(options.globalScript) || options.globalNamespace !== undefined;
+  if (globalScript && (options.ambientModule !== undefined || options.umdModuleName !== undefined)) {
+    const conflict = options.ambientModule !== undefined ? "ambientModule" : "umdModuleName";
+    throw new Error(`The '${conflict}' option cannot be used with 'globalScript'`);
+  }
+  if (globalScript && options.exportStyle !== undefined) {
+    throw new Error("The 'exportStyle' option cannot be used with 'globalScript'");
+  }
+  if (options.exportStyle !== undefined && !EXPORT_STYLES.includes(options.exportStyle)) {
+    throw new Error(`The 'exportStyle' option must be "inline" or "list"`);
+  }
+  if (options.noBanner && options.banner !== undefined) {
+    throw new Error("The 'banner' option cannot be used with 'noBanner'");
+  }
+  if (options.legalComments !== undefined && !LEGAL_COMMENTS_MODES.includes(options.legalComments)) {
+    throw new Error(`The 'legalComments' option must be "none", "inline" or "external"`);
+  }
+  if (options.sortNodes && options.order !== undefined && options.order !== "kind-then-alphabetical") {
+    throw new Error("The 'sortNodes' option cannot be used with 'order'");
+  }
+  if (options.order !== undefined && !DECLARATION_ORDERS.includes(options.order)) {
+    throw new Error(
+      `The 'order' option must be "source", "entry-exports", "alphabetical", "kind-then-alphabetical" or "dependency"`,
+    );
+  }
+  return {
+    noBanner: options.noBanner,
+    banner: checkBannerOption("banner", options.banner),
+    footer: checkBannerOption("footer", options.footer),
+    legalComments: options.legalComments,
+    commentPolicy: resolveCommentPolicy(options.comments, options.stripJsDocTags),
+    order: options.order ?? (options.sortNodes ? "kind-then-alphabetical" : undefined),
+    exportStyle: options.exportStyle,
+    umdModuleName: options.umdModuleName,
+    ambientModule: options.ambientModule,
+    globalScript,
+    globalNamespace: options.globalNamespace,
+    format: options.format ? resolveOutputFormat(options.format) : undefined,
+    exportReferencedTypes: options.exportReferencedTypes,
+    allowedTypesLibraries: options.allowedTypesLibraries,
+    importedLibraries: options.importedLibraries,
+    inlineDeclareGlobals: options.inlineDeclareGlobals,
+    inlineDeclareExternals: options.inlineDeclareExternals,
+    respectPreserveConstEnum: options.respectPreserveConstEnum,
+    declarationMap: options.declarationMap,
+    validate: options.validate,
+    verifyApi: options.verifyApi,
+    stripInternal: options.stripInternal,
+    rollups: resolveRollups(options.rollups),
+    plugins: resolvePlugins(options.plugins),
+  };
+}
+
+/**
+ * Check the levels of the `rollups` option and order them from the least to
+ * the most trimmed.
+ * @param rollups - Release levels of the rollups
+ * @returns The distinct levels in trimming order
+ * @throws {Error} When a level is unknown
+ */
+function resolveRollups(rollups: ReleaseLevel[] | undefined): ReleaseLevel[] | undefined {
+  if (!rollups) {
+    return undefined;
+  }
+  const unknownLevels = rollups.filter((level) => !RELEASE_LEVELS.includes(level));
+  if (unknownLevels.length > 0) {
+    throw new Error(
+      `Unknown rollup release level ${unknownLevels.map((level) => `'${level}'`).join(", ")}; expected ${RELEASE_LEVELS.join(", ")}`,
+    );
+  }
+  return RELEASE_LEVELS.filter((level) => rollups.includes(level));
+}
+
+/**
+ * Run the bundling phases on the files collected for an entry.
+ * @param entryFile - Absolute path of the entry file
+ * @param files - Files collected for the entry
+ * @param collector - Collector the files were collected with
+ * @param diagnostics - Reporter of the diagnostics of the entry
+ * @param collectDuration - Milliseconds spent collecting `files`
+ * @param options - Bundling options
+ * @returns The bundle result
+ */
+function bundle(
+  entryFile: string,
+  files: Map<string, CollectedFile>,
+  collector: FileCollector,
+  diagnostics: DiagnosticReporter,
+  collectDuration: number,
+  options: BundleOptions = {},
+): BundleResult {
+  const timings: BundlePhaseTimings = {
+    collect: collectDuration,
+    parse: 0,
+    analyze: 0,
+    normalize: 0,
+    shake: 0,
+    generate: 0,
+  };
+  let phaseStart = performance.now();
+  const endPhase = (phase: keyof BundlePhaseTimings): void => {
+    const now = performance.now();
+    timings[phase] = now - phaseStart;
+    phaseStart = now;
+  };
+
+  const program = collector.getProgram();
+  const plugins = new PluginHost(options.plugins ?? [], {
+    entryFile,
+    program,
+    report: (diagnostic) => diagnostics.report(diagnostic),
+  });
+  plugins.afterCollect(files);
+
+  for (const { sourceFile } of files.values()) {
+    for (const diagnostic of program.getSyntacticDiagnostics(sourceFile)) {
+      diagnostics.report(toBundleDiagnostic(diagnostic));
+    }
+  }
   const includeEmptyExportFromSource = files.get(entryFile)?.hasEmptyExport ?? false;
 
   // Collect all referenced types from all files
@@ -54,15 +311,19 @@ function bundle(
     inlineDeclareExternals: options.inlineDeclareExternals ?? false,
   });
   parser.parseFiles(files);
+  plugins.afterParse(registry.declarations);
+  endPhase("parse");
 
   const analyzer = new DependencyAnalyzer(registry, parser.importMap, collector, entryFile);
   analyzer.analyze();
+  endPhase("analyze");
 
-  const normalizer = new NameNormalizer(registry, entryFile, collector.getTypeChecker());
+  const entrySourceFile = files.get(entryFile)?.sourceFile;
+  const normalizer = new NameNormalizer(registry, entryFile, collector.getTypeChecker(), entrySourceFile);
   normalizer.normalize();
+  endPhase("normalize");
 
   const entryImports = parser.importMap.get(entryFile);
-  const entrySourceFile = files.get(entryFile)?.sourceFile;
 
   const entryImportedFiles = new Set<string>();
   const entryReferencedFiles = new Set<string>();
@@ -114,129 +375,805 @@ function bundle(
     }
   }
 
-  const shaker = new TreeShaker(registry, {
-    entryFile,
-    entryImports: entryImports ?? undefined,
-    entrySourceFile: entrySourceFile ?? undefined,
-    entryImportedFiles: entryRootFiles,
-    entryReferencedFiles,
-  });
-  const {
-    declarations: usedDeclarations,
-    externalImports: usedExternals,
-    detectedTypesLibraries,
-    declarationOrder,
-  } = shaker.shake();
-
-  // Strip unnecessary $N suffixes when collisions were removed by tree-shaking.
-  NameNormalizer.stripUnnecessarySuffixes(registry, usedDeclarations, usedExternals);
-
-  const hasGlobalAugmentation = Array.from(usedDeclarations).some((id) => {
-    const declaration = registry.getDeclaration(id);
-    return Boolean(
-      declaration &&
-      ts.isModuleDeclaration(declaration.node) &&
-      declaration.node.flags & ts.NodeFlags.GlobalAugmentation,
+  const bannerVariables =
+    options.banner !== undefined || options.footer !== undefined
+      ? getBannerVariables(entryFile, collector.getSystem(), getVersion())
+      : undefined;
+
+  /**
+   * Shake the registry and print the bundle, or one of its rollups, trimmed
+   * to `releaseLevel` when given.
+   */
+  const shakeAndGenerate = (releaseLevel: ReleaseLevel | undefined, isRollup: boolean) => {
+    const shaker = new TreeShaker(registry, {
+      entryFile,
+      entryImports: entryImports ?? undefined,
+      entrySourceFile: entrySourceFile ?? undefined,
+      entryImportedFiles: entryRootFiles,
+      entryReferencedFiles,
+      releaseLevel,
+    });
+    const {
+      declarations: usedDeclarations,
+      externalImports: usedExternals,
+      detectedTypesLibraries,
+      declarationOrder,
+      trimmedReferences,
+    } = shaker.shake();
+    plugins.afterShake(usedDeclarations, registry.declarations, releaseLevel);
+    const target = isRollup ? `the ${releaseLevel} rollup` : "the bundle";
+    reportTrimmedReferences(registry, trimmedReferences, target, diagnostics);
+
+    // Strip unnecessary $N suffixes when collisions were removed by tree-shaking.
+    NameNormalizer.stripUnnecessarySuffixes(registry, usedDeclarations, usedExternals);
+    if (!isRollup) {
+      endPhase("shake");
+    }
+
+    const hasGlobalAugmentation = Array.from(usedDeclarations).some((id) => {
+      const declaration = registry.getDeclaration(id);
+      return Boolean(
+        declaration &&
+        ts.isModuleDeclaration(declaration.node) &&
+        declaration.node.flags & ts.NodeFlags.GlobalAugmentation,
+      );
+    });
+
+    const includeEmptyExport = includeEmptyExportFromSource || hasGlobalAugmentation;
+    const legalComments =
+      options.legalComments === "inline" || options.legalComments === "external"
+        ? collectLegalComments(
+            getIncludedFiles(registry, entryFile, usedDeclarations).flatMap((fileName) => {
+              const sourceFile = files.get(fileName)?.sourceFile;
+              return sourceFile ? [sourceFile] : [];
+            }),
+          )
+        : [];
+
+    const generator = new OutputGenerator(registry, usedDeclarations, usedExternals, {
+      ...options,
+      banner: bannerVariables && renderBanner(options.banner, bannerVariables),
+      footer: bannerVariables && renderBanner(options.footer, bannerVariables),
+      legalComments: options.legalComments === "inline" ? legalComments : undefined,
+      stripLegalComments: options.legalComments === "inline" || options.legalComments === "external",
+      includeEmptyExport,
+      referencedTypes: allReferencedTypes,
+      entryExportEquals: parser.entryExportEquals,
+      entryExportDefault: parser.entryExportDefault,
+      entryExportDefaultName: parser.entryExportDefaultName,
+      entryFile,
+      entrySourceFile,
+      entryImportedFiles,
+      system: collector.getSystem(),
+      declarationOrder,
+      detectedTypesLibraries,
+      typeChecker: collector.getTypeChecker(),
+      preserveConstEnums: collector.getCompilerOptions().preserveConstEnums ?? false,
+      diagnostics,
+      releaseLevel,
+      declarationTransformers: plugins.getDeclarationTransformers(),
+      importTypeResolver: {
+        shouldInline: collector.shouldInline.bind(collector),
+        resolveImport: collector.resolveImport.bind(collector),
+      },
+    });
+
+    let code: string;
+    try {
+      const generated = generator.generate();
+      code = plugins.transformOutput(generated, releaseLevel);
+      if (code !== generated && (options.declarationMap || options.validate)) {
+        // The map and the lines of the declarations only survive lines added
+        // before or after the output
+        const offset = code.indexOf(generated);
+        if (offset === -1 || (offset > 0 && code[offset - 1] !== "\n")) {
+          throw new Error(
+            "The 'transformOutput' hook of a plugin can only add lines before or after the bundle " +
+              "when 'declarationMap' or 'validate' is set",
+          );
+        }
+        generator.shiftLines(code.slice(0, offset).split("\n").length - 1);
+      }
+    } catch (error) {
+      if (error instanceof BundleDiagnosticError) {
+        for (const diagnostic of error.diagnostics) {
+          diagnostics.report(diagnostic);
+        }
+      }
+      throw error;
+    }
+    const externalLegalComments =
+      options.legalComments === "external" && legalComments.length > 0
+        ? joinOutputLines([legalComments.join("\n\n")], options.format ?? DEFAULT_OUTPUT_FORMAT)
+        : undefined;
+    return { code, generator, usedDeclarations, usedExternals, legalComments: externalLegalComments };
+  };
+
+  const validate = (code: string, generator: OutputGenerator): void => {
+    const validationDiagnostics = validateBundle(code, {
+      entryFile,
+      program,
+      system: collector.getSystem(),
+      getDeclarationsAtLine: (line) => generator.getDeclarationsAtLine(line),
+    });
+    for (const diagnostic of validationDiagnostics) {
+      diagnostics.report(diagnostic);
+    }
+  };
+
+  const mainReleaseLevel = options.stripInternal ? "alpha" : undefined;
+  const { code, generator, usedDeclarations, usedExternals, legalComments } = shakeAndGenerate(mainReleaseLevel, false);
+  const declarationMap = generator.getDeclarationMap();
+  endPhase("generate");
+
+  if (options.validate) {
+    validate(code, generator);
+    endPhase("validate");
+  }
+
+  if (options.verifyApi) {
+    const apiDiagnostics = verifyApiSurface(code, {
+      entryFile,
+      program,
+      system: collector.getSystem(),
+      registry,
+      releaseLevel: mainReleaseLevel,
+      globalNamespace: options.globalNamespace,
+    });
+    for (const diagnostic of apiDiagnostics) {
+      diagnostics.report(diagnostic);
+    }
+    endPhase("verifyApi");
+  }
+
+  const summary = summarizeBundle(registry, entryFile, usedDeclarations, usedExternals);
+  const referencedTypesLibraries = generator.getReferencedTypesLibraries();
+
+  // Rollups are trimmed from the least to the most, so that suffixes
+  // stripped from the names of a rollup stay stripped in the next one
+  let rollups: Partial<Record<ReleaseLevel, BundleRollup>> | undefined;
+  if (options.rollups && options.rollups.length > 0) {
+    rollups = {};
+    for (const level of options.rollups) {
+      const diagnosticCount = diagnostics.getDiagnostics().length;
+      const rollup = shakeAndGenerate(level, true);
+      if (options.validate) {
+        validate(rollup.code, rollup.generator);
+      }
+      const rollupDeclarationMap = rollup.generator.getDeclarationMap();
+      rollups[level] = {
+        code: rollup.code,
+        diagnostics: diagnostics.getDiagnostics().slice(diagnosticCount),
+        ...summarizeBundle(registry, entryFile, rollup.usedDeclarations, rollup.usedExternals),
+        referencedTypesLibraries: rollup.generator.getReferencedTypesLibraries(),
+        declarationMap: rollupDeclarationMap ? JSON.stringify(rollupDeclarationMap) : undefined,
+        ...(rollup.legalComments !== undefined && { legalComments: rollup.legalComments }),
+      };
+    }
+    endPhase("rollups");
+  }
+
+  return {
+    code,
+    diagnostics: diagnostics.getDiagnostics(),
+    ...summary,
+    referencedTypesLibraries,
+    declarationMap: declarationMap ? JSON.stringify(declarationMap) : undefined,
+    ...(legalComments !== undefined && { legalComments }),
+    stats: { timings, fileCount: files.size, declarationCount: registry.declarations.size },
+    ...(rollups && { rollups }),
+  };
+}
+
+/**
+ * Get the files contributing declarations to a bundle.
+ * @param registry - Registry of the bundle
+ * @param entryFile - Absolute path of the entry file
+ * @param usedDeclarations - Declarations kept by tree shaking
+ * @returns The absolute paths of the files, entry file first
+ */
+function getIncludedFiles(registry: TypeRegistry, entryFile: string, usedDeclarations: Set<symbol>): string[] {
+  const includedFiles = new Set<string>([entryFile]);
+  for (const declaration of registry.declarations.values()) {
+    if (usedDeclarations.has(declaration.id)) {
+      includedFiles.add(declaration.sourceFile);
+    }
+  }
+  return Array.from(includedFiles);
+}
+
+/**
+ * Describe the declarations and external imports a bundle emits.
+ * @param registry - Registry of the bundle
+ * @param entryFile - Absolute path of the entry file
+ * @param usedDeclarations - Declarations kept by tree shaking
+ * @param usedExternals - External imports kept by tree shaking
+ * @returns The included files, the kept external imports and the renamed
+ * and removed declarations
+ */
+function summarizeBundle(
+  registry: TypeRegistry,
+  entryFile: string,
+  usedDeclarations: Set<symbol>,
+  usedExternals: Map<string, Set<ExternalImport>>,
+): Pick<BundleResult, "includedFiles" | "externalImports" | "renamedDeclarations" | "removedDeclarations"> {
+  const renamedDeclarations: RenamedDeclarationInfo[] = [];
+  const removedDeclarations: BundleDeclarationInfo[] = [];
+  for (const declaration of registry.declarations.values()) {
+    const { name, normalizedName, sourceFile } = declaration;
+    if (!usedDeclarations.has(declaration.id)) {
+      removedDeclarations.push({ name, sourceFile });
+      continue;
+    }
+    if (name !== normalizedName) {
+      renamedDeclarations.push({ name, normalizedName, sourceFile });
+    }
+  }
+
+  const externalImports: BundleExternalImport[] = [];
+  for (const imports of usedExternals.values()) {
+    for (const externalImport of imports) {
+      externalImports.push({
+        moduleName: externalImport.moduleName,
+        name: externalImport.originalName,
+        localName: externalImport.normalizedName,
+        isTypeOnly: externalImport.isTypeOnly,
+      });
+    }
+  }
+
+  return {
+    includedFiles: getIncludedFiles(registry, entryFile, usedDeclarations),
+    externalImports,
+    renamedDeclarations,
+    removedDeclarations,
+  };
+}
+
+/**
+ * Report the kept declarations that reference declarations trimmed by their
+ * release tag; the bundle refers to types it does not declare.
+ * @param registry - Registry of the bundle
+ * @param trimmedReferences - Map of kept declaration to the trimmed declarations it references
+ * @param target - Name of the trimmed bundle in the messages
+ * @param diagnostics - Reporter of the diagnostics of the entry
+ */
+function reportTrimmedReferences(
+  registry: TypeRegistry,
+  trimmedReferences: Map<symbol, Set<symbol>>,
+  target: string,
+  diagnostics: DiagnosticReporter,
+): void {
+  for (const [declarationId, dependencyIds] of trimmedReferences) {
+    const declaration = registry.getDeclaration(declarationId);
+    if (!declaration) continue;
+    for (const dependencyId of dependencyIds) {
+      const dependency = registry.getDeclaration(dependencyId);
+      if (!dependency) continue;
+      diagnostics.warning(
+        DiagnosticCode.TrimmedReference,
+        `'${declaration.name}' references '${dependency.name}', which is tagged @${getReleaseTag(dependency.node)} and trimmed from ${target}`,
+        declaration.node,
+      );
+    }
+  }
+}
+
+/**
+ * Throw when bundling reported any diagnostic (used by `failOnWarnings`).
+ * @param diagnostics - Diagnostics reported while bundling
+ */
+function assertNoDiagnostics(diagnostics: BundleDiagnostic[]): void {
+  if (diagnostics.length > 0) {
+    throw new BundleDiagnosticError(
+      `Bundling reported ${diagnostics.length} diagnostic(s) and 'failOnWarnings' is enabled:`,
+      diagnostics,
     );
-  });
+  }
+}
 
-  const includeEmptyExport = includeEmptyExportFromSource || hasGlobalAugmentation;
+/**
+ * Bundle several entries in one run. A single `Program` (and module
+ * resolution cache) is created for all entries; the remaining bundling
+ * phases run per entry on files reachable from that entry.
+ * @param entries - Map of entry key to entry file path
+ * @param inlinedLibraries - Libraries to inline into every bundle
+ * @param options - Bundling options shared by all entries
+ * @param onDiagnostic - Callback receiving the diagnostics of every entry
+ * @param system - File system every entry is read from
+ * @param config - Tsconfig path and compiler option overrides of the shared `Program`
+ * @returns Map of entry key to bundle result, and the paths of the files
+ * collected for any entry
+ */
+function bundleEntries(
+  entries: Record<string, string>,
+  inlinedLibraries: string[],
+  options: BundleOptions,
+  onDiagnostic: ((diagnostic: BundleDiagnostic) => void) | undefined,
+  system: ts.System,
+  config: ProgramConfig,
+): { results: Record<string, BundleResult>; collectedFiles: string[] } {
+  const entryFiles = Object.entries(entries).map(([key, entry]) => ({
+    key,
+    entryFile: resolveEntryFile(entry, system),
+  }));
+  const programStart = performance.now();
+  const program = FileCollector.createProgram(
+    entryFiles.map(({ entryFile }) => entryFile),
+    system,
+    config,
+  );
+  const moduleResolutionCache = FileCollector.createModuleResolutionCache(program, system);
+  const programDuration = performance.now() - programStart;
 
-  const generator = new OutputGenerator(registry, usedDeclarations, usedExternals, {
-    ...options,
-    includeEmptyExport,
-    referencedTypes: allReferencedTypes,
-    entryExportEquals: parser.entryExportEquals,
-    entryExportDefault: parser.entryExportDefault,
-    entryExportDefaultName: parser.entryExportDefaultName,
-    entryFile,
-    entryImportedFiles,
-    declarationOrder,
-    detectedTypesLibraries,
-    typeChecker: collector.getTypeChecker(),
-    preserveConstEnums: collector.getCompilerOptions().preserveConstEnums ?? false,
-    importTypeResolver: {
-      shouldInline: collector.shouldInline.bind(collector),
-      resolveImport: collector.resolveImport.bind(collector),
-    },
+  const collectors = entryFiles.map(({ key, entryFile }) => {
+    const diagnostics = new DiagnosticReporter(onDiagnostic);
+    const collector = new FileCollector(entryFile, {
+      inlinedLibraries,
+      program,
+      moduleResolutionCache,
+      diagnostics,
+      system,
+    });
+    return { key, entryFile, collector, diagnostics, reachableFiles: collector.getReachableFiles() };
   });
-  return generator.generate();
+
+  const results: Record<string, BundleResult> = {};
+  const collectedFiles = new Set<string>();
+  for (const current of collectors) {
+    // Files reachable from other entries only must not leak into this bundle
+    const excludedFiles = new Set<string>();
+    for (const other of collectors) {
+      if (other === current) continue;
+      for (const file of other.reachableFiles) {
+        if (!current.reachableFiles.has(file)) {
+          excludedFiles.add(file);
+        }
+      }
+    }
+    const collectStart = performance.now();
+    const files = current.collector.collectFiles(excludedFiles);
+    const collectDuration = programDuration + performance.now() - collectStart;
+    results[current.key] = bundle(
+      current.entryFile,
+      files,
+      current.collector,
+      current.diagnostics,
+      collectDuration,
+      options.ambientModule
+        ? { ...options, ambientModule: getAmbientModuleName(options.ambientModule, current.key) }
+        : options,
+    );
+    for (const fileName of files.keys()) {
+      collectedFiles.add(fileName);
+    }
+  }
+
+  return { results, collectedFiles: [...collectedFiles] };
+}
+
+/**
+ * Get the name of the ambient module declared by an entry of a multi-entry
+ * bundle: `.` and `index` declare the module itself, other keys (e.g.
+ * `./react`) declare a subpath of it.
+ * @param moduleName - The `ambientModule` option
+ * @param key - Entry key
+ * @returns The name of the ambient module of the entry
+ */
+function getAmbientModuleName(moduleName: string, key: string): string {
+  const subpath = key.replace(/^\.\/?/, "");
+  return subpath === "" || subpath === "index" ? moduleName : `${moduleName}/${subpath}`;
 }
 
 /**
  * Bundle TypeScript declaration files
  * @param options - Bundling options
- * @returns The bundled TypeScript declaration content
+ * @returns The bundled TypeScript declaration content, or a map of entry key
+ * to bundled content when `entries` is used
  */
-export function bundleTypes(options: BundleTypesOptions): string {
-  const {
-    entry,
-    inlinedLibraries = [],
-    allowedTypesLibraries,
-    importedLibraries,
-    noBanner,
-    sortNodes,
-    umdModuleName,
-    exportReferencedTypes,
-    inlineDeclareGlobals,
-    inlineDeclareExternals,
-    respectPreserveConstEnum,
-  } = options;
+export function bundleTypes(options: BundleTypesOptions): string;
+export function bundleTypes(options: MultiEntryBundleTypesOptions): Record<string, string>;
+export function bundleTypes(
+  options: BundleTypesOptions | MultiEntryBundleTypesOptions,
+): string | Record<string, string> {
+  if ("entries" in options) {
+    const results = bundleTypesDetailed(options);
+    return Object.fromEntries(Object.entries(results).map(([key, { code }]) => [key, code]));
+  }
+  return bundleTypesDetailed(options).code;
+}
+
+/**
+ * Bundle TypeScript declaration files and report what the bundler did:
+ * included files, kept external imports, renamed and removed declarations,
+ * referenced types libraries and diagnostics.
+ * @param options - Bundling options
+ * @returns The bundle result, or a map of entry key to bundle result when
+ * `entries` is used
+ */
+export function bundleTypesDetailed(options: BundleTypesOptions): BundleResult;
+export function bundleTypesDetailed(options: MultiEntryBundleTypesOptions): Record<string, BundleResult>;
+export function bundleTypesDetailed(
+  options: BundleTypesOptions | MultiEntryBundleTypesOptions,
+): BundleResult | Record<string, BundleResult> {
+  const { inlinedLibraries = [], onDiagnostic, failOnWarnings, tsconfig, compilerOptions } = options;
+  const system = resolveSystem(options);
 
-  if (!entry) {
+  if ("entries" in options) {
+    if (Object.keys(options.entries).length === 0) {
+      throw new Error("The 'entries' option must contain at least one entry");
+    }
+    const entries = Object.fromEntries(
+      Object.entries(options.entries).map(([key, entry]) => [key, resolveEntryFile(entry, system)]),
+    );
+    const cache = createBuildCache(options, entries, system);
+    let results = cache ? readBuildCache(cache, onDiagnostic) : null;
+    if (!results) {
+      const build = bundleEntries(entries, inlinedLibraries, toBundleOptions(options), onDiagnostic, system, {
+        tsconfig,
+        compilerOptions,
+      });
+      cache?.write(build.results, build.collectedFiles);
+      results = build.results;
+    }
+    if (failOnWarnings) {
+      assertNoDiagnostics(Object.values(results).flatMap(({ diagnostics }) => diagnostics));
+    }
+    return results;
+  }
+
+  if (!options.entry) {
     throw new Error("The 'entry' option is required");
   }
 
-  return bundle(entry, inlinedLibraries, {
-    noBanner,
-    sortNodes,
-    umdModuleName,
-    exportReferencedTypes,
-    allowedTypesLibraries,
-    importedLibraries,
-    inlineDeclareGlobals,
-    inlineDeclareExternals,
-    respectPreserveConstEnum,
+  const entryFile = resolveEntryFile(options.entry, system);
+  const cache = createBuildCache(options, { [entryFile]: entryFile }, system);
+  const cached = cache ? readBuildCache(cache, onDiagnostic) : null;
+  if (cached) {
+    if (failOnWarnings) {
+      assertNoDiagnostics(cached[entryFile].diagnostics);
+    }
+    return cached[entryFile];
+  }
+
+  const { result, collectedFiles } = bundleSingleEntry(entryFile, options, system);
+  cache?.write({ [entryFile]: result }, collectedFiles);
+  return result;
+}
+
+/**
+ * Bundle several entries into one declaration file declaring an ambient
+ * module per entry, named after the `ambientModule` option and the entry key.
+ * @param options - Bundling options
+ * @returns The declaration file, with the banner and reference directives of
+ * every entry hoisted above the `declare module` blocks and their distinct
+ * footers below
+ * @throws {Error} When the block of an entry is missing from its bundle or
+ * declared twice, e.g. after a plugin rewrote the output
+ */
+export function bundleAmbientModules(options: AmbientModulesBundleTypesOptions): string {
+  const results = bundleTypesDetailed(options);
+
+  const headerSections = new Set<string>();
+  const references = new Set<string>();
+  const footers = new Set<string>();
+  const blocks: string[] = [];
+  for (const [key, { code }] of Object.entries(results)) {
+    const lines = code.trimEnd().split(/\r?\n/);
+    // The block body is indented, so its end is the first unindented `}`
+    const moduleHeader = `declare module ${JSON.stringify(getAmbientModuleName(options.ambientModule, key))} {`;
+    const moduleStart = lines.indexOf(moduleHeader);
+    const moduleEnd = moduleStart === -1 ? 0 : lines.indexOf("}", moduleStart) + 1;
+    if (moduleEnd === 0 || lines.filter((line) => line === moduleHeader).length > 1) {
+      throw new Error(`Cannot find the single '${moduleHeader}' block in the bundle of the entry '${key}'`);
+    }
+    // Reference directives are merged line by line, the banner and legal
+    // comments as a whole
+    for (const section of lines
+      .slice(0, moduleStart)
+      .join("\n")
+      .split(/\n{2,}/)) {
+      const sectionLines = section.split("\n").filter((line) => line !== "");
+      if (sectionLines.length > 0 && sectionLines.every((line) => line.startsWith("/// <reference"))) {
+        sectionLines.forEach((line) => references.add(line));
+      } else if (sectionLines.length > 0) {
+        headerSections.add(sectionLines.join("\n"));
+      }
+    }
+    blocks.push(lines.slice(moduleStart, moduleEnd).join("\n"));
+    const footer = lines.slice(moduleEnd).join("\n").trim();
+    if (footer) footers.add(footer);
+  }
+
+  const header = [...headerSections, ...(references.size > 0 ? [[...references].join("\n")] : [])];
+  const sections = [...header, ...blocks, ...footers];
+  return joinOutputLines([sections.join("\n\n")], resolveOutputFormat(options.format));
+}
+
+/**
+ * Create the build cache for `options.cacheDir`. The cache key covers the
+ * entries, the options affecting the output, the compiler options, the
+ * bundler version and, with a banner or footer, the package.json files their
+ * variables are read from and the date when they use it.
+ * @param options - Bundling options
+ * @param entries - Map of entry key to absolute entry file path
+ * @param system - File system to read from
+ * @returns The build cache, or null when `cacheDir` is not set
+ * @throws {Error} When the banner or footer is a function or plugins are
+ * set, whose code cannot be part of the key
+ */
+function createBuildCache(
+  options: BundleTypesOptions | MultiEntryBundleTypesOptions,
+  entries: Record<string, string>,
+  system: ts.System,
+): BuildCache | null {
+  if (!options.cacheDir) {
+    return null;
+  }
+
+  const functionOption = (["banner", "footer"] as const).find((name) => typeof options[name] === "function");
+  if (functionOption) {
+    throw new Error(`The '${functionOption}' option cannot be a function when 'cacheDir' is set`);
+  }
+
+  if (options.plugins && options.plugins.length > 0) {
+    throw new Error("The 'plugins' option cannot be used with 'cacheDir'");
+  }
+
+  const hasBanner = options.banner !== undefined || options.footer !== undefined;
+  const packageJsonFiles = hasBanner
+    ? Object.values(entries).flatMap((entry) => findPackageJson(entry, system) ?? [])
+    : [];
+  const usesDate = usesBannerVariable(options.banner, "date") || usesBannerVariable(options.footer, "date");
+  const config = { tsconfig: options.tsconfig, compilerOptions: options.compilerOptions };
+  return new BuildCache(
+    options.cacheDir,
+    {
+      entries,
+      options: {
+        ...toBundleOptions(options),
+        inlinedLibraries: options.inlinedLibraries ?? [],
+        outFile: "outFile" in options ? options.outFile : undefined,
+        date: usesDate ? getBannerDate() : undefined,
+      },
+      compilerOptions: FileCollector.getProgramCompilerOptions(Object.values(entries), system, config),
+      version: getVersion(),
+      inputFiles: [...new Set(packageJsonFiles)].sort(),
+    },
+    system,
+  );
+}
+
+/**
+ * Read cached results and report their diagnostics again, as a build would.
+ * @param cache - Build cache
+ * @param onDiagnostic - Callback receiving the diagnostics of the results
+ * @returns The cached results, or null on a cache miss
+ */
+function readBuildCache(
+  cache: BuildCache,
+  onDiagnostic: ((diagnostic: BundleDiagnostic) => void) | undefined,
+): Record<string, BundleResult> | null {
+  const results = cache.read();
+  if (results && onDiagnostic) {
+    for (const { diagnostics } of Object.values(results)) {
+      diagnostics.forEach((diagnostic) => onDiagnostic(diagnostic));
+    }
+  }
+  return results;
+}
+
+/**
+ * Bundle a single entry, reusing `program` when given (watch mode).
+ * @param entryFile - Absolute path of the entry file
+ * @param options - Bundling options
+ * @param system - File system to read from
+ * @param program - Existing `Program` containing the entry; created when omitted
+ * @returns The bundle result and the paths of the files collected for it
+ */
+function bundleSingleEntry(
+  entryFile: string,
+  options: BundleTypesOptions,
+  system: ts.System,
+  program?: ts.Program,
+): { result: BundleResult; collectedFiles: string[] } {
+  const { inlinedLibraries = [], onDiagnostic, failOnWarnings, tsconfig, compilerOptions } = options;
+  const diagnostics = new DiagnosticReporter(onDiagnostic);
+  const collectStart = performance.now();
+  const collector = new FileCollector(entryFile, {
+    inlinedLibraries,
+    program,
+    diagnostics,
+    system,
+    config: { tsconfig, compilerOptions },
+  });
+  const files = collector.collectFiles();
+  const collectDuration = performance.now() - collectStart;
+  const result = bundle(entryFile, files, collector, diagnostics, collectDuration, toBundleOptions(options));
+  if (failOnWarnings) {
+    assertNoDiagnostics(result.diagnostics);
+  }
+
+  return {
+    result: options.outFile
+      ? attachDeclarationMap(result, options.outFile, resolveOutputFormat(options.format))
+      : result,
+    collectedFiles: [...files.keys()],
+  };
+}
+
+/**
+ * Bundle an entry, then re-run the bundling phases whenever a file of the
+ * collected graph or the tsconfig changes. Builds on a TypeScript watch
+ * program, so unchanged files are not parsed again; bursts of changes are
+ * debounced into one rebuild.
+ * @param options - Bundling and watch options
+ * @returns The watcher; call `close()` to stop watching
+ */
+export function watchTypes(options: WatchTypesOptions): TypesWatcher {
+  if (!options.entry) {
+    throw new Error("The 'entry' option is required");
+  }
+
+  const system = resolveSystem(options);
+  const entryFile = resolveEntryFile(options.entry, system);
+  return new TypesWatcher({
+    entryFiles: [entryFile],
+    system,
+    config: { tsconfig: options.tsconfig, compilerOptions: options.compilerOptions },
+    debounce: options.debounce ?? 100,
+    build: (program) => bundleSingleEntry(entryFile, options, system, program),
+    onBundle: options.onBundle,
+    onError: options.onError,
   });
 }
 
-function parseArgs(): { entry: string | null; output: string | null; inlinedLibraries: string[] } {
-  const args = process.argv.slice(2);
-  const options = {
-    entry: null as string | null,
-    output: null as string | null,
-    inlinedLibraries: [] as string[],
+/**
+ * Prepare a bundle and its declaration map for being written to `outFile`:
+ * map sources become relative to `outFile` and a `sourceMappingURL` comment
+ * pointing to `<outFile>.map` is appended to the code. Rollups are prepared
+ * for their own file next to `outFile`.
+ * @param result - Bundle result whose declaration map has absolute sources
+ * @param outFile - Path the bundle is written to
+ * @param format - Format of the bundle, which the comment follows
+ * @returns The result with relocated declaration map and updated code
+ */
+function attachDeclarationMap<T extends { code: string; declarationMap?: string; rollups?: BundleResult["rollups"] }>(
+  result: T,
+  outFile: string,
+  format: ResolvedOutputFormat,
+): T {
+  if (!result.declarationMap) {
+    return result;
+  }
+
+  const map = relocateSourceMap(JSON.parse(result.declarationMap) as RawSourceMap, outFile);
+  const rollups = result.rollups
+    ? Object.fromEntries(
+        Object.entries(result.rollups).map(([level, rollup]) => [
+          level,
+          attachDeclarationMap(rollup, getRollupFileName(outFile, level as ReleaseLevel), format),
+        ]),
+      )
+    : undefined;
+  return {
+    ...result,
+    code: joinOutputLines(
+      [result.code.replace(/\r?\n$/, ""), `//# sourceMappingURL=${path.basename(outFile)}.map`],
+      format,
+    ),
+    declarationMap: JSON.stringify(map),
+    ...(rollups && { rollups }),
   };
+}
 
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
-    if (arg === "-e" || arg === "--entry") {
-      options.entry = args[++i] ?? null;
-    } else if (arg === "-o" || arg === "--output") {
-      options.output = args[++i] ?? null;
-    } else if (arg === "-i" || arg === "--inlinedLibraries") {
-      const libs = args[++i];
-      options.inlinedLibraries = libs
-        ? libs
-            .split(",")
-            .map((s: string) => s.trim())
-            .filter(Boolean)
-        : [];
-    } else if (arg === "-h" || arg === "--help") {
-      console.log("TypeScript Type Bundler v2");
-      console.log("\nUsage: bundle-types -e <entry> -o <output> [-i <inlinedLibraries>]");
-      console.log("\nOptions:");
-      console.log("  -e, --entry <file>              Entry TypeScript file");
-      console.log("  -o, --output <file>             Output bundled file");
-      console.log("  -i, --inlinedLibraries <list>   Comma-separated libraries to inline");
-      console.log("  -h, --help                      Show this help message");
-      process.exit(0);
+function writeOutputFile(outputPath: string, content: string): void {
+  const outputDir = path.dirname(outputPath);
+
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, "utf-8");
+}
+
+/**
+ * Bundle the declarations a package promises through its package.json
+ * `exports` map. Each `types` condition target is mapped back to a source
+ * entry using the tsconfig `rootDir`/`outDir`, all entries are bundled in one
+ * run and each bundle is written to the promised path.
+ * @param options - Bundling options
+ * @returns The bundles, one per promised declaration file
+ * @throws When a promised declaration file is not produced by the bundler,
+ * or when `ambientModule` is set
+ */
+export function bundlePackageTypes(options: PackageBundleTypesOptions): PackageTypesBundle[] {
+  const { packagePath, write = true, ...bundleOptions } = options;
+  if (options.ambientModule !== undefined) {
+    throw new Error("The 'ambientModule' option is not supported when bundling a package");
+  }
+  const system = resolveSystem(options);
+  const packageEntries = resolvePackageTypesEntries(packagePath, system, {
+    tsconfig: options.tsconfig,
+    compilerOptions: options.compilerOptions,
+  });
+
+  // Several conditions (e.g. import/require) may share one source entry
+  const entries: Record<string, string> = {};
+  for (const { entry } of packageEntries) {
+    entries[entry] = entry;
+  }
+  // `files` is already overlaid onto `system`
+  const results = bundleTypesDetailed({ ...bundleOptions, files: undefined, system, entries });
+
+  const bundles = packageEntries.map(({ subpath, entry, output }) => {
+    const result = attachDeclarationMap(results[entry], output, resolveOutputFormat(options.format));
+    return { subpath, entry, output, content: result.code, declarationMap: result.declarationMap, result };
+  });
+
+  if (write) {
+    for (const { output, result } of bundles) {
+      writeBundle(output, result);
     }
   }
 
-  if (!options.entry || !options.output) {
-    console.error("Error: Missing required arguments");
-    console.error("\nUsage: bundle-types -e <entry> -o <output> [-i <inlinedLibraries>]");
+  return bundles;
+}
+
+function reportMissingArguments(): never {
+  console.error("Error: Missing required arguments");
+  console.error("\nUsage: bundle-types -e <entry> -o <output> [options]");
+  console.error("       bundle-types --package <dir> [options]");
+  console.error("       bundle-types [--config <file>] [--target <names>] [options]");
+  process.exit(1);
+}
+
+function parseArgs(): CliOptions {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    console.error('\nRun "bundle-types --help" to list the available options');
+    process.exit(1);
+  }
+
+  if (options.help) {
+    console.log(formatCliHelp());
+    process.exit(0);
+  }
+
+  if (options.packagePath && (options.entry || options.outFile)) {
+    console.error("Error: --package cannot be combined with --entry or --output");
+    process.exit(1);
+  }
+
+  if ((options.config || options.target) && (options.packagePath || options.entry || options.outFile)) {
+    console.error("Error: --config and --target cannot be combined with --entry, --output or --package");
+    process.exit(1);
+  }
+
+  if (!options.entry !== !options.outFile) {
+    reportMissingArguments();
+  }
+
+  if (options.watch && options.packagePath) {
+    console.error("Error: --watch is not supported with --package");
+    process.exit(1);
+  }
+
+  if (options.watch && options.check) {
+    console.error("Error: --check cannot be combined with --watch");
+    process.exit(1);
+  }
+
+  if (options.report !== undefined && options.report !== "json") {
+    console.error(`Error: Unknown report format: ${options.report} (expected: json)`);
+    process.exit(1);
+  }
+
+  if (options.watch && (options.report || options.reportFile)) {
+    console.error("Error: --report cannot be combined with --watch");
     process.exit(1);
   }
 
@@ -254,28 +1191,253 @@ function isRunAsCli(): boolean {
   }
 }
 
-if (isRunAsCli()) {
-  const options = parseArgs();
+/**
+ * Whether the report is printed to stdout, in which case progress messages
+ * are printed to stderr so that stdout holds only the report.
+ */
+let isReportOnStdout = false;
 
-  console.log(`Bundling types from ${path.resolve(options.entry as string)}...`);
+function log(message: string): void {
+  if (isReportOnStdout) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
 
-  try {
-    const bundledContent = bundleTypes({
-      entry: options.entry as string,
-      inlinedLibraries: options.inlinedLibraries,
+function reportDiagnostic(diagnostic: BundleDiagnostic): void {
+  console.warn(formatDiagnostic(diagnostic));
+}
+
+/**
+ * Write a bundle, its declaration map, its legal comments and its rollups.
+ * @param outputPath - Absolute path of the bundle
+ * @param result - Bundle result prepared for `outputPath`
+ */
+function writeBundle(
+  outputPath: string,
+  { code, declarationMap, legalComments, rollups }: BundleRollup & Pick<BundleResult, "rollups">,
+): void {
+  writeOutputFile(outputPath, code);
+  if (declarationMap) {
+    writeOutputFile(`${outputPath}.map`, declarationMap);
+  }
+  if (legalComments) {
+    writeOutputFile(`${outputPath}.LICENSE.txt`, legalComments);
+  }
+  for (const [level, rollup] of Object.entries(rollups ?? {})) {
+    writeBundle(getRollupFileName(outputPath, level as ReleaseLevel), rollup);
+  }
+}
+
+/**
+ * Compare a generated file with the file on disk, printing a unified diff
+ * when they differ.
+ * @param outputPath - Absolute path of the output file
+ * @param content - Generated content of the file
+ * @returns Whether the file on disk is up to date
+ */
+function checkOutputFile(outputPath: string, content: string): boolean {
+  const existing = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, "utf-8") : null;
+  const label = path.relative(process.cwd(), outputPath) || outputPath;
+  if (existing === content) {
+    log(`✓ ${label} is up to date`);
+    return true;
+  }
+
+  log(existing === null ? `✗ ${label} does not exist` : `✗ ${label} is out of date`);
+  (isReportOnStdout ? process.stderr : process.stdout).write(
+    createUnifiedDiff(existing ?? "", content, existing === null ? "/dev/null" : label, label),
+  );
+  return false;
+}
+
+/**
+ * Compare a bundle, its declaration map, its legal comments and its rollups
+ * with the files on disk.
+ * @returns The number of files that are out of date
+ */
+function checkBundle(
+  outputPath: string,
+  { code, declarationMap, legalComments, rollups }: BundleRollup & Pick<BundleResult, "rollups">,
+): number {
+  let staleCount = checkOutputFile(outputPath, code) ? 0 : 1;
+  if (declarationMap !== undefined && !checkOutputFile(`${outputPath}.map`, declarationMap)) {
+    staleCount++;
+  }
+  if (legalComments !== undefined && !checkOutputFile(`${outputPath}.LICENSE.txt`, legalComments)) {
+    staleCount++;
+  }
+  for (const [level, rollup] of Object.entries(rollups ?? {})) {
+    staleCount += checkBundle(getRollupFileName(outputPath, level as ReleaseLevel), rollup);
+  }
+  return staleCount;
+}
+
+function reportStaleOutputs(staleCount: number): void {
+  if (staleCount > 0) {
+    console.error(
+      `Error: ${staleCount} output file(s) are out of date; run bundle-types without --check to update them`,
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Load the targets of the config given with `--config`, or of the config
+ * found in the working directory.
+ */
+async function loadConfigTargets(
+  configPath: string | undefined,
+  names: string[] | undefined,
+): Promise<ResolvedBundleTarget[]> {
+  const config = await loadConfig(configPath);
+  if (!config) {
+    reportMissingArguments();
+  }
+  log(`Using config ${path.relative(process.cwd(), config.configPath) || config.configPath}`);
+  return selectTargets(config, names);
+}
+
+function watchBundle(bundleOptions: BundleTypesOptions, outputPath: string): void {
+  watchTypes({
+    ...bundleOptions,
+    onBundle: (result, { changedFiles, duration }) => {
+      if (changedFiles.length > 0) {
+        const relativeFiles = changedFiles.map((fileName) => path.relative(process.cwd(), fileName));
+        console.log(`File change detected: ${relativeFiles.join(", ")}`);
+      }
+      writeBundle(outputPath, result);
+      console.log(`✓ Types bundled successfully to ${outputPath} in ${Math.round(duration)}ms`);
+    },
+    onError: (error) => console.error(`Error: ${error.message}`),
+  });
+}
+
+/**
+ * Bundle the package, the entry or the config targets given on the command
+ * line, writing or checking their outputs.
+ * @param options - Parsed command-line options
+ * @param bundles - Receives every bundle built, for the report
+ * @returns The number of output files that are out of date, with `check`
+ */
+async function bundleCliTargets(options: CliOptions, bundles: ReportedBundle[]): Promise<number> {
+  const {
+    packagePath,
+    config,
+    target,
+    check,
+    report: _report,
+    reportFile: _reportFile,
+    watch,
+    help: _help,
+    entry,
+    outFile,
+    ...cliOptions
+  } = options;
+
+  if (packagePath) {
+    log(`Bundling types from ${path.resolve(packagePath)}...`);
+
+    const packageBundles = bundlePackageTypes({
+      ...cliOptions,
+      packagePath,
+      write: !check,
+      onDiagnostic: reportDiagnostic,
     });
+    bundles.push(
+      ...packageBundles.map(({ subpath, entry, output, result }) => ({ name: subpath, entry, output, result })),
+    );
 
-    const outputPath = path.resolve(options.output as string);
-    const outputDir = path.dirname(outputPath);
+    if (check) {
+      let staleCount = 0;
+      for (const { output, result } of packageBundles) {
+        staleCount += checkBundle(output, result);
+      }
+      return staleCount;
+    }
+    for (const { output } of packageBundles) {
+      log(`✓ Types bundled successfully to ${output}`);
+    }
+    return 0;
+  }
+
+  const targets: ResolvedBundleTarget[] =
+    entry && outFile ? [{ entry, output: outFile }] : await loadConfigTargets(config, target);
 
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
+  let staleCount = 0;
+  for (const { name, output, ...targetOptions } of targets) {
+    log(`Bundling types from ${path.resolve(targetOptions.entry)}...`);
+
+    const outputPath = path.resolve(output);
+    // Command-line options take precedence over the options of the config
+    const bundleOptions: BundleTypesOptions = {
+      ...targetOptions,
+      ...cliOptions,
+      outFile: outputPath,
+      onDiagnostic: reportDiagnostic,
+    };
+
+    if (watch) {
+      watchBundle(bundleOptions, outputPath);
+      continue;
     }
 
-    fs.writeFileSync(outputPath, bundledContent, "utf-8");
-    console.log(`✓ Types bundled successfully to ${outputPath}`);
+    const result = bundleTypesDetailed(bundleOptions);
+    bundles.push({ name, entry: path.resolve(targetOptions.entry), output: outputPath, result });
+    if (check) {
+      staleCount += checkBundle(outputPath, result);
+    } else {
+      writeBundle(outputPath, result);
+      log(`✓ Types bundled successfully to ${outputPath}`);
+    }
+  }
+
+  if (watch) {
+    log("Watching for changes...");
+  }
+  return staleCount;
+}
+
+/**
+ * Print the report of the run to stdout, or write it to `reportFile`.
+ */
+function writeReport(bundles: ReportedBundle[], start: number, reportFile: string | undefined, error?: Error): void {
+  const report = createBundleReport(bundles, { duration: performance.now() - start, error });
+  const json = `${JSON.stringify(report, null, 2)}\n`;
+  if (reportFile) {
+    writeOutputFile(path.resolve(reportFile), json);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+async function runCli(): Promise<void> {
+  const options = parseArgs();
+  const isReported = options.report !== undefined || options.reportFile !== undefined;
+  isReportOnStdout = isReported && !options.reportFile;
+
+  const start = performance.now();
+  const bundles: ReportedBundle[] = [];
+  let staleCount: number;
+  try {
+    staleCount = await bundleCliTargets(options, bundles);
   } catch (error) {
+    if (isReported) {
+      writeReport(bundles, start, options.reportFile, error as Error);
+    }
+    throw error;
+  }
+
+  if (isReported) {
+    writeReport(bundles, start, options.reportFile);
+  }
+  reportStaleOutputs(staleCount);
+}
+
+if (isRunAsCli()) {
+  runCli().catch((error: unknown) => {
     console.error(`Error: ${(error as Error).message}`);
     process.exit(1);
-  }
+  });
 }
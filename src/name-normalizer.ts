@@ -1,4 +1,3 @@
-import fs from "node:fs";
 import path from "node:path";
 import * as ts from "typescript";
 import { isDeclareGlobal } from "./declaration-utils";
@@ -14,18 +13,26 @@ export class NameNormalizer {
   private nameCounter: Map<string, number>;
   private entryFile?: string;
   private typeChecker?: ts.TypeChecker;
+  private entrySourceFile?: ts.SourceFile;
 
-  constructor(registry: TypeRegistry, entryFile?: string, typeChecker?: ts.TypeChecker) {
+  constructor(
+    registry: TypeRegistry,
+    entryFile?: string,
+    typeChecker?: ts.TypeChecker,
+    entrySourceFile?: ts.SourceFile,
+  ) {
     /**
      * Create a `NameNormalizer`.
      * @param registry - The `TypeRegistry` containing declarations and external imports.
      * @param entryFile - Optional path to the bundle entry file used to prefer entry-sourced names.
      * @param typeChecker - Optional TypeScript `TypeChecker` for global name analysis.
+     * @param entrySourceFile - Optional parsed entry file used to order names by entry statements.
      */
     this.registry = registry;
     this.nameCounter = new Map();
     this.entryFile = entryFile;
     this.typeChecker = typeChecker;
+    this.entrySourceFile = entrySourceFile;
   }
 
   normalize(): void {
@@ -216,8 +223,10 @@ export class NameNormalizer {
 
     try {
       const entryDir = path.dirname(this.entryFile);
-      const sourceText = fs.readFileSync(this.entryFile, "utf8");
-      const sourceFile = ts.createSourceFile(this.entryFile, sourceText, ts.ScriptTarget.Latest, true);
+      const sourceFile = this.entrySourceFile;
+      if (!sourceFile) {
+        return order;
+      }
       let stmtIndex = order.size;
 
       const registerModulePath = (modulePath: string): void => {
@@ -310,8 +319,10 @@ export class NameNormalizer {
     }
 
     try {
-      const sourceText = fs.readFileSync(this.entryFile, "utf8");
-      const sourceFile = ts.createSourceFile(this.entryFile, sourceText, ts.ScriptTarget.Latest, true);
+      const sourceFile = this.entrySourceFile;
+      if (!sourceFile) {
+        return order;
+      }
       let stmtIndex = 0;
 
       const registerModule = (modulePath: string): void => {
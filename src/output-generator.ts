@@ -2,30 +2,53 @@ import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import * as ts from "typescript";
-import { AstPrinter } from "./ast-printer";
+import { AstPrinter, type ImportTypeTarget } from "./ast-printer";
+import { BundleDiagnosticError, createDiagnostic, type DiagnosticReporter } from "./diagnostics";
 import { getModifiers, modifiersToMap, recreateRootLevelNodeWithModifiers } from "./helpers/ast-transformer";
-import { buildEntryExportData, type EntryExportData } from "./helpers/entry-exports";
+import { applyCommentPolicy, type CommentPolicy } from "./helpers/comment-policy";
+import { orderDeclarations } from "./helpers/declaration-order";
+import { buildEntryExportData, type EntryExportData, lookupNormalizedName } from "./helpers/entry-exports";
+import { type ExportList, moveExportsInline, moveExportsToList } from "./helpers/export-style";
 import { tryGetSourceFile } from "./helpers/file-utils";
+import { stripLeadingLegalComments } from "./helpers/legal-comments";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  formatOutputChunk,
+  joinOutputLines,
+  type ResolvedOutputFormat,
+} from "./helpers/output-format";
 import { normalizePrintedStatement } from "./helpers/print-normalizer";
+import { createReleaseTrimTransformer } from "./helpers/release-tags";
+import { type RawSourceMap, SourceMapBuilder } from "./helpers/source-map";
 import type { TypeRegistry } from "./registry";
-import { ExportKind, type ExternalImport, type TypeDeclaration } from "./types";
+import {
+  type BundleDiagnostic,
+  type DeclarationOrder,
+  DiagnosticCode,
+  ExportKind,
+  type ExportStyle,
+  type ExternalImport,
+  type ReleaseLevel,
+  type TypeDeclaration,
+} from "./types";
 import { VariableDeclarationEmitter } from "./variable-declaration-emitter";
 
 /**
  * Read the package version from the local package.json.
- * Falls back to the string "unversioned" when the package file cannot be read
- * (e.g. in unit-test or non-installed contexts).
- * @returns The version string or "unversioned" when unavailable.
+ * Returns null when the package file cannot be read (e.g. in unit-test or
+ * non-installed contexts); the banner then falls back to "unversioned".
+ * @returns The version string, empty when the package has none (e.g. in a
+ * development checkout), or null when unavailable.
  */
-function getVersion(): string {
+export function getVersion(): string | null {
   try {
     // eslint-disable-next-line @typescript-eslint/naming-convention
     const __dirname = path.dirname(fileURLToPath(import.meta.url));
     const pkgPath = path.resolve(__dirname, "../package.json");
-    const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8")) as { version?: string };
-    return pkg.version || "unversioned";
+    const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8")) as { version?: unknown };
+    return typeof pkg.version === "string" ? pkg.version : "";
   } catch {
-    return "unversioned";
+    return null;
   }
 }
 
@@ -40,13 +63,68 @@ export type OutputGeneratorOptions = {
    */
   noBanner?: boolean;
   /**
-   * When true, sort declaration nodes by kind to produce a stable, human-friendly order.
+   * Text replacing the generated banner, emitted as is.
+   */
+  banner?: string;
+  /**
+   * Text emitted as is at the end of the file.
+   */
+  footer?: string;
+  /**
+   * Legal comments of the bundled files, emitted as is after the banner.
+   */
+  legalComments?: string[];
+  /**
+   * When true, drop the legal comments leading declarations, which are
+   * emitted apart (see `legalComments`).
    */
-  sortNodes?: boolean;
+  stripLegalComments?: boolean;
+  /**
+   * Comments kept in the declarations, from the `comments` and
+   * `stripJsDocTags` options. When unset, JSDoc is kept for the declarations
+   * of the public API and other comments are kept as printed.
+   */
+  commentPolicy?: CommentPolicy;
+  /**
+   * Strategy ordering the declarations. When unset, declarations keep the
+   * order of `topologicalSort()`.
+   */
+  order?: DeclarationOrder;
+  /**
+   * How exported declarations are written. When unset, each export keeps the
+   * form of its source.
+   */
+  exportStyle?: ExportStyle;
   /**
    * When provided, emit a UMD `export as namespace <name>;` declaration.
    */
   umdModuleName?: string;
+  /**
+   * When provided, wrap the imports, declarations and exports in an ambient
+   * `declare module "<name>" { ... }` block.
+   */
+  ambientModule?: string;
+  /**
+   * When true, emit a global script: exported declarations become globals
+   * and external imports become `import("...")` types. Exports without a
+   * global form are reported as errors.
+   */
+  globalScript?: boolean;
+  /**
+   * With `globalScript`, wrap the declarations in a `declare namespace <name>`
+   * block instead of declaring them as globals.
+   */
+  globalNamespace?: string;
+  /**
+   * Format the output is reformatted to. When unset, the output keeps the
+   * default format it is printed in.
+   */
+  format?: ResolvedOutputFormat;
+  /**
+   * Transformers applied, in order, to the statement of every declaration
+   * before it is printed (see the `transformDeclaration` plugin hook).
+   */
+  declarationTransformers?: ts.TransformerFactory<ts.Node>[];
   /**
    * When true, include an `export {};` marker in the output to ensure the
    * file is treated as a module when no exports are otherwise present.
@@ -110,6 +188,16 @@ export type OutputGeneratorOptions = {
    * such as ordering and exported-name resolution.
    */
   entryFile?: string;
+  /**
+   * Optional parsed entry file, read through the bundle's file system; used
+   * to resolve names re-exported by the entry.
+   */
+  entrySourceFile?: ts.SourceFile;
+  /**
+   * Optional file system the bundle was read from; used to resolve the real
+   * paths of re-exported files. Defaults to `ts.sys`.
+   */
+  system?: ts.System;
   /**
    * Optional set of files directly imported by the entry; used to bias ordering.
    */
@@ -119,6 +207,21 @@ export type OutputGeneratorOptions = {
    * provided, the topological sort will prefer this ordering for emitted declarations.
    */
   declarationOrder?: Map<symbol, number>;
+  /**
+   * Optional reporter receiving warnings about degraded output, such as a
+   * missing version for the banner or return types emitted as `void`.
+   */
+  diagnostics?: DiagnosticReporter;
+  /**
+   * When true, build a declaration map for the printed declarations,
+   * available from `getDeclarationMap()` after `generate()`.
+   */
+  declarationMap?: boolean;
+  /**
+   * Optional release level the bundle is trimmed to; members tagged with a
+   * less public release tag are removed from the printed declarations.
+   */
+  releaseLevel?: ReleaseLevel;
   /**
    * Optional resolver used to decide whether `import("...")` type nodes
    * should be inlined (resolved to local files) or kept as external imports.
@@ -164,6 +267,14 @@ export class OutputGenerator {
   private namespaceValueAliasesByFile: Map<string, Set<string>>;
   /** Cached entry export analysis produced by `buildEntryExportData`. */
   private entryExportData: EntryExportData | null = null;
+  /** Declarations printed in each chunk of the declarations section (parallel to its lines). */
+  private declarationChunks: TypeDeclaration[][] = [];
+  /** Output line ranges (0-based, end exclusive) of the declaration chunks printed by `generate()`. */
+  private declarationRanges: { start: number; end: number; declarations: TypeDeclaration[] }[] = [];
+  /** Declaration map built by `generate()` when the `declarationMap` option is set. */
+  private declarationMap: RawSourceMap | null = null;
+  /** Exports and declarations found by `generate()` to have no form in a global script. */
+  private globalScriptErrors: BundleDiagnostic[] = [];
   /** Options controlling generation behaviour. */
   private options: OutputGeneratorOptions;
 
@@ -186,6 +297,9 @@ export class OutputGenerator {
           (name) => this.extraDefaultExports.add(name),
           this.astPrinter,
           (declarations) => this.buildRenameMapForDeclarations(declarations),
+          options.globalScript ? (declarations) => this.buildImportTypeMap(declarations) : undefined,
+          options.declarationTransformers,
+          options.commentPolicy,
         )
       : null;
     this.options = options;
@@ -200,22 +314,60 @@ export class OutputGenerator {
   generate(): string {
     const lines: string[] = [];
 
-    const version = getVersion();
-    const banner = !this.options.noBanner ? `// Generated by @qlik/dts-bundler@${version}` : null;
+    let banner: string | null = this.options.banner ?? null;
+    if (!this.options.noBanner && !banner) {
+      const version = getVersion();
+      if (version === null) {
+        this.options.diagnostics?.warning(
+          DiagnosticCode.UnknownVersion,
+          'Cannot read the @qlik/dts-bundler version; the banner uses "unversioned"',
+        );
+      }
+      // A package without a version (e.g. a development checkout) is not an error
+      banner = `// Generated by @qlik/dts-bundler${version === "" ? "" : `@${version ?? "unversioned"}`}`;
+    }
     const referenceDirectives = this.generateReferenceDirectives();
     const externalPrelude = this.generateExternalPrelude();
 
     this.buildNameMap();
-    const declarations = this.generateDeclarations();
+    let declarations = this.generateDeclarations();
+    if (this.options.stripLegalComments) {
+      declarations = declarations.map(stripLeadingLegalComments);
+    }
     const namespaces = this.generateNamespaces();
     const exportEquals = this.generateExportEquals();
     const starExports = this.generateStarExports();
     const namespaceExports = this.generateNamespaceExports();
-    const namedExports = this.generateNamedExports();
+    const { exportListItems, exportListTypeOnlyItems } = this.getEntryExportData();
+    let exportList: ExportList = { items: exportListItems, typeOnlyItems: exportListTypeOnlyItems };
+    if (this.options.exportStyle === "list") {
+      ({ chunks: declarations, list: exportList } = moveExportsToList(declarations, {
+        items: [...namespaceExports.exportNames, ...exportList.items],
+        typeOnlyItems: exportList.typeOnlyItems,
+      }));
+      namespaceExports.exportNames = [];
+    } else if (this.options.exportStyle === "inline") {
+      ({ chunks: declarations, list: exportList } = moveExportsInline(declarations, exportList));
+      const inlined = moveExportsInline(namespaceExports.blocks, {
+        items: namespaceExports.exportNames,
+        typeOnlyItems: new Set(),
+      });
+      namespaceExports.blocks = inlined.chunks;
+      namespaceExports.exportNames = inlined.list.items;
+    }
+    const namedExports = this.generateNamedExports(exportList);
     const exportDefault = this.generateExportDefault();
 
+    const isGlobalScript = this.options.globalScript ?? false;
+    if (isGlobalScript) {
+      this.checkGlobalScriptExports(exportEquals, starExports, exportDefault);
+    }
+
     const umdDeclaration = this.options.umdModuleName ? [`export as namespace ${this.options.umdModuleName};`] : [];
-    const emptyExport = this.options.includeEmptyExport ? ["export {};"] : [];
+    const emptyExport = this.options.includeEmptyExport && !isGlobalScript ? ["export {};"] : [];
+    // A global script declares every top-level name globally, so export lists
+    // are only kept inside a global namespace
+    const keepExportLists = !isGlobalScript || this.options.globalNamespace !== undefined;
 
     const appendSection = (section: string[]): void => {
       if (section.length === 0) return;
@@ -226,10 +378,16 @@ export class OutputGenerator {
     if (banner) {
       lines.push(banner);
     }
+    if (this.options.legalComments && this.options.legalComments.length > 0) {
+      appendSection([this.options.legalComments.join("\n\n")]);
+    }
+    const verbatimEnd = lines.length;
 
     appendSection(referenceDirectives);
-    appendSection(externalPrelude.lines);
+    const moduleStart = lines.length;
+    appendSection(isGlobalScript ? [] : externalPrelude.lines);
     appendSection(namespaces);
+    let declarationsStart = lines.length + (declarations.length > 0 && lines.length > 0 ? 1 : 0);
     appendSection(declarations);
 
     // export = should appear immediately after declarations without blank line
@@ -240,12 +398,12 @@ export class OutputGenerator {
     appendSection(starExports);
 
     appendSection(namespaceExports.blocks);
-    if (namespaceExports.exportList.length > 0) {
+    if (namespaceExports.exportNames.length > 0 && keepExportLists) {
       if (lines.length > 0) lines.push("");
-      lines.push(...namespaceExports.exportList);
+      lines.push(`export { ${namespaceExports.exportNames.join(", ")} };`);
     }
 
-    if (namedExports.length > 0) {
+    if (namedExports.length > 0 && keepExportLists) {
       if (lines.length > 0) lines.push("");
       lines.push(...namedExports);
     }
@@ -259,7 +417,217 @@ export class OutputGenerator {
     appendSection(umdDeclaration);
     appendSection(emptyExport);
 
-    return `${lines.join("\n")}\n`;
+    if (isGlobalScript && this.options.globalNamespace === undefined) {
+      lines.splice(
+        moduleStart,
+        lines.length - moduleStart,
+        ...lines.slice(moduleStart).map(OutputGenerator.toGlobalChunk),
+      );
+    } else if (isGlobalScript) {
+      lines.forEach((chunk, index) => {
+        if (index >= declarationsStart && OutputGenerator.getDeclareGlobalLine(chunk) >= 0) {
+          const node = this.declarationChunks[index - declarationsStart]?.[0]?.node;
+          const message = `A 'declare global' block cannot be nested in the global namespace '${this.options.globalNamespace}'`;
+          this.globalScriptErrors.push(createDiagnostic(DiagnosticCode.GlobalScriptExport, "error", message, node));
+        }
+      });
+    }
+
+    const wrapperHeader = this.options.ambientModule
+      ? `declare module ${JSON.stringify(this.options.ambientModule)} {`
+      : isGlobalScript && this.options.globalNamespace !== undefined
+        ? `declare namespace ${this.options.globalNamespace} {`
+        : null;
+    if (wrapperHeader) {
+      const body = lines.splice(moduleStart);
+      // Drop the blank line separating the block from the reference directives
+      const separatorCount = body[0] === "" ? 1 : 0;
+      if (lines.length > 0) lines.push("");
+      lines.push(wrapperHeader);
+      declarationsStart += lines.length - moduleStart - separatorCount;
+      lines.push(...body.slice(separatorCount).map(OutputGenerator.toAmbientModuleChunk), "}");
+    }
+
+    if (this.globalScriptErrors.length > 0) {
+      throw new BundleDiagnosticError("Cannot emit the bundle as a global script:", this.globalScriptErrors);
+    }
+
+    // The banner, legal comments and footer are kept as they are written
+    const format = this.options.format;
+    if (format) {
+      lines.splice(
+        0,
+        lines.length,
+        ...lines.map((chunk, index) => (index < verbatimEnd ? chunk : formatOutputChunk(chunk, format))),
+      );
+    }
+    if (this.options.footer) {
+      appendSection([this.options.footer]);
+    }
+
+    this.declarationRanges = this.collectDeclarationRanges(lines, declarationsStart);
+    if (this.options.declarationMap) {
+      this.declarationMap = this.buildDeclarationMap(lines, declarationsStart);
+    }
+
+    return joinOutputLines(lines, format ?? DEFAULT_OUTPUT_FORMAT);
+  }
+
+  /**
+   * Indent a chunk of output for the body of an ambient module or namespace,
+   * removing the `declare` keyword of its top-level statements, which is an
+   * error in an ambient context.
+   */
+  private static toAmbientModuleChunk(chunk: string): string {
+    return chunk
+      .split("\n")
+      .map((line) => (line === "" ? line : `  ${line.replace(/^((?:export )?(?:default )?)declare /, "$1")}`))
+      .join("\n");
+  }
+
+  /**
+   * Get the line of a chunk of output opening its `declare global` block,
+   * after its leading comments.
+   * @returns The index of the line, or -1 when the chunk is not a `declare global` block
+   */
+  private static getDeclareGlobalLine(chunk: string): number {
+    const lines = chunk.split("\n");
+    const statementLine = lines.findIndex((line) => !/^\s*(\/\*\*|\*|\/\/)/.test(line));
+    return statementLine >= 0 && lines[statementLine] === "declare global {" && lines[lines.length - 1] === "}"
+      ? statementLine
+      : -1;
+  }
+
+  /**
+   * Turn a chunk of output into global declarations: the `export` keyword of
+   * its top-level statements is removed, and a `declare global` block is
+   * unwrapped, since a script cannot contain one.
+   */
+  private static toGlobalChunk(chunk: string): string {
+    const lines = chunk.split("\n");
+    const statementLine = OutputGenerator.getDeclareGlobalLine(chunk);
+    if (statementLine >= 0) {
+      const body = lines
+        .slice(statementLine + 1, -1)
+        .map((line) => (line.startsWith("  ") ? line.slice(2) : line))
+        .map((line) =>
+          line.replace(/^(?=(?:function|var|let|const|class|abstract class|enum|namespace|module) )/, "declare "),
+        );
+      return [...lines.slice(0, statementLine), ...body].join("\n");
+    }
+    return lines.map((line) => line.replace(/^export (?!\{|\*|=|default\b|as\b|type \{)/, "")).join("\n");
+  }
+
+  /**
+   * Report the exports of the entry that a global script cannot declare:
+   * `export =`, default exports, re-exports of external modules and, outside
+   * of a global namespace, exports renamed by an export list.
+   * @param exportEquals - Lines of the `export =` section
+   * @param starExports - Lines of the `export * from` section
+   * @param exportDefault - Lines of the default export section
+   */
+  private checkGlobalScriptExports(exportEquals: string[], starExports: string[], exportDefault: string[]): void {
+    const report = (message: string, node?: ts.Node): void => {
+      this.globalScriptErrors.push(
+        createDiagnostic(DiagnosticCode.GlobalScriptExport, "error", `${message} in a global script`, node),
+      );
+    };
+
+    if (exportEquals.length > 0) {
+      report(`'${exportEquals[0]}' cannot be represented`, this.options.entryExportEquals ?? undefined);
+    }
+    if (exportDefault.length > 0) {
+      report("The default export cannot be represented", this.options.entryExportDefault ?? undefined);
+    }
+    for (const line of starExports) {
+      report(`'${line}' cannot be represented`);
+    }
+
+    const { exportFromByModule, exportListItems } = this.getEntryExportData();
+    for (const [moduleName, items] of exportFromByModule) {
+      for (const item of items) {
+        report(
+          `Export '${OutputGenerator.extractImportName(item)}' re-exported from "${moduleName}" cannot be represented`,
+        );
+      }
+    }
+
+    const externalModules = new Map<string, string>();
+    for (const [moduleName, imports] of this.usedExternals) {
+      for (const externalImport of imports) {
+        externalModules.set(OutputGenerator.extractImportName(externalImport.normalizedName), moduleName);
+      }
+    }
+    for (const item of exportListItems) {
+      const [localName, exportedName = localName] = item.split(" as ").map((part) => part.trim());
+      const moduleName = externalModules.get(localName);
+      if (moduleName) {
+        report(`Export '${exportedName}' re-exported from "${moduleName}" cannot be represented`);
+      } else if (exportedName !== localName && this.options.globalNamespace === undefined) {
+        report(`Export '${exportedName}' of '${localName}' cannot be renamed`);
+      }
+    }
+  }
+
+  /**
+   * Return the declaration map built by `generate()`, with absolute source
+   * paths, or null when the `declarationMap` option is not set.
+   */
+  getDeclarationMap(): RawSourceMap | null {
+    return this.declarationMap;
+  }
+
+  /**
+   * Move the declaration map and the declaration lines of the output of
+   * `generate()` down, after lines were added above the output.
+   * @param lineCount - Number of added lines
+   */
+  shiftLines(lineCount: number): void {
+    this.declarationRanges = this.declarationRanges.map((range) => ({
+      ...range,
+      start: range.start + lineCount,
+      end: range.end + lineCount,
+    }));
+    if (this.declarationMap) {
+      this.declarationMap = { ...this.declarationMap, mappings: ";".repeat(lineCount) + this.declarationMap.mappings };
+    }
+  }
+
+  /**
+   * Return the declarations printed on a line of the output of `generate()`.
+   * @param line - 0-based line of the output
+   * @returns The declarations of the chunk containing the line; empty outside
+   * of the declarations section
+   */
+  getDeclarationsAtLine(line: number): TypeDeclaration[] {
+    return this.declarationRanges.find(({ start, end }) => line >= start && line < end)?.declarations ?? [];
+  }
+
+  /**
+   * Return the sorted names of the types libraries referenced via
+   * `/// <reference types="..." />` directives in the generated output.
+   */
+  getReferencedTypesLibraries(): string[] {
+    const { referencedTypes, allowedTypesLibraries, detectedTypesLibraries } = this.options;
+    const typesToReference = new Set<string>();
+
+    if (referencedTypes && allowedTypesLibraries) {
+      for (const typeName of referencedTypes) {
+        if (allowedTypesLibraries.includes(typeName)) {
+          typesToReference.add(typeName);
+        }
+      }
+    }
+
+    if (detectedTypesLibraries) {
+      for (const typeName of detectedTypesLibraries) {
+        if (!allowedTypesLibraries || allowedTypesLibraries.includes(typeName)) {
+          typesToReference.add(typeName);
+        }
+      }
+    }
+
+    return Array.from(typesToReference).sort();
   }
 
   /**
@@ -311,14 +679,15 @@ export class OutputGenerator {
   /**
    * Produce a named export list for the entry file (e.g. `export { A, B }`).
    * This will use `export type` when all exported items are type-only.
+   * @param exportList - Items of the list, after the export style is applied
    */
-  private generateNamedExports(): string[] {
-    const { exportListItems, exportListTypeOnlyItems, exportListExternalDefaults } = this.getEntryExportData();
+  private generateNamedExports({ items: exportListItems, typeOnlyItems }: ExportList): string[] {
+    const { exportListExternalDefaults } = this.getEntryExportData();
     if (exportListItems.length === 0) {
       return [];
     }
 
-    const isTypeOnlyExport = exportListItems.every((item) => exportListTypeOnlyItems.has(item));
+    const isTypeOnlyExport = exportListItems.every((item) => typeOnlyItems.has(item));
     const exportPrefix = isTypeOnlyExport ? "export type" : "export";
 
     const useMultilineForExternalDefaults =
@@ -351,6 +720,7 @@ export class OutputGenerator {
       usedDeclarations: this.usedDeclarations,
       entryFile: this.options.entryFile,
       nameMap: this.nameMap,
+      system: this.options.system ?? ts.sys,
       getNormalizedExternalImportName: (moduleName: string, importName: string) =>
         this.getNormalizedExternalImportName(moduleName, importName),
       extractImportName: (s: string) => OutputGenerator.extractImportName(s),
@@ -374,8 +744,10 @@ export class OutputGenerator {
 
     try {
       const entryDir = path.dirname(entryFile);
-      const sourceText = fs.readFileSync(entryFile, "utf8");
-      const sourceFile = ts.createSourceFile(entryFile, sourceText, ts.ScriptTarget.Latest, true);
+      const sourceFile = this.options.entrySourceFile;
+      if (!sourceFile) {
+        return aliasMap;
+      }
 
       for (const statement of sourceFile.statements) {
         if (!ts.isExportDeclaration(statement)) continue;
@@ -626,11 +998,11 @@ export class OutputGenerator {
     const entryNamespaceNames = new Set(this.registry.entryNamespaceExports.map((entry) => entry.name));
 
     const sorted = this.topologicalSort();
-    const ordered = this.options.sortNodes
-      ? [...sorted].sort((a, b) => {
-          const rank = OutputGenerator.getSortRank(a) - OutputGenerator.getSortRank(b);
-          if (rank !== 0) return rank;
-          return a.normalizedName.localeCompare(b.normalizedName);
+    const order = this.options.order;
+    const ordered = order
+      ? orderDeclarations(sorted, order, {
+          fileOrder: Array.from(this.registry.declarationsByFile.keys()),
+          entryExports: order === "entry-exports" ? this.getEntryExportDeclarations() : [],
         })
       : sorted;
 
@@ -678,6 +1050,9 @@ export class OutputGenerator {
           );
           if (groupLines.length > 0) {
             lines.push(...groupLines);
+            for (let i = 0; i < groupLines.length; i++) {
+              this.declarationChunks.push(group.declarations);
+            }
             continue;
           }
         }
@@ -737,10 +1112,17 @@ export class OutputGenerator {
         stripConstEnum,
         this.options.typeChecker,
         declaration.mergeGroup !== null,
+        this.options.diagnostics,
+        this.options.releaseLevel,
+        this.options.declarationTransformers,
       );
       const renameMap = this.buildRenameMap(declaration);
       const qualifiedNameMap = this.buildQualifiedNameMap(declaration);
       const namespaceImportNames = OutputGenerator.buildNamespaceImportNames(declaration);
+      const importTypes = this.options.globalScript ? this.buildImportTypeMap([declaration]) : undefined;
+      if (importTypes) {
+        this.checkGlobalScriptHeritage(declaration, importTypes);
+      }
       const printed = this.astPrinter.printStatement(transformedStatement, declaration.sourceFileNode, {
         renameMap,
         qualifiedNameMap,
@@ -748,14 +1130,138 @@ export class OutputGenerator {
         preserveGlobalReferences: true,
         namespaceImportNames,
         stripImportType: (node) => this.shouldStripImportType(node, declaration.sourceFileNode),
+        importTypes,
       });
-      const preserveJsDoc = OutputGenerator.shouldPreserveJsDoc(declaration, shouldHaveExport);
-      lines.push(normalizePrintedStatement(printed, declaration.node, declaration.getText(), { preserveJsDoc }));
+      lines.push(this.normalizeDeclarationStatement(printed, declaration, shouldHaveExport));
+      this.declarationChunks.push([declaration]);
     }
 
     return lines;
   }
 
+  /**
+   * Compute the output line range of every declaration chunk.
+   * @param lines - Output chunks as joined by `generate()`
+   * @param declarationsStart - Index of the first declaration chunk in `lines`
+   */
+  private collectDeclarationRanges(
+    lines: string[],
+    declarationsStart: number,
+  ): { start: number; end: number; declarations: TypeDeclaration[] }[] {
+    const ranges: { start: number; end: number; declarations: TypeDeclaration[] }[] = [];
+
+    let generatedLine = 0;
+    for (let index = 0; index < lines.length; index++) {
+      const lineCount = lines[index].split("\n").length;
+      const declarations = this.declarationChunks[index - declarationsStart] ?? [];
+      if (index >= declarationsStart && declarations.length > 0) {
+        ranges.push({ start: generatedLine, end: generatedLine + lineCount, declarations });
+      }
+      generatedLine += lineCount;
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Build a declaration map for the printed declarations. Each declaration
+   * chunk maps its first statement line to the start of the original
+   * statement, and the emitted name of each declaration (which may carry a
+   * `$N` suffix) and of its members to the original name, so that "Go to
+   * Definition" lands in the original sources.
+   * @param lines - Output chunks as joined by `generate()`
+   * @param declarationsStart - Index of the first declaration chunk in `lines`
+   */
+  private buildDeclarationMap(lines: string[], declarationsStart: number): RawSourceMap {
+    const builder = new SourceMapBuilder();
+
+    let generatedLine = 0;
+    for (let index = 0; index < lines.length; index++) {
+      const chunk = lines[index];
+      const declarations = this.declarationChunks[index - declarationsStart] ?? [];
+      if (index >= declarationsStart && declarations.length > 0) {
+        OutputGenerator.addChunkMappings(builder, chunk, generatedLine, declarations);
+      }
+      generatedLine += chunk.split("\n").length;
+    }
+
+    return builder.toSourceMap("");
+  }
+
+  /**
+   * Add the mappings of one printed declaration chunk.
+   */
+  private static addChunkMappings(
+    builder: SourceMapBuilder,
+    chunk: string,
+    chunkLine: number,
+    declarations: TypeDeclaration[],
+  ): void {
+    const chunkLines = chunk.split("\n");
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of chunkLines) {
+      lineStarts.push(offset);
+      offset += line.length + 1;
+    }
+    const toGenerated = (position: number): { line: number; column: number } => {
+      let line = lineStarts.length - 1;
+      while (lineStarts[line] > position) line--;
+      return { line: chunkLine + line, column: position - lineStarts[line] };
+    };
+
+    const first = declarations[0];
+    const sourceFile = first.sourceFileNode;
+    const addMapping = (position: number, node: ts.Node, name?: string): void => {
+      const generated = toGenerated(position);
+      const original = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      builder.addMapping({
+        generatedLine: generated.line,
+        generatedColumn: generated.column,
+        source: first.sourceFile,
+        originalLine: original.line,
+        originalColumn: original.character,
+        name,
+      });
+    };
+
+    // Skip JSDoc and line comments preceding the statement
+    const statementLine = chunkLines.findIndex((line) => !/^\s*(\/\*\*|\*|\/\/)/.test(line));
+    if (statementLine < 0) return;
+    let searchFrom =
+      lineStarts[statementLine] + (chunkLines[statementLine].length - chunkLines[statementLine].trimStart().length);
+    addMapping(searchFrom, first.node);
+
+    const findName = (name: string): number => {
+      const pattern = new RegExp(`(?<![\\w$])${name.replace(/[.*+?^${}()|[\]\\/$-]/g, "\\$&")}(?![\\w$])`, "g");
+      pattern.lastIndex = searchFrom;
+      const match = pattern.exec(chunk);
+      return match ? match.index : -1;
+    };
+
+    for (const declaration of declarations) {
+      const nameNode =
+        declaration.variableDeclaration?.name ?? ts.getNameOfDeclaration(declaration.node as ts.Declaration);
+      if (!nameNode || !(ts.isIdentifier(nameNode) || ts.isStringLiteral(nameNode))) continue;
+      const position = findName(declaration.normalizedName);
+      if (position < 0) continue;
+      addMapping(position, nameNode, declaration.name);
+      searchFrom = position + declaration.normalizedName.length;
+
+      const node = declaration.node;
+      if (ts.isInterfaceDeclaration(node) || ts.isClassDeclaration(node) || ts.isEnumDeclaration(node)) {
+        for (const member of node.members) {
+          const memberName = member.name;
+          if (!memberName || !(ts.isIdentifier(memberName) || ts.isStringLiteral(memberName))) continue;
+          const memberPosition = findName(memberName.text);
+          if (memberPosition < 0) continue;
+          addMapping(memberPosition, memberName, memberName.text);
+          searchFrom = memberPosition + memberName.text.length;
+        }
+      }
+    }
+  }
+
   /**
    * Produce namespace declaration blocks for namespaces that are referenced
    * as values in emitted declarations.
@@ -962,16 +1468,16 @@ export class OutputGenerator {
   }
 
   /**
-   * Compose namespace export blocks and a single export-list for the entry
-   * file. Namespace blocks are emitted above declarations and the export list
-   * is appended later.
+   * Compose namespace export blocks and the names of a single export-list for
+   * the entry file. Namespace blocks are emitted above declarations and the
+   * export list is appended later.
    */
-  private generateNamespaceExports(): { blocks: string[]; exportList: string[] } {
+  private generateNamespaceExports(): { blocks: string[]; exportNames: string[] } {
     const blocks: string[] = [];
     const exportNames: string[] = [];
 
     if (this.registry.entryNamespaceExports.length === 0) {
-      return { blocks, exportList: [] };
+      return { blocks, exportNames };
     }
 
     const depthCache = new Map<string, number>();
@@ -993,8 +1499,7 @@ export class OutputGenerator {
       exportNames.push(entry.name);
     }
 
-    const exportList = exportNames.length > 0 ? [`export { ${exportNames.join(", ")} };`] : [];
-    return { blocks, exportList };
+    return { blocks, exportNames };
   }
 
   /**
@@ -1119,12 +1624,7 @@ export class OutputGenerator {
 
     const originalName = exported.originalName ?? exportedName;
     const normalizedName =
-      this.nameMap.get(`${sourceFile}:${originalName}`) ??
-      this.nameMap.get(`${sourceFile.replace(/\\/g, "/")}:${originalName}`) ??
-      this.nameMap.get(`${path.resolve(sourceFile)}:${originalName}`) ??
-      this.nameMap.get(`${path.resolve(sourceFile).replace(/\\/g, "/")}:${originalName}`) ??
-      (fs.existsSync(sourceFile) ? this.nameMap.get(`${fs.realpathSync(sourceFile)}:${originalName}`) : undefined) ??
-      originalName;
+      lookupNormalizedName(this.nameMap, sourceFile, originalName, this.options.system ?? ts.sys) ?? originalName;
 
     const value = normalizedName === exportedName ? exportedName : `${normalizedName} as ${exportedName}`;
     const declId = this.registry.getFirstDeclarationIdByKey(`${sourceFile}:${originalName}`);
@@ -1204,6 +1704,38 @@ export class OutputGenerator {
     return `${sourceFile}:${statement.pos}:${statement.end}`;
   }
 
+  /**
+   * Get the used declarations the entry exports, in the order of its exports.
+   * Merged declarations of an export follow each other, and exports of
+   * `export *` statements come last.
+   */
+  private getEntryExportDeclarations(): TypeDeclaration[] {
+    const checker = this.options.typeChecker;
+    const entrySourceFile = this.options.entrySourceFile;
+    const entrySymbol = entrySourceFile && checker?.getSymbolAtLocation(entrySourceFile);
+    if (!checker || !entrySymbol) {
+      return [];
+    }
+    const getEntryPosition = (symbol: ts.Symbol): number =>
+      symbol.declarations?.find((node) => node.getSourceFile() === entrySourceFile)?.getStart() ?? Infinity;
+
+    const byNode = new Map<ts.Node, TypeDeclaration>();
+    for (const id of this.usedDeclarations) {
+      const declaration = this.registry.getDeclaration(id);
+      if (declaration) {
+        byNode.set(declaration.variableDeclaration ?? declaration.node, declaration);
+      }
+    }
+    const exportSymbols = checker
+      .getExportsOfModule(entrySymbol)
+      .map((symbol) => ({ symbol, position: getEntryPosition(symbol) }))
+      .sort((a, b) => a.position - b.position);
+    return exportSymbols.flatMap(({ symbol: exportSymbol }) => {
+      const symbol = exportSymbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exportSymbol) : exportSymbol;
+      return (symbol.declarations ?? []).flatMap((node) => byNode.get(node) ?? []);
+    });
+  }
+
   /**
    * Topologically sort used declarations by dependencies so that referenced
    * declarations appear earlier in the output where required.
@@ -1490,6 +2022,54 @@ export class OutputGenerator {
     return names;
   }
 
+  /**
+   * Map the local names of the external imports of declarations to the
+   * module and export they refer to, for printing them as `import("...")`
+   * types in a global script.
+   */
+  private buildImportTypeMap(declarations: TypeDeclaration[]): Map<string, ImportTypeTarget> {
+    const importTypes = new Map<string, ImportTypeTarget>();
+    for (const declaration of declarations) {
+      for (const [moduleName, importNames] of declaration.externalDependencies.entries()) {
+        const moduleImports = this.registry.externalImports.get(moduleName);
+        for (const importName of importNames) {
+          const originalName = moduleImports?.get(importName)?.originalName ?? importName;
+          if (originalName.startsWith("* as ") || originalName.startsWith("= ")) {
+            importTypes.set(originalName.replace(/^(\* as|=) /, ""), { moduleName });
+          } else if (originalName.includes(" as ")) {
+            const [name, localName] = originalName.split(" as ").map((part) => part.trim());
+            importTypes.set(localName, { moduleName, importName: name });
+          } else {
+            importTypes.set(originalName, { moduleName, importName: originalName });
+          }
+        }
+      }
+    }
+    return importTypes;
+  }
+
+  /**
+   * Report heritage clauses extending an external import, which have no
+   * `import("...")` form in a global script.
+   */
+  private checkGlobalScriptHeritage(declaration: TypeDeclaration, importTypes: Map<string, ImportTypeTarget>): void {
+    const visit = (node: ts.Node): void => {
+      if (ts.isExpressionWithTypeArguments(node) && ts.isHeritageClause(node.parent)) {
+        let expression = node.expression;
+        while (ts.isPropertyAccessExpression(expression)) {
+          expression = expression.expression;
+        }
+        const target = ts.isIdentifier(expression) ? importTypes.get(expression.text) : undefined;
+        if (target) {
+          const message = `'${declaration.name}' extends '${node.expression.getText()}' imported from "${target.moduleName}", which cannot be referenced in a global script`;
+          this.globalScriptErrors.push(createDiagnostic(DiagnosticCode.GlobalScriptExport, "error", message, node));
+        }
+      }
+      node.forEachChild(visit);
+    };
+    visit(declaration.node);
+  }
+
   /**
    * Build a map of qualified names from namespace imports to normalized
    * declaration names for use when printing qualified name references.
@@ -1645,57 +2225,19 @@ export class OutputGenerator {
     return importStr;
   }
 
-  /**
-   * Return a sort rank used when `sortNodes` option is enabled. The rank is
-   * based on the declaration kind to produce a stable, human-friendly order.
-   */
-  private static getSortRank(declaration: TypeDeclaration): number {
-    const node = declaration.node;
-    if (ts.isInterfaceDeclaration(node)) return 1;
-    if (ts.isTypeAliasDeclaration(node)) return 2;
-    if (ts.isClassDeclaration(node)) return 3;
-    if (ts.isEnumDeclaration(node)) return 4;
-    if (ts.isModuleDeclaration(node)) return 5;
-    return 10;
-  }
-
   /**
    * Build triple-slash `reference` directives for detected or allowed types
    * that should be referenced at the top of the generated file.
    */
   private generateReferenceDirectives(): string[] {
-    const directives: string[] = [];
-    const { referencedTypes, allowedTypesLibraries, detectedTypesLibraries } = this.options;
-    const typesToReference = new Set<string>();
-
-    if (referencedTypes && allowedTypesLibraries) {
-      for (const typeName of referencedTypes) {
-        if (allowedTypesLibraries.includes(typeName)) {
-          typesToReference.add(typeName);
-        }
-      }
-    }
-
-    if (detectedTypesLibraries) {
-      for (const typeName of detectedTypesLibraries) {
-        if (!allowedTypesLibraries || allowedTypesLibraries.includes(typeName)) {
-          typesToReference.add(typeName);
-        }
-      }
-    }
-
-    const sortedTypes = Array.from(typesToReference).sort();
-    for (const typeName of sortedTypes) {
-      directives.push(`/// <reference types="${typeName}" />`);
-    }
-
-    return directives;
+    return this.getReferencedTypesLibraries().map((typeName) => `/// <reference types="${typeName}" />`);
   }
 
   /**
    * Transform a declaration AST node into the form suitable for output.
    * Handles enum numeric value reconstruction, function return type inference,
-   * and various modifier adjustments.
+   * and various modifier adjustments, then applies the release trim, output
+   * and plugin transformers.
    */
   private static transformStatementForOutput(
     declaration: TypeDeclaration,
@@ -1704,6 +2246,9 @@ export class OutputGenerator {
     stripConstEnum: boolean,
     typeChecker?: ts.TypeChecker,
     forceExport = false,
+    diagnostics?: DiagnosticReporter,
+    releaseLevel?: ReleaseLevel,
+    declarationTransformers: ts.TransformerFactory<ts.Node>[] = [],
   ): ts.Node {
     let statement = declaration.node;
     const modifiersMap = modifiersToMap(getModifiers(statement));
@@ -1764,7 +2309,7 @@ export class OutputGenerator {
       const isDefaultExport =
         declaration.exportInfo.kind === ExportKind.Default || declaration.exportInfo.kind === ExportKind.DefaultOnly;
       if (!isDefaultExport) {
-        let returnTypeNode: ts.TypeNode = ts.factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword);
+        let returnTypeNode: ts.TypeNode | null = null;
         if (typeChecker) {
           const signature = typeChecker.getSignatureFromDeclaration(statement);
           if (signature) {
@@ -1790,6 +2335,14 @@ export class OutputGenerator {
             }
           }
         }
+        if (!returnTypeNode) {
+          diagnostics?.warning(
+            DiagnosticCode.ReturnTypeFallback,
+            `Cannot infer the return type of '${declaration.name}'; it is emitted as 'void'. Add an explicit return type annotation.`,
+            declaration.node,
+          );
+          returnTypeNode = ts.factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword);
+        }
         const updated = ts.factory.updateFunctionDeclaration(
           statement,
           statement.modifiers,
@@ -1819,7 +2372,11 @@ export class OutputGenerator {
 
     statement = recreateRootLevelNodeWithModifiers(statement, modifiersMap);
 
-    const result = ts.transform(statement, [OutputGenerator.createOutputTransformer()]);
+    const transformers = [OutputGenerator.createOutputTransformer(), ...declarationTransformers];
+    if (releaseLevel) {
+      transformers.unshift(createReleaseTrimTransformer(releaseLevel));
+    }
+    const result = ts.transform(statement, transformers);
     const transformed = result.transformed[0];
     result.dispose();
     return transformed;
@@ -2073,6 +2630,30 @@ export class OutputGenerator {
     return ts.getModifiers(node)?.some((mod) => mod.kind === ts.SyntaxKind.ConstKeyword) ?? false;
   }
 
+  /**
+   * Normalize the printed statement of a declaration and filter its comments
+   * with the comment policy, if any.
+   */
+  private normalizeDeclarationStatement(
+    printed: string,
+    declaration: TypeDeclaration,
+    shouldHaveExport: boolean,
+  ): string {
+    const preserveJsDoc = OutputGenerator.shouldPreserveJsDoc(declaration, shouldHaveExport);
+    const policy = this.options.commentPolicy;
+    if (!policy) {
+      return normalizePrintedStatement(printed, declaration.node, declaration.getText(), { preserveJsDoc });
+    }
+    const normalized = normalizePrintedStatement(
+      printed,
+      declaration.node,
+      declaration.getText(),
+      policy.comments === undefined ? { preserveJsDoc } : { preserveComments: policy.comments === "all" },
+    );
+    const isExported = shouldHaveExport || declaration.exportInfo.kind !== ExportKind.NotExported;
+    return applyCommentPolicy(normalized, policy, isExported);
+  }
+
   /**
    * Decide whether JSDoc/comments should be preserved when emitting a
    * declaration for the given declaration.
@@ -0,0 +1,205 @@
+import path from "node:path";
+import * as ts from "typescript";
+import { type ProgramConfig, resolveCompilerOptions, resolveTsConfigPath } from "./helpers/typescript-config";
+
+/**
+ * Subset of `package.json` fields used to locate type declarations.
+ */
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  types?: string;
+  typings?: string;
+  exports?: unknown;
+}
+
+/**
+ * A declaration file promised by a `package.json`, together with the
+ * subpath (`"."`, `"./react"`, ...) it is published under.
+ */
+export interface PackageTypesTarget {
+  subpath: string;
+  target: string;
+}
+
+/**
+ * A declaration file promised by a `package.json` mapped back to the source
+ * entry it is bundled from.
+ */
+export interface PackageTypesEntry {
+  subpath: string;
+  entry: string;
+  output: string;
+}
+
+const declarationExtensions = [".d.ts", ".d.mts", ".d.cts"];
+
+const sourceExtensionsByDeclarationExtension: Record<string, string[]> = {
+  ".d.ts": [".ts", ".tsx", ".d.ts"],
+  ".d.mts": [".mts", ".ts", ".tsx", ".d.mts", ".d.ts"],
+  ".d.cts": [".cts", ".ts", ".tsx", ".d.cts", ".d.ts"],
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect every `types` condition target reachable from an exports value,
+ * including nested conditions such as `{ import: { types, default } }`.
+ */
+function collectTypesConditions(value: unknown, result: string[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectTypesConditions(item, result);
+    }
+    return;
+  }
+
+  if (!isRecord(value)) {
+    return;
+  }
+
+  for (const [condition, conditionValue] of Object.entries(value)) {
+    if (condition === "types" && typeof conditionValue === "string") {
+      result.push(conditionValue);
+    } else {
+      collectTypesConditions(conditionValue, result);
+    }
+  }
+}
+
+/**
+ * Collect the declaration files a `package.json` promises through its
+ * `exports` map (`types` conditions) and the top-level `types`/`typings`
+ * fields. Targets are returned as written in the package.json.
+ * @param packageJson - Parsed package.json content
+ * @returns The declaration targets with their subpaths, without duplicates
+ */
+export function collectPackageTypesTargets(packageJson: PackageJson): PackageTypesTarget[] {
+  const targets: PackageTypesTarget[] = [];
+  const seen = new Set<string>();
+
+  const add = (subpath: string, target: string): void => {
+    if (subpath.includes("*") || target.includes("*")) {
+      throw new Error(`Subpath patterns are not supported in package.json exports: "${subpath}"`);
+    }
+    const key = `${subpath}:${target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    targets.push({ subpath, target });
+  };
+
+  const { exports } = packageJson;
+  const subpathEntries =
+    isRecord(exports) && Object.keys(exports).some((key) => key.startsWith("."))
+      ? Object.entries(exports)
+      : exports !== undefined
+        ? [[".", exports] as const]
+        : [];
+
+  for (const [subpath, value] of subpathEntries) {
+    const conditions: string[] = [];
+    collectTypesConditions(value, conditions);
+    for (const target of conditions) {
+      add(subpath, target);
+    }
+  }
+
+  const rootTypes = packageJson.types ?? packageJson.typings;
+  if (rootTypes) {
+    add(".", rootTypes);
+  }
+
+  return targets;
+}
+
+/**
+ * Map a declaration output path back to its source file using the
+ * `rootDir`/`outDir` layout of the compiler options.
+ * @returns The source file path, or null when no source file exists
+ */
+function findSourceForDeclaration(output: string, rootDir: string, outDir: string, system: ts.System): string | null {
+  const relativeOutput = path.relative(outDir, output);
+  if (relativeOutput.startsWith("..") || path.isAbsolute(relativeOutput)) {
+    return null;
+  }
+
+  const declarationExtension = declarationExtensions.find((ext) => relativeOutput.endsWith(ext));
+  if (!declarationExtension) {
+    return null;
+  }
+
+  const basePath = path.join(rootDir, relativeOutput.slice(0, -declarationExtension.length));
+  for (const ext of sourceExtensionsByDeclarationExtension[declarationExtension]) {
+    const candidate = `${basePath}${ext}`;
+    if (system.fileExists(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a `package.json` and resolve every declaration file it promises to
+ * the source entry it should be bundled from, using `rootDir` and `outDir`
+ * (or `declarationDir`) from the package's `tsconfig.json`.
+ * @param packagePath - Package directory or path to its package.json
+ * @param system - File system to read the package from
+ * @param config - Explicit tsconfig path and compiler option overrides
+ * @returns One entry per promised declaration file
+ * @throws When a promised declaration file cannot be produced from a source entry
+ */
+export function resolvePackageTypesEntries(
+  packagePath: string,
+  system: ts.System = ts.sys,
+  config: ProgramConfig = {},
+): PackageTypesEntry[] {
+  const resolvedPath = path.resolve(system.getCurrentDirectory(), packagePath);
+  const packageJsonPath = resolvedPath.endsWith("package.json")
+    ? resolvedPath
+    : path.join(resolvedPath, "package.json");
+
+  const packageJsonContent = system.readFile(packageJsonPath);
+  if (packageJsonContent === undefined) {
+    throw new Error(`Cannot find package.json at ${packageJsonPath}`);
+  }
+
+  const packageDir = path.dirname(packageJsonPath);
+  const packageJson = JSON.parse(packageJsonContent) as PackageJson;
+  const targets = collectPackageTypesTargets(packageJson);
+  if (targets.length === 0) {
+    throw new Error(`No "types" conditions or "types" field found in ${packageJsonPath}`);
+  }
+
+  const compilerOptions = resolveCompilerOptions(packageJsonPath, config, system);
+  const outDir = compilerOptions.declarationDir ?? compilerOptions.outDir;
+  if (!outDir) {
+    throw new Error(`The tsconfig.json for ${packageJsonPath} must set "outDir" or "declarationDir"`);
+  }
+  // Like TypeScript 6, emit relative to the directory of the tsconfig by default
+  const configPath = resolveTsConfigPath(packageJsonPath, config, system);
+  const rootDir = compilerOptions.rootDir ?? (configPath ? path.dirname(configPath) : packageDir);
+
+  const entries: PackageTypesEntry[] = [];
+  const unresolved: string[] = [];
+  for (const { subpath, target } of targets) {
+    const output = path.resolve(packageDir, target);
+    const entry = findSourceForDeclaration(output, rootDir, outDir, system);
+    if (entry) {
+      entries.push({ subpath, entry, output });
+    } else {
+      unresolved.push(`  "${subpath}": ${target}`);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new Error(
+      `The following declaration files in ${packageJsonPath} are not produced by the bundler ` +
+        `(no source entry found under ${rootDir}):\n${unresolved.join("\n")}`,
+    );
+  }
+
+  return entries;
+}
@@ -0,0 +1,102 @@
+import type * as ts from "typescript";
+import type { CollectedFile } from "./file-collector";
+import type { BundlePlugin, BundlePluginContext, ReleaseLevel, TypeDeclaration } from "./types";
+
+/**
+ * Hooks of a plugin called with arguments and run by `PluginHost`.
+ */
+type PluginHookName = Exclude<keyof BundlePlugin, "name" | "transformDeclaration">;
+
+/**
+ * Check the `plugins` option.
+ * @param plugins - Plugins given by the user
+ * @returns The plugins
+ * @throws {Error} When a plugin has no name
+ */
+export function resolvePlugins(plugins: BundlePlugin[] | undefined): BundlePlugin[] | undefined {
+  for (const plugin of plugins ?? []) {
+    if (typeof plugin?.name !== "string" || plugin.name === "") {
+      throw new Error("Every plugin of the 'plugins' option must have a 'name'");
+    }
+  }
+  return plugins && plugins.length > 0 ? plugins : undefined;
+}
+
+/**
+ * Runs the hooks of the plugins of a bundle at the boundaries of its phases.
+ * Errors thrown by a hook are rethrown with the name of the plugin and hook.
+ */
+export class PluginHost {
+  /** Plugins of the bundle, in order. */
+  private plugins: BundlePlugin[];
+  /** Context shared by the hooks of every plugin. */
+  private context: BundlePluginContext;
+
+  constructor(plugins: BundlePlugin[], context: BundlePluginContext) {
+    this.plugins = plugins;
+    this.context = context;
+  }
+
+  afterCollect(files: Map<string, CollectedFile>): void {
+    this.run("afterCollect", (plugin) => plugin.afterCollect?.(files, this.context));
+  }
+
+  afterParse(declarations: ReadonlyMap<symbol, TypeDeclaration>): void {
+    this.run("afterParse", (plugin) => plugin.afterParse?.(declarations, this.context));
+  }
+
+  afterShake(
+    keptIds: Set<symbol>,
+    declarations: ReadonlyMap<symbol, TypeDeclaration>,
+    releaseLevel: ReleaseLevel | undefined,
+  ): void {
+    const context = { ...this.context, releaseLevel };
+    this.run("afterShake", (plugin) => plugin.afterShake?.(keptIds, declarations, context));
+  }
+
+  /**
+   * Get the declaration transformers of the plugins, in order.
+   */
+  getDeclarationTransformers(): ts.TransformerFactory<ts.Node>[] {
+    return this.plugins.flatMap((plugin) => (plugin.transformDeclaration ? [this.wrapTransformer(plugin)] : []));
+  }
+
+  transformOutput(code: string, releaseLevel: ReleaseLevel | undefined): string {
+    const context = { ...this.context, releaseLevel };
+    let output = code;
+    this.run("transformOutput", (plugin) => {
+      if (plugin.transformOutput) {
+        output = plugin.transformOutput(output, context);
+      }
+    });
+    return output;
+  }
+
+  /**
+   * Call a hook of every plugin in order.
+   */
+  private run(hook: PluginHookName, call: (plugin: BundlePlugin) => void): void {
+    for (const plugin of this.plugins) {
+      PluginHost.callHook(plugin, hook, () => call(plugin));
+    }
+  }
+
+  /**
+   * Wrap the declaration transformer of a plugin so that its errors name the plugin.
+   */
+  private wrapTransformer(plugin: BundlePlugin): ts.TransformerFactory<ts.Node> {
+    const factory = plugin.transformDeclaration as ts.TransformerFactory<ts.Node>;
+    return (context) => {
+      const transform = PluginHost.callHook(plugin, "transformDeclaration", () => factory(context));
+      return (node) => PluginHost.callHook(plugin, "transformDeclaration", () => transform(node));
+    };
+  }
+
+  private static callHook<T>(plugin: BundlePlugin, hook: keyof BundlePlugin, call: () => T): T {
+    try {
+      return call();
+    } catch (error) {
+      throw new Error(`Plugin '${plugin.name}' failed in '${hook}': ${(error as Error).message}`, { cause: error });
+    }
+  }
+}
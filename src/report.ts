@@ -0,0 +1,118 @@
+import path from "node:path";
+import { getVersion } from "./output-generator";
+import type { BundleDiagnostic, BundlePhaseTimings, BundleResult, RenamedDeclarationInfo } from "./types";
+
+/**
+ * A bundle built by the CLI.
+ * - `name`: name of the config target the bundle was built for.
+ * - `entry`/`output`: absolute paths of the entry and output files.
+ */
+export interface ReportedBundle {
+  name?: string;
+  entry: string;
+  output: string;
+  result: BundleResult;
+}
+
+/**
+ * Statistics of one bundle in a `BundleReport`. Paths are relative to the
+ * working directory of the build.
+ * - `timings`: milliseconds spent in each bundling phase.
+ * - `files`: files collected for the bundle and files contributing declarations.
+ * - `declarations`: declarations parsed, emitted, removed by tree shaking and renamed.
+ * - `externalModules`: modules the bundle imports from, sorted.
+ */
+export interface BundleReportEntry {
+  name?: string;
+  entry: string;
+  output: string;
+  timings: BundlePhaseTimings;
+  files: { collected: number; included: number };
+  declarations: { total: number; emitted: number; removed: number; renamed: number };
+  externalModules: string[];
+  referencedTypesLibraries: string[];
+  renamedDeclarations: RenamedDeclarationInfo[];
+  diagnostics: BundleDiagnostic[];
+}
+
+/**
+ * Machine-readable report of a CLI run (`--report json`).
+ * - `version`: version of the bundler.
+ * - `timestamp`: ISO date of the end of the run.
+ * - `duration`: milliseconds the run took.
+ * - `diagnostics`: number of diagnostics of every bundle by severity.
+ * - `error`: message of the error that ended the run, if any.
+ */
+export interface BundleReport {
+  version: string | null;
+  timestamp: string;
+  duration: number;
+  bundles: BundleReportEntry[];
+  diagnostics: { errors: number; warnings: number };
+  error?: string;
+}
+
+function roundDuration(duration: number): number {
+  return Math.round(duration * 100) / 100;
+}
+
+function toReportPath(fileName: string, cwd: string): string {
+  return path.relative(cwd, fileName).split(path.sep).join("/") || ".";
+}
+
+function createReportEntry({ name, entry, output, result }: ReportedBundle, cwd: string): BundleReportEntry {
+  const { stats } = result;
+  const timings = Object.fromEntries(
+    Object.entries(stats.timings).map(([phase, duration]) => [phase, roundDuration(duration)]),
+  ) as unknown as BundlePhaseTimings;
+
+  return {
+    ...(name !== undefined && { name }),
+    entry: toReportPath(entry, cwd),
+    output: toReportPath(output, cwd),
+    timings,
+    files: { collected: stats.fileCount, included: result.includedFiles.length },
+    declarations: {
+      total: stats.declarationCount,
+      emitted: stats.declarationCount - result.removedDeclarations.length,
+      removed: result.removedDeclarations.length,
+      renamed: result.renamedDeclarations.length,
+    },
+    externalModules: [...new Set(result.externalImports.map(({ moduleName }) => moduleName))].sort(),
+    referencedTypesLibraries: result.referencedTypesLibraries,
+    renamedDeclarations: result.renamedDeclarations.map((declaration) => ({
+      ...declaration,
+      sourceFile: toReportPath(declaration.sourceFile, cwd),
+    })),
+    diagnostics: result.diagnostics.map((diagnostic) =>
+      diagnostic.file ? { ...diagnostic, file: toReportPath(diagnostic.file, cwd) } : diagnostic,
+    ),
+  };
+}
+
+/**
+ * Create the report of a CLI run.
+ * @param bundles - Bundles built by the run
+ * @param options - `duration` of the run in milliseconds, the `error` that
+ * ended it, and the `cwd` paths are made relative to
+ * @returns The report, ready to be serialized with `JSON.stringify`
+ */
+export function createBundleReport(
+  bundles: ReportedBundle[],
+  { duration, error, cwd = process.cwd() }: { duration: number; error?: Error; cwd?: string },
+): BundleReport {
+  const entries = bundles.map((bundle) => createReportEntry(bundle, cwd));
+  const diagnostics = entries.flatMap((entry) => entry.diagnostics);
+
+  return {
+    version: getVersion(),
+    timestamp: new Date().toISOString(),
+    duration: roundDuration(duration),
+    bundles: entries,
+    diagnostics: {
+      errors: diagnostics.filter(({ severity }) => severity === "error").length,
+      warnings: diagnostics.filter(({ severity }) => severity === "warning").length,
+    },
+    ...(error && { error: error.message }),
+  };
+}
@@ -1,6 +1,7 @@
 import * as ts from "typescript";
+import { type ReleaseTag, getReleaseTag, isReleaseTagIncluded } from "./helpers/release-tags";
 import type { TypeRegistry } from "./registry";
-import { ExportKind, type ExternalImport, type ImportInfo, type TypeDeclaration } from "./types";
+import { ExportKind, type ExternalImport, type ImportInfo, type ReleaseLevel, type TypeDeclaration } from "./types";
 
 /**
  * Perform tree-shaking analysis on the registry to determine which
@@ -28,6 +29,10 @@ export class TreeShaker {
   private entryImportedFiles: Set<string>;
   /** Optional set of files referenced by the entry (import types, etc.). */
   private entryReferencedFiles: Set<string>;
+  /** Optional release level; declarations and members tagged less public are trimmed. */
+  private releaseLevel?: ReleaseLevel;
+  /** Map of used declaration symbols to the trimmed declarations they reference. */
+  private trimmedReferences: Map<symbol, Set<symbol>>;
 
   /**
    * Create a `TreeShaker`.
@@ -37,6 +42,7 @@ export class TreeShaker {
    * @param options.entrySourceFile - Optional AST for the entry used to inspect export assignments.
    * @param options.entryImportedFiles - Optional set of files directly imported by the entry.
    * @param options.entryReferencedFiles - Optional set of files referenced by the entry (import types, etc.).
+   * @param options.releaseLevel - Optional release level the bundle is trimmed to.
    */
   constructor(
     registry: TypeRegistry,
@@ -46,6 +52,7 @@ export class TreeShaker {
       entrySourceFile?: ts.SourceFile;
       entryImportedFiles?: Set<string>;
       entryReferencedFiles?: Set<string>;
+      releaseLevel?: ReleaseLevel;
     } = {},
   ) {
     this.registry = registry;
@@ -58,6 +65,8 @@ export class TreeShaker {
     this.entrySourceFile = options.entrySourceFile;
     this.entryImportedFiles = options.entryImportedFiles ?? new Set();
     this.entryReferencedFiles = options.entryReferencedFiles ?? new Set();
+    this.releaseLevel = options.releaseLevel;
+    this.trimmedReferences = new Map();
   }
 
   shake(): {
@@ -65,12 +74,20 @@ export class TreeShaker {
     externalImports: Map<string, Set<ExternalImport>>;
     detectedTypesLibraries: Set<string>;
     declarationOrder: Map<symbol, number>;
+    trimmedReferences: Map<symbol, Set<symbol>>;
   } {
     /**
      * Run the tree-shaking algorithm and return the set of declarations and
      * external imports that must be emitted. The result also includes any
-     * detected `@types` libraries and a declaration ordering map.
+     * detected `@types` libraries, a declaration ordering map and the
+     * trimmed declarations referenced by used ones.
      */
+    // The registry is shaken once per release level
+    for (const declaration of this.registry.declarations.values()) {
+      declaration.usedInGlobal = false;
+      declaration.usedInNonGlobal = false;
+    }
+
     const declarationOrder = this.buildDeclarationOrder();
 
     for (const declaration of this.registry.declarations.values()) {
@@ -122,6 +139,7 @@ export class TreeShaker {
       externalImports: this.collectUsedExternalImports(),
       detectedTypesLibraries: this.collectDetectedTypesLibraries(),
       declarationOrder,
+      trimmedReferences: this.trimmedReferences,
     };
   }
 
@@ -182,7 +200,7 @@ export class TreeShaker {
      * include its dependency graph and external imports.
      */
     const declaration = this.registry.getDeclaration(declarationId);
-    if (!declaration) return;
+    if (!declaration || this.isTrimmed(declaration)) return;
 
     if (context === "global") {
       declaration.usedInGlobal = true;
@@ -202,17 +220,46 @@ export class TreeShaker {
     const shouldIncludeDependencies = declaration.dependencies.size > 0;
     if (shouldIncludeDependencies) {
       for (const depId of declaration.dependencies) {
+        if (!this.isDependencyIncluded(declaration.dependencyReleaseTags.get(depId))) {
+          continue;
+        }
+        const dependency = this.registry.getDeclaration(depId);
+        if (dependency && this.isTrimmed(dependency)) {
+          const trimmed = this.trimmedReferences.get(declarationId) ?? new Set();
+          trimmed.add(depId);
+          this.trimmedReferences.set(declarationId, trimmed);
+          continue;
+        }
         this.markUsed(depId, context);
       }
     }
 
     for (const [moduleName, importNames] of declaration.externalDependencies.entries()) {
       for (const importName of importNames) {
-        this.usedExternals.add(`${moduleName}:${importName}`);
+        const key = `${moduleName}:${importName}`;
+        if (this.isDependencyIncluded(declaration.externalDependencyReleaseTags.get(key))) {
+          this.usedExternals.add(key);
+        }
       }
     }
   }
 
+  private isTrimmed(declaration: TypeDeclaration): boolean {
+    /**
+     * Whether the release tag of a declaration is trimmed at the release
+     * level of the bundle.
+     */
+    return this.releaseLevel !== undefined && !isReleaseTagIncluded(getReleaseTag(declaration.node), this.releaseLevel);
+  }
+
+  private isDependencyIncluded(releaseTag: ReleaseTag | undefined): boolean {
+    /**
+     * Whether a dependency referenced only from members with `releaseTag`
+     * is followed; the members are trimmed otherwise.
+     */
+    return !releaseTag || this.releaseLevel === undefined || isReleaseTagIncluded(releaseTag, this.releaseLevel);
+  }
+
   private collectUsedExternalImports(): Map<string, Set<ExternalImport>> {
     /**
      * Return the set of external imports that were recorded as used during
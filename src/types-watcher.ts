@@ -0,0 +1,276 @@
+import * as ts from "typescript";
+import { FileCollector } from "./file-collector";
+import { type ProgramConfig, resolveTsConfigPath } from "./helpers/typescript-config";
+import type { BundleResult, RebuildInfo } from "./types";
+
+export interface TypesWatcherOptions {
+  entryFiles: string[];
+  system: ts.System;
+  config: ProgramConfig;
+  debounce: number;
+  build: (program: ts.Program) => { result: BundleResult; collectedFiles: string[] };
+  onBundle?: (result: BundleResult, info: RebuildInfo) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Options passed to `TypesWatcher`.
+ * - `entryFiles`: absolute paths of the entry files (watch program root names).
+ * - `system`: file system read and watched.
+ * - `config`: tsconfig path and compiler option overrides of the program.
+ * - `debounce`: milliseconds to wait for further changes before rebuilding.
+ * - `build`: runs the bundling phases on a program and returns the result
+ *   together with the files `FileCollector.collectFiles` collected.
+ * - `onBundle`/`onError`: receive each bundle or the error of a failed build
+ *   or of `onBundle`.
+ */
+
+export class TypesWatcher {
+  /**
+   * Options the watcher was created with.
+   */
+  private options: TypesWatcherOptions;
+
+  /**
+   * TypeScript watch program; recreated when the tsconfig changes.
+   */
+  private watchProgram: ts.WatchOfFilesAndCompilerOptions<ts.SemanticDiagnosticsBuilderProgram> | null;
+
+  /**
+   * Watcher of the tsconfig file, when there is one.
+   */
+  private configWatcher: ts.FileWatcher | null;
+
+  /**
+   * Source files of the collected graph as of the last build, keyed by path.
+   * A file whose `SourceFile` is not reused by a new program has changed.
+   */
+  private collectedFiles: Map<string, ts.SourceFile | undefined>;
+
+  /**
+   * File names of the program the last build ran on.
+   */
+  private programFiles: Set<string>;
+
+  /**
+   * Latest program waiting for the debounce delay to elapse.
+   */
+  private pendingProgram: ts.Program | null;
+
+  /**
+   * Changed files accumulated since the last build.
+   */
+  private pendingChanges: Set<string>;
+
+  /**
+   * Timer of the pending rebuild.
+   */
+  private timer: ReturnType<typeof setTimeout> | null;
+
+  /**
+   * Whether the initial build has run.
+   */
+  private hasBuilt: boolean;
+
+  /**
+   * Whether `close()` has been called.
+   */
+  private closed: boolean;
+
+  /**
+   * Create a `TypesWatcher` and run the initial build synchronously.
+   * @param options - Watcher options.
+   */
+  constructor(options: TypesWatcherOptions) {
+    this.options = options;
+    this.watchProgram = null;
+    this.configWatcher = null;
+    this.collectedFiles = new Map();
+    this.programFiles = new Set();
+    this.pendingProgram = null;
+    this.pendingChanges = new Set();
+    this.timer = null;
+    this.hasBuilt = false;
+    this.closed = false;
+
+    this.watchConfig();
+    this.createWatchProgram();
+  }
+
+  /**
+   * Stop watching and cancel any pending rebuild.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.watchProgram?.close();
+    this.watchProgram = null;
+    this.configWatcher?.close();
+    this.configWatcher = null;
+  }
+
+  /**
+   * Create the TypeScript watch program for the current compiler options.
+   * TypeScript calls back with a new program whenever a program file
+   * changes, reusing the `SourceFile` of every unchanged file.
+   */
+  private createWatchProgram(): void {
+    const { entryFiles, system, config } = this.options;
+
+    let compilerOptions: ts.CompilerOptions;
+    try {
+      compilerOptions = FileCollector.getProgramCompilerOptions(entryFiles, system, config);
+    } catch (error) {
+      this.reportError(error);
+      return;
+    }
+
+    const host = ts.createWatchCompilerHost(
+      entryFiles,
+      compilerOptions,
+      system,
+      ts.createSemanticDiagnosticsBuilderProgram,
+      () => {},
+      () => {},
+    );
+    host.afterProgramCreate = (builderProgram) => this.onProgramCreated(builderProgram.getProgram());
+    this.watchProgram = ts.createWatchProgram(host);
+  }
+
+  /**
+   * Watch the tsconfig and recreate the watch program when it changes.
+   */
+  private watchConfig(): void {
+    const { entryFiles, system, config } = this.options;
+
+    let configPath: string | null;
+    try {
+      configPath = resolveTsConfigPath(entryFiles[0], config, system);
+    } catch {
+      // Reported when creating the watch program
+      return;
+    }
+    if (!configPath || !system.watchFile) {
+      return;
+    }
+
+    const tsconfigPath = configPath;
+    this.configWatcher = system.watchFile(tsconfigPath, () => {
+      if (this.closed) return;
+      this.pendingChanges.add(tsconfigPath);
+      this.watchProgram?.close();
+      this.watchProgram = null;
+      this.createWatchProgram();
+    });
+  }
+
+  /**
+   * Schedule a rebuild for a new program of the watch program. The initial
+   * build runs right away; rebuilds wait for the debounce delay and are
+   * skipped when no file of the collected graph changed.
+   */
+  private onProgramCreated(program: ts.Program): void {
+    if (this.closed) return;
+
+    for (const fileName of this.getChangedFiles(program)) {
+      this.pendingChanges.add(fileName);
+    }
+    if (this.hasBuilt && this.pendingChanges.size === 0) {
+      // Only files outside the collected graph changed
+      return;
+    }
+
+    this.pendingProgram = program;
+    if (!this.hasBuilt) {
+      this.rebuild();
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.rebuild();
+    }, this.options.debounce);
+  }
+
+  /**
+   * Collect the files of the collected graph that changed in `program`, and
+   * the files `program` contains that the last built program did not (e.g.
+   * a file created for a previously unresolved import).
+   */
+  private getChangedFiles(program: ts.Program): string[] {
+    const changedFiles: string[] = [];
+    if (!this.hasBuilt) {
+      return changedFiles;
+    }
+
+    for (const [fileName, sourceFile] of this.collectedFiles) {
+      if (program.getSourceFile(fileName) !== sourceFile) {
+        changedFiles.push(fileName);
+      }
+    }
+    for (const sourceFile of program.getSourceFiles()) {
+      if (!this.programFiles.has(sourceFile.fileName)) {
+        changedFiles.push(sourceFile.fileName);
+      }
+    }
+
+    return changedFiles;
+  }
+
+  /**
+   * Bundle the pending program and report the result with the changes that
+   * led to it.
+   */
+  private rebuild(): void {
+    const program = this.pendingProgram;
+    if (!program || this.closed) return;
+
+    const changedFiles = [...this.pendingChanges];
+    this.pendingProgram = null;
+    this.pendingChanges.clear();
+    this.hasBuilt = true;
+
+    const start = performance.now();
+    let build: ReturnType<TypesWatcherOptions["build"]> | null = null;
+    try {
+      build = this.options.build(program);
+    } catch (error) {
+      this.reportError(error);
+    }
+
+    // After a failed build any program file may hold the fix
+    const collectedFiles = build
+      ? build.collectedFiles
+      : program.getSourceFiles().map((sourceFile) => sourceFile.fileName);
+    this.collectedFiles = new Map(collectedFiles.map((fileName) => [fileName, program.getSourceFile(fileName)]));
+    this.programFiles = new Set(program.getSourceFiles().map((sourceFile) => sourceFile.fileName));
+
+    if (build) {
+      // Errors of the callback (e.g. writing the bundle) must not end watching
+      try {
+        this.options.onBundle?.(build.result, { changedFiles, duration: performance.now() - start });
+      } catch (error) {
+        this.reportError(error);
+      }
+    }
+  }
+
+  /**
+   * Pass an error of a build or of `onBundle` to `onError`, or log it when
+   * there is no handler.
+   */
+  private reportError(error: unknown): void {
+    const reported = error instanceof Error ? error : new Error(String(error));
+    if (this.options.onError) {
+      this.options.onError(reported);
+    } else {
+      console.error(reported);
+    }
+  }
+}
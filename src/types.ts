@@ -1,4 +1,6 @@
 import type ts from "typescript";
+import type { CollectedFile } from "./file-collector";
+import type { ReleaseTag } from "./helpers/release-tags";
 
 export interface BundleTypesOptions {
   /**
@@ -45,19 +47,680 @@ export interface BundleTypesOptions {
   noBanner?: boolean;
 
   /**
-   * Whether to sort nodes alphabetically
+   * Banner replacing the generated one at the top of the output: a template
+   * where `{{name}}` is replaced with a `BannerVariables` value, or a function
+   * of the variables. The text is emitted as is, so it must be written as
+   * comments. Cannot be used with `noBanner`.
+   */
+  banner?: BannerOption;
+
+  /**
+   * Footer at the end of the output, written like `banner`
+   */
+  footer?: BannerOption;
+
+  /**
+   * What to do with the legal comments (`/*!` comments and comments with a
+   * `@license` or `@preserve` tag) of the files contributing declarations,
+   * including the ones of inlined libraries:
+   * - `none`: drop them.
+   * - `inline`: emit them once each at the top of the bundle, after the banner.
+   * - `external`: return them as `legalComments`; the CLI writes them to
+   *   `<output>.LICENSE.txt`.
+   * @default "none"
+   */
+  legalComments?: LegalCommentsMode;
+
+  /**
+   * Comments copied from the sources to the declarations and their members:
+   * - `all`: every comment.
+   * - `jsdoc`: JSDoc comments only.
+   * - `exported-only`: JSDoc comments of the declarations the bundle
+   *   exports only.
+   * - `none`: no comments.
+   * When unset, JSDoc is kept on exported declarations, interfaces, type
+   * aliases and const enums.
+   */
+  comments?: CommentsMode;
+
+  /**
+   * JSDoc block tags removed with their content from the kept comments, e.g.
+   * `["example", "remarks"]`. A comment left empty is removed.
+   */
+  stripJsDocTags?: string[];
+
+  /**
+   * Whether to sort nodes alphabetically. Same as `order: "kind-then-alphabetical"`
    */
   sortNodes?: boolean;
 
+  /**
+   * Order of the declarations in the output:
+   * - `source`: the order of the files and, within a file, of the source.
+   * - `entry-exports`: the order of the entry exports, each preceded by the
+   *   declarations only it references.
+   * - `alphabetical`: by name.
+   * - `kind-then-alphabetical`: interfaces, type aliases, classes, enums,
+   *   namespaces, then the rest, each by name.
+   * - `dependency`: referenced declarations before the declarations
+   *   referencing them, otherwise in source order.
+   * When unset, declarations keep the default order of the bundler, mostly
+   * referenced declarations first.
+   */
+  order?: DeclarationOrder;
+
+  /**
+   * How declarations are exported:
+   * - `inline`: an `export` modifier on each exported declaration.
+   * - `list`: no `export` modifiers, and one sorted `export { ... }` list at
+   *   the end (`export type { ... }` when it only exports types).
+   * Exports that cannot be written inline, like renamed exports and exports
+   * of external imports, stay in the list with `inline`. When unset, the
+   * style of each export follows its source. Cannot be used with
+   * `globalScript`.
+   */
+  exportStyle?: ExportStyle;
+
   /**
    * UMD module name to output
    */
   umdModuleName?: string;
 
+  /**
+   * Wrap the bundle in an ambient `declare module "<name>" { ... }` block
+   * instead of emitting a module file. With `entries`, the entry keyed `.`
+   * or `index` declares `<name>` and every other entry declares
+   * `<name>/<key>`.
+   */
+  ambientModule?: string;
+
+  /**
+   * Emit the bundle as a global script for consumers loading the library
+   * through a `<script>` tag: exported declarations become globals and
+   * external imports become `import("...")` types. Exports that have no
+   * global form, such as default exports, fail the bundle with `DTS1008`.
+   * @default false
+   */
+  globalScript?: boolean;
+
+  /**
+   * Name of the `declare namespace` the declarations of a global script are
+   * wrapped in, instead of being declared as globals. Implies `globalScript`.
+   */
+  globalNamespace?: string;
+
+  /**
+   * Formatting of the output, applied to printed declarations and to the
+   * ones copied from the sources alike. Unset options keep the default
+   * format: two-space indentation, double quotes, semicolons and LF line
+   * endings with a trailing line break.
+   */
+  format?: OutputFormatOptions;
+
   /**
    * Preserve const enums
    */
   respectPreserveConstEnum?: boolean;
+
+  /**
+   * Called for every diagnostic reported while bundling (e.g. unresolved
+   * imports or types the bundler had to approximate)
+   */
+  onDiagnostic?: (diagnostic: BundleDiagnostic) => void;
+
+  /**
+   * Throw a `BundleDiagnosticError` when bundling reports any diagnostic
+   * @default false
+   */
+  failOnWarnings?: boolean;
+
+  /**
+   * Build a declaration map (`.d.ts.map`) mapping each bundled declaration
+   * back to its original file and position. It is returned as
+   * `declarationMap` by `bundleTypesDetailed`.
+   * @default false
+   */
+  declarationMap?: boolean;
+
+  /**
+   * Path the bundle is written to. With `declarationMap`, map sources are
+   * made relative to it and a `//# sourceMappingURL=` comment is appended.
+   */
+  outFile?: string;
+
+  /**
+   * In-memory files keyed by path, e.g. declarations produced by a code
+   * generator. Relative paths resolve against the current directory. They
+   * take precedence over files of `system`, which serves every other path.
+   */
+  files?: Record<string, string>;
+
+  /**
+   * File system every file read, existence check and tsconfig lookup goes
+   * through
+   * @default ts.sys
+   */
+  system?: ts.System;
+
+  /**
+   * Path to the tsconfig file to use (e.g. `tsconfig.build.json`) instead of
+   * the `tsconfig.json` found from the entry
+   */
+  tsconfig?: string;
+
+  /**
+   * Compiler options in tsconfig.json format (e.g. `{ module: "nodenext" }`)
+   * overriding the options of the tsconfig, or the default options when no
+   * tsconfig is found
+   */
+  compilerOptions?: Record<string, unknown>;
+
+  /**
+   * Directory of an on-disk build cache. When the collected files, the
+   * options, the compiler options and the bundler version all match a
+   * previous build, its result is returned without bundling again (its
+   * diagnostics are reported again). Ignored by `watchTypes`.
+   */
+  cacheDir?: string;
+
+  /**
+   * Type-check the generated bundle on its own, with the module resolution
+   * of the entry, and report its errors as diagnostics pointing to the
+   * offending declaration. Combine with `failOnWarnings` to fail the build.
+   * @default false
+   */
+  validate?: boolean;
+
+  /**
+   * Compare the exports of the bundle with the exports of the entry using
+   * the type checker, and report exports that are missing, extra or whose
+   * types are not mutually assignable. Combine with `failOnWarnings` to fail
+   * the build.
+   * @default false
+   */
+  verifyApi?: boolean;
+
+  /**
+   * Drop declarations and members tagged `@internal` from the bundle, like
+   * the `stripInternal` compiler option. Types referenced only by dropped
+   * APIs are dropped too.
+   * @default false
+   */
+  stripInternal?: boolean;
+
+  /**
+   * Release levels to build trimmed rollups of the bundle for, in the same
+   * run. The `public` rollup keeps untagged and `@public` APIs, `beta` also
+   * keeps `@beta` APIs and `alpha` also keeps `@alpha` APIs. They are
+   * returned as `rollups` by `bundleTypesDetailed`; the CLI writes them next
+   * to the bundle (`index.d.ts` → `index.public.d.ts`).
+   */
+  rollups?: ReleaseLevel[];
+
+  /**
+   * Plugins hooking into the phases of every bundle, run in order. Only the
+   * names of the plugins are part of the `cacheDir` cache key.
+   */
+  plugins?: BundlePlugin[];
+}
+
+/**
+ * Context passed to the hooks of a `BundlePlugin`.
+ * - `entryFile`: absolute path of the entry being bundled.
+ * - `program`: program the entry is bundled from.
+ * - `releaseLevel`: release level the bundle or rollup being generated is
+ *   trimmed to, if any.
+ * - `report`: report a diagnostic of the bundle.
+ */
+export interface BundlePluginContext {
+  entryFile: string;
+  program: ts.Program;
+  releaseLevel?: ReleaseLevel;
+  report: (diagnostic: BundleDiagnostic) => void;
+}
+
+/**
+ * Plugin extending the bundling pipeline (see the `plugins` option). Every
+ * hook is optional; an error thrown by a hook fails the bundle with the name
+ * of the plugin.
+ * - `afterCollect`: called with the files collected for an entry, by path;
+ *   files deleted from the map are not bundled.
+ * - `afterParse`: called with every declaration parsed from the files, by id,
+ *   before names are deduplicated.
+ * - `afterShake`: called with the ids of the declarations kept by tree
+ *   shaking, once for the bundle and once per rollup; ids may be added or
+ *   deleted, without their dependencies, and kept declarations renamed by
+ *   setting their `normalizedName`.
+ * - `transformDeclaration`: transformer applied to the statement of every
+ *   kept declaration before it is printed; `ts.getOriginalNode` leads back to
+ *   the source.
+ * - `transformOutput`: called with the text of the bundle and of each rollup;
+ *   returns the text to emit.
+ */
+export interface BundlePlugin {
+  name: string;
+  afterCollect?: (files: Map<string, CollectedFile>, context: BundlePluginContext) => void;
+  afterParse?: (declarations: ReadonlyMap<symbol, TypeDeclaration>, context: BundlePluginContext) => void;
+  afterShake?: (
+    keptIds: Set<symbol>,
+    declarations: ReadonlyMap<symbol, TypeDeclaration>,
+    context: BundlePluginContext,
+  ) => void;
+  transformDeclaration?: ts.TransformerFactory<ts.Node>;
+  transformOutput?: (code: string, context: BundlePluginContext) => string;
+}
+
+/**
+ * Formatting of the output (see the `format` option).
+ * - `indentStyle`/`indentWidth`: indent with tabs or with `indentWidth` spaces.
+ * - `quoteStyle`: quote of string literals; the other quote is used when it
+ *   needs fewer escapes.
+ * - `semicolons`: end statements and members with semicolons.
+ * - `trailingNewline`: end the file with a line break.
+ * - `endOfLine`: line breaks of the file.
+ */
+export interface OutputFormatOptions {
+  indentStyle?: "space" | "tab";
+  indentWidth?: number;
+  quoteStyle?: "double" | "single";
+  semicolons?: boolean;
+  trailingNewline?: boolean;
+  endOfLine?: "lf" | "crlf";
+}
+
+/**
+ * Variables of the `banner` and `footer` templates, written `{{name}}`.
+ * - `packageName`/`packageVersion`: name and version of the nearest
+ *   package.json of the entry, empty when missing.
+ * - `entry`: path of the entry relative to the directory of that
+ *   package.json, or to the directory of the entry.
+ * - `bundlerVersion`: version of the bundler, `unversioned` when unknown or empty.
+ * - `date`: date of the build, `YYYY-MM-DD` in UTC.
+ */
+export interface BannerVariables {
+  packageName: string;
+  packageVersion: string;
+  entry: string;
+  bundlerVersion: string;
+  date: string;
+}
+
+/**
+ * Text of the `banner` and `footer` options: a template of `BannerVariables`
+ * or a function of them.
+ */
+export type BannerOption = string | ((variables: BannerVariables) => string);
+
+/**
+ * Where the legal comments of the bundled files go (see the `legalComments`
+ * option).
+ */
+export type LegalCommentsMode = "none" | "inline" | "external";
+
+/**
+ * Comments the declarations of a bundle keep (see the `comments` option).
+ */
+export type CommentsMode = "all" | "jsdoc" | "exported-only" | "none";
+
+/**
+ * Strategy ordering the declarations of a bundle (see the `order` option).
+ */
+export type DeclarationOrder = "source" | "entry-exports" | "alphabetical" | "kind-then-alphabetical" | "dependency";
+
+/**
+ * How declarations are exported (see the `exportStyle` option).
+ */
+export type ExportStyle = "inline" | "list";
+
+/**
+ * Release level a bundle is trimmed to: APIs tagged with a less public TSDoc
+ * release tag are dropped.
+ */
+export type ReleaseLevel = "public" | "beta" | "alpha";
+
+export interface MultiEntryBundleTypesOptions extends Omit<BundleTypesOptions, "entry" | "outFile"> {
+  /**
+   * Map of entry key (e.g. a package.json subpath such as `"./react"`) to entry
+   * TypeScript file path. All entries are bundled in one run sharing a single
+   * TypeScript `Program`; the result maps each key to its bundled declarations.
+   */
+  entries: Record<string, string>;
+}
+
+export interface AmbientModulesBundleTypesOptions extends Omit<
+  MultiEntryBundleTypesOptions,
+  "ambientModule" | "declarationMap" | "rollups"
+> {
+  /**
+   * Name of the ambient module declared by the entry keyed `.` or `index`;
+   * every other entry declares `<name>/<key>`
+   */
+  ambientModule: string;
+}
+
+export interface PackageBundleTypesOptions extends Omit<BundleTypesOptions, "entry" | "outFile"> {
+  /**
+   * Package directory or path to its package.json. Every `types` condition in
+   * the `exports` map (and the top-level `types` field) is mapped back to its
+   * source entry through the tsconfig `rootDir`/`outDir`.
+   */
+  packagePath: string;
+
+  /**
+   * Whether to write each bundle to the path the package.json promises
+   * @default true
+   */
+  write?: boolean;
+}
+
+/**
+ * Options of a config file target: every `BundleTypesOptions` option that
+ * can be written as JSON, besides the entry and output of the target.
+ */
+export type BundleTargetOptions = Omit<BundleTypesOptions, "entry" | "outFile" | "files" | "system" | "onDiagnostic">;
+
+export interface BundleTarget extends BundleTargetOptions {
+  /**
+   * Name used to select the target (`bundle-types --target <name>`)
+   */
+  name?: string;
+
+  /**
+   * Entry TypeScript file path, relative to the config file
+   */
+  entry: string;
+
+  /**
+   * Output declaration file path, relative to the config file
+   */
+  output: string;
+}
+
+export interface DtsBundlerConfig {
+  /**
+   * Options shared by every target; options of a target take precedence
+   */
+  defaults?: BundleTargetOptions;
+
+  /**
+   * Bundles to build
+   */
+  targets: BundleTarget[];
+}
+
+export interface WatchTypesOptions extends BundleTypesOptions {
+  /**
+   * Called with the initial bundle and with every rebuild
+   */
+  onBundle?: (result: BundleResult, info: RebuildInfo) => void;
+
+  /**
+   * Called when a build or `onBundle` fails; watching continues. Errors are
+   * logged with `console.error` when omitted.
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * Milliseconds to wait for further changes before rebuilding
+   * @default 100
+   */
+  debounce?: number;
+}
+
+export interface RebuildInfo {
+  /**
+   * Files of the collected graph (or the tsconfig) whose changes triggered
+   * the rebuild; empty for the initial build
+   */
+  changedFiles: string[];
+
+  /**
+   * Duration of the bundling phases in milliseconds
+   */
+  duration: number;
+}
+
+export interface PackageTypesBundle {
+  /**
+   * Subpath of the `exports` map (`"."` for the package root)
+   */
+  subpath: string;
+
+  /**
+   * Absolute path of the source entry file
+   */
+  entry: string;
+
+  /**
+   * Absolute path of the declaration file promised by the package.json
+   */
+  output: string;
+
+  /**
+   * Bundled declaration content
+   */
+  content: string;
+
+  /**
+   * Declaration map (JSON) for `output` when `declarationMap` is set
+   */
+  declarationMap?: string;
+
+  /**
+   * Full result of the bundle (its code and declaration map are the
+   * `content` and `declarationMap` above)
+   */
+  result: BundleResult;
+}
+
+export enum DiagnosticCode {
+  /** A relative or inlined import could not be resolved; its types are missing from the bundle */
+  UnresolvedImport = "DTS1001",
+  /** The bundler version could not be read for the banner */
+  UnknownVersion = "DTS1002",
+  /** A function return type could not be inferred and was emitted as `void` */
+  ReturnTypeFallback = "DTS1003",
+  /** A top-level declaration kind the bundler cannot emit */
+  UnknownNodeKind = "DTS1004",
+  /** The generated bundle does not type-check on its own (see the `validate` option) */
+  InvalidBundle = "DTS1005",
+  /** The bundle does not export the same public API as its entry (see the `verifyApi` option) */
+  ApiMismatch = "DTS1006",
+  /** A kept declaration references a declaration trimmed by its release tag (see `stripInternal` and `rollups`) */
+  TrimmedReference = "DTS1007",
+  /** An export or declaration cannot be represented in a global script (see the `globalScript` option) */
+  GlobalScriptExport = "DTS1008",
+}
+
+export interface BundleDiagnostic {
+  /**
+   * Diagnostic code: a `DiagnosticCode` or `TS<code>` for TypeScript diagnostics
+   */
+  code: DiagnosticCode | `TS${number}`;
+
+  severity: "error" | "warning";
+
+  message: string;
+
+  /**
+   * Absolute path of the file the diagnostic refers to
+   */
+  file?: string;
+
+  /**
+   * 1-based line number
+   */
+  line?: number;
+
+  /**
+   * 1-based column number
+   */
+  column?: number;
+}
+
+export interface BundleExternalImport {
+  moduleName: string;
+
+  /**
+   * Name imported from the module (`default` for default imports)
+   */
+  name: string;
+
+  /**
+   * Name used for the import in the bundle
+   */
+  localName: string;
+
+  isTypeOnly: boolean;
+}
+
+export interface BundleDeclarationInfo {
+  name: string;
+
+  /**
+   * Absolute path of the file the declaration comes from
+   */
+  sourceFile: string;
+}
+
+export interface RenamedDeclarationInfo extends BundleDeclarationInfo {
+  /**
+   * Name used in the bundle (e.g. `Options$1`)
+   */
+  normalizedName: string;
+}
+
+export interface BundleResult {
+  /**
+   * Bundled declaration content
+   */
+  code: string;
+
+  /**
+   * Problems found while bundling, such as syntax errors in included files
+   */
+  diagnostics: BundleDiagnostic[];
+
+  /**
+   * Files that contributed declarations to the bundle, entry file first
+   */
+  includedFiles: string[];
+
+  /**
+   * Imports from external modules kept in the bundle
+   */
+  externalImports: BundleExternalImport[];
+
+  /**
+   * Declarations emitted under a different name to avoid collisions
+   */
+  renamedDeclarations: RenamedDeclarationInfo[];
+
+  /**
+   * Declarations dropped by tree shaking
+   */
+  removedDeclarations: BundleDeclarationInfo[];
+
+  /**
+   * Libraries referenced via `/// <reference types="..." />` directives
+   */
+  referencedTypesLibraries: string[];
+
+  /**
+   * Declaration map (JSON) when `declarationMap` is set. Sources are
+   * absolute paths unless `outFile` is set.
+   */
+  declarationMap?: string;
+
+  /**
+   * Legal comments of the bundled files, separated by blank lines, when
+   * `legalComments` is `external` and the files have any
+   */
+  legalComments?: string;
+
+  /**
+   * Timings and sizes of the build. A result read from the build cache keeps
+   * the statistics of the build that produced it.
+   */
+  stats: BundleStats;
+
+  /**
+   * Rollups of the bundle trimmed to each level of the `rollups` option
+   */
+  rollups?: Partial<Record<ReleaseLevel, BundleRollup>>;
+}
+
+/**
+ * A rollup of a bundle trimmed to a release level. Its diagnostics are the
+ * ones reported while trimming, shaking and generating it; they are part of
+ * the diagnostics of the bundle as well.
+ */
+export type BundleRollup = Omit<BundleResult, "stats" | "rollups">;
+
+export interface BundlePhaseTimings {
+  /**
+   * Creating the program and collecting the files of the bundle. With
+   * `entries`, the shared program is counted for every entry.
+   */
+  collect: number;
+
+  /**
+   * Parsing the declarations and imports of the collected files
+   */
+  parse: number;
+
+  /**
+   * Resolving the dependencies between declarations
+   */
+  analyze: number;
+
+  /**
+   * Renaming colliding declarations
+   */
+  normalize: number;
+
+  /**
+   * Tree shaking
+   */
+  shake: number;
+
+  /**
+   * Printing the bundle and its declaration map
+   */
+  generate: number;
+
+  /**
+   * Type-checking the bundle, with `validate`
+   */
+  validate?: number;
+
+  /**
+   * Comparing the exports of the bundle and the entry, with `verifyApi`
+   */
+  verifyApi?: number;
+
+  /**
+   * Trimming, shaking, printing and validating the rollups, with `rollups`
+   */
+  rollups?: number;
+}
+
+export interface BundleStats {
+  /**
+   * Milliseconds spent in each bundling phase
+   */
+  timings: BundlePhaseTimings;
+
+  /**
+   * Number of files collected for the bundle
+   */
+  fileCount: number;
+
+  /**
+   * Number of declarations parsed from the collected files, including the
+   * ones removed by tree shaking
+   */
+  declarationCount: number;
 }
 
 export interface ImportInfo {
@@ -129,6 +792,10 @@ export class TypeDeclaration {
   public usedInNonGlobal: boolean;
   public dependencies: Set<symbol>;
   public externalDependencies: Map<string, Set<string>>;
+  // Release tags of the dependencies referenced only from members with a release tag other than public
+  public dependencyReleaseTags: Map<symbol, ReleaseTag>;
+  // Same for external dependencies, keyed `${moduleName}:${importName}`
+  public externalDependencyReleaseTags: Map<string, ReleaseTag>;
   public namespaceDependencies: Set<string>; // Track which namespaces this declaration depends on
   public importAliases: Map<string, { sourceFile: string; originalName: string; qualifiedName?: string }>; // Track alias -> original mapping
   public variableDeclaration?: ts.VariableDeclaration;
@@ -156,6 +823,8 @@ export class TypeDeclaration {
     this.usedInNonGlobal = false;
     this.dependencies = new Set();
     this.externalDependencies = new Map();
+    this.dependencyReleaseTags = new Map();
+    this.externalDependencyReleaseTags = new Map();
     this.namespaceDependencies = new Set();
     this.importAliases = new Map();
     this.forceInclude = false;
@@ -1,6 +1,7 @@
 import * as ts from "typescript";
-import type { AstPrinter } from "./ast-printer";
+import type { AstPrinter, ImportTypeTarget } from "./ast-printer";
 import { collectBindingIdentifiersFromName, hasBindingPatternInitializer } from "./helpers/binding-identifiers";
+import { applyCommentPolicy, type CommentPolicy } from "./helpers/comment-policy";
 import { tryGetSourceFile } from "./helpers/file-utils";
 import { normalizePrintedStatement } from "./helpers/print-normalizer";
 import { ExportKind, type TypeDeclaration } from "./types";
@@ -16,6 +17,9 @@ export class VariableDeclarationEmitter {
   private addExtraDefaultExport: (name: string) => void;
   private printer: AstPrinter;
   private getRenameMap: (declarations: TypeDeclaration[]) => Map<string, string>;
+  private getImportTypes?: (declarations: TypeDeclaration[]) => Map<string, ImportTypeTarget>;
+  private transformers: ts.TransformerFactory<ts.Node>[];
+  private commentPolicy?: CommentPolicy;
 
   /**
    * @param checker - TypeScript `TypeChecker` used to synthesize type nodes.
@@ -23,17 +27,28 @@ export class VariableDeclarationEmitter {
    *   alias must be emitted for `default`-only patterns.
    * @param printer - `AstPrinter` used to print synthesized AST nodes.
    * @param getRenameMap - Function returning a rename map for a group of declarations.
+   * @param getImportTypes - Function returning the external imports of a group
+   *   of declarations to print as `import("...")` types, if any.
+   * @param transformers - Transformers applied to statements before printing.
+   * @param commentPolicy - Comments kept in printed statements, when the
+   *   `comments` or `stripJsDocTags` option is set.
    */
   constructor(
     checker: ts.TypeChecker,
     addExtraDefaultExport: (name: string) => void,
     printer: AstPrinter,
     getRenameMap: (declarations: TypeDeclaration[]) => Map<string, string>,
+    getImportTypes?: (declarations: TypeDeclaration[]) => Map<string, ImportTypeTarget>,
+    transformers: ts.TransformerFactory<ts.Node>[] = [],
+    commentPolicy?: CommentPolicy,
   ) {
     this.checker = checker;
     this.addExtraDefaultExport = addExtraDefaultExport;
     this.printer = printer;
     this.getRenameMap = getRenameMap;
+    this.getImportTypes = getImportTypes;
+    this.transformers = transformers;
+    this.commentPolicy = commentPolicy;
   }
 
   private static getPrintSourceFile(node: ts.Node): ts.SourceFile {
@@ -368,9 +383,31 @@ export class VariableDeclarationEmitter {
     const renameMapToUse = renameMap.size > 0 ? renameMap : undefined;
     const sourceFile = tryGetSourceFile(sourceStatement);
     const printSourceFile = sourceFile ?? VariableDeclarationEmitter.getPrintSourceFile(statementNode);
-    const printed = this.printer.printStatement(statementNode, printSourceFile, { renameMap: renameMapToUse });
+    const importTypes = this.getImportTypes?.(declarations);
+    let printedNode: ts.Node = statementNode;
+    if (this.transformers.length > 0) {
+      const result = ts.transform(printedNode, this.transformers);
+      printedNode = result.transformed[0];
+      result.dispose();
+    }
+    const printed = this.printer.printStatement(printedNode, printSourceFile, {
+      renameMap: renameMapToUse,
+      importTypes,
+    });
     const originalText = sourceFile ? sourceStatement.getText(sourceFile) : "";
-    return normalizePrintedStatement(printed, sourceStatement, originalText, { preserveJsDoc });
+    if (!this.commentPolicy) {
+      return normalizePrintedStatement(printed, sourceStatement, originalText, { preserveJsDoc });
+    }
+    // With a `comments` mode, every comment is printed and the policy decides
+    // which are kept; groups whose JSDoc is preserved are the exported ones
+    const { comments } = this.commentPolicy;
+    const normalized = normalizePrintedStatement(
+      printed,
+      sourceStatement,
+      originalText,
+      comments === undefined ? { preserveJsDoc } : { preserveComments: comments === "all" },
+    );
+    return applyCommentPolicy(normalized, this.commentPolicy, preserveJsDoc);
   }
 
   private static shouldExportDeclaration(decl: TypeDeclaration): boolean {
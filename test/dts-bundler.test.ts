@@ -9,11 +9,30 @@
  */
 
 import fs from "fs";
+import os from "os";
 import path from "path";
+import * as ts from "typescript";
 import { fileURLToPath } from "url";
-import { describe, expect, it } from "vitest";
-import { bundleTypes } from "../src/index";
-import { runTestCase } from "./run-test-case";
+import { type MockInstance, describe, expect, it, vi } from "vitest";
+import { FileCollector } from "../src/file-collector";
+import type {
+  BannerVariables,
+  BundleDiagnostic,
+  BundlePlugin,
+  BundleResult,
+  DeclarationOrder,
+  RebuildInfo,
+} from "../src/index";
+import {
+  BundleDiagnosticError,
+  DiagnosticCode,
+  bundleAmbientModules,
+  bundlePackageTypes,
+  bundleTypes,
+  bundleTypesDetailed,
+  watchTypes,
+} from "../src/index";
+import { runMultiEntryTestCase, runTestCase } from "./run-test-case";
 
 // eslint-disable-next-line @typescript-eslint/naming-convention
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -609,6 +628,1356 @@ describe("TypeScript Declaration Bundler", () => {
       const { expected, result } = runTestCase("sort-nodes", { sortNodes: true });
       expect(result).toBe(expected);
     });
+
+    it("should use the tsconfig given by the tsconfig option", () => {
+      const { expected, result } = runTestCase("tsconfig-project", {
+        tsconfig: path.resolve(__dirname, "fixtures/tsconfig-project/tsconfig.build.json"),
+      });
+      expect(result).toBe(expected);
+    });
+
+    it("should apply compilerOptions overrides on top of the tsconfig", () => {
+      const { expected, result } = runTestCase("tsconfig-project", {
+        compilerOptions: { paths: { "~/*": ["./types/*"] } },
+      });
+      expect(result).toBe(expected);
+    });
+
+    it("should throw error when the tsconfig option points to a missing file", () => {
+      expect(() =>
+        runTestCase("tsconfig-project", {
+          tsconfig: path.resolve(__dirname, "fixtures/tsconfig-project/tsconfig.missing.json"),
+        }),
+      ).toThrow("Cannot find tsconfig file");
+    });
+
+    it("should use default compiler options when no tsconfig is found", () => {
+      const root = path.resolve("/virtual-no-tsconfig");
+      const result = bundleTypes({
+        entry: path.join(root, "index.ts"),
+        files: {
+          [path.join(root, "index.ts")]: 'export type { Options } from "./options";\n',
+          [path.join(root, "options.ts")]: "export interface Options {\n  url: string;\n}\n",
+        },
+        noBanner: true,
+      });
+      expect(result).toBe("export interface Options {\n  url: string;\n}\n");
+    });
+  });
+
+  describe("Multiple Entries", () => {
+    it("should bundle each entry from a shared program", () => {
+      const results = runMultiEntryTestCase("multiple-entries", { index: "input.ts", react: "react.ts" });
+      expect(Object.keys(results)).toEqual(["index", "react"]);
+      for (const { expected, result } of Object.values(results)) {
+        expect(result).toBe(expected);
+      }
+    });
+
+    it("should produce the same output as bundling each entry separately", () => {
+      const results = runMultiEntryTestCase("multiple-entries", { index: "input.ts", react: "react.ts" });
+      const reactEntry = path.resolve(__dirname, "fixtures/multiple-entries/react.ts");
+      expect(results.react.result).toBe(bundleTypes({ entry: reactEntry, noBanner: true }));
+    });
+
+    it("should throw error when entries is empty", () => {
+      expect(() => bundleTypes({ entries: {} })).toThrow("at least one entry");
+    });
+  });
+
+  describe("Package Exports", () => {
+    const packageDir = path.resolve(__dirname, "fixtures/package-exports");
+
+    it("should bundle every types target of the exports map", () => {
+      const bundles = bundlePackageTypes({ packagePath: packageDir, noBanner: true, write: false });
+      expect(bundles.map(({ subpath, output }) => [subpath, path.relative(packageDir, output)])).toEqual([
+        [".", path.join("dist", "index.d.ts")],
+        ["./react", path.join("dist", "react.d.mts")],
+        ["./react", path.join("dist", "react.d.cts")],
+      ]);
+
+      const [index, reactImport, reactRequire] = bundles;
+      expect(index.entry).toBe(path.join(packageDir, "src", "index.ts"));
+      expect(index.content).toBe(fs.readFileSync(path.join(packageDir, "expected-index.d.ts"), "utf8"));
+      expect(reactImport.entry).toBe(path.join(packageDir, "src", "react.ts"));
+      expect(reactImport.content).toBe(fs.readFileSync(path.join(packageDir, "expected-react.d.ts"), "utf8"));
+      expect(reactRequire.content).toBe(reactImport.content);
+    });
+
+    it("should write each bundle to the path promised by the exports map", () => {
+      const distDir = path.join(packageDir, "dist");
+      try {
+        bundlePackageTypes({ packagePath: path.join(packageDir, "package.json"), noBanner: true });
+        expect(fs.readdirSync(distDir).sort()).toEqual(["index.d.ts", "react.d.cts", "react.d.mts"]);
+      } finally {
+        fs.rmSync(distDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should map declaration files relative to the tsconfig directory without rootDir", () => {
+      const noRootDir = path.resolve(__dirname, "fixtures/package-exports-no-root-dir");
+      const [bundle] = bundlePackageTypes({ packagePath: noRootDir, noBanner: true, write: false });
+      expect(bundle.entry).toBe(path.join(noRootDir, "src", "index.ts"));
+      expect(bundle.output).toBe(path.join(noRootDir, "dist", "src", "index.d.ts"));
+      expect(bundle.content).toBe("export interface Options {\n  id: string;\n}\n");
+    });
+
+    it("should throw error when a types target has no source entry", () => {
+      const missingSourceDir = path.resolve(__dirname, "fixtures/package-exports-missing-source");
+      expect(() => bundlePackageTypes({ packagePath: missingSourceDir, write: false })).toThrow(
+        /not produced by the bundler[\s\S]*"\.\/utils": \.\/dist\/utils\.d\.ts/,
+      );
+    });
+  });
+
+  describe("Detailed Result", () => {
+    const fixturesDir = path.resolve(__dirname, "fixtures");
+
+    it("should report included files, externals, renames and removed declarations", () => {
+      const fixtureDir = path.join(fixturesDir, "detailed-result");
+      const entry = path.join(fixtureDir, "input.ts");
+      const result = bundleTypesDetailed({ entry, noBanner: true });
+
+      expect(result.code).toBe(bundleTypes({ entry, noBanner: true }));
+      expect(result.diagnostics).toEqual([]);
+      expect(result.includedFiles).toEqual([
+        entry,
+        path.join(fixtureDir, "client.ts"),
+        path.join(fixtureDir, "server.ts"),
+      ]);
+      expect(result.externalImports).toEqual([
+        { moduleName: "fake-package", name: "Interface", localName: "Interface", isTypeOnly: true },
+        {
+          moduleName: "fake-types-lib",
+          name: "InterfaceFromTypesPackage",
+          localName: "InterfaceFromTypesPackage",
+          isTypeOnly: true,
+        },
+      ]);
+      expect(result.renamedDeclarations).toEqual([
+        { name: "Options", normalizedName: "Options$1", sourceFile: path.join(fixtureDir, "server.ts") },
+      ]);
+      expect(result.removedDeclarations).toEqual([
+        { name: "UnusedClientType", sourceFile: path.join(fixtureDir, "client.ts") },
+      ]);
+      expect(result.referencedTypesLibraries).toEqual([]);
+    });
+
+    it("should report the timings of each phase and the number of files and declarations", () => {
+      const { stats } = bundleTypesDetailed({
+        entry: path.join(fixturesDir, "detailed-result/input.ts"),
+        noBanner: true,
+        validate: true,
+      });
+
+      expect(Object.keys(stats.timings)).toEqual([
+        "collect",
+        "parse",
+        "analyze",
+        "normalize",
+        "shake",
+        "generate",
+        "validate",
+      ]);
+      expect(Object.values(stats.timings).every((duration) => duration >= 0)).toBe(true);
+      expect(stats.fileCount).toBeGreaterThanOrEqual(3);
+      expect(stats.declarationCount).toBeGreaterThanOrEqual(4);
+    });
+
+    it("should report referenced types libraries", () => {
+      const result = bundleTypesDetailed({
+        entry: path.join(fixturesDir, "import-from-types-cause-reference-types/input.ts"),
+        allowedTypesLibraries: ["node", "fake-types-lib-2"],
+        importedLibraries: ["events", "fake-types-lib-2.5"],
+      });
+      expect(result.referencedTypesLibraries).toEqual(["fake-types-lib-2", "node"]);
+    });
+
+    it("should report syntax errors in included files", () => {
+      const entry = path.join(fixturesDir, "syntax-error-diagnostics/input.ts");
+      const { diagnostics } = bundleTypesDetailed({ entry, noBanner: true });
+      expect(diagnostics).toEqual([
+        { code: "TS1110", severity: "error", message: "Type expected.", file: entry, line: 5, column: 17 },
+      ]);
+    });
+
+    it("should return one result per entry when entries is used", () => {
+      const fixtureDir = path.join(fixturesDir, "multiple-entries");
+      const results = bundleTypesDetailed({
+        entries: { index: path.join(fixtureDir, "input.ts"), react: path.join(fixtureDir, "react.ts") },
+      });
+      expect(Object.keys(results)).toEqual(["index", "react"]);
+      expect(results.index.includedFiles).not.toContain(path.join(fixtureDir, "react-only.ts"));
+      expect(results.react.includedFiles).toContain(path.join(fixtureDir, "react-only.ts"));
+    });
+  });
+
+  describe("Declaration Maps", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/detailed-result");
+    const entry = path.join(fixtureDir, "input.ts");
+
+    it("should map declarations back to their original files through renames", () => {
+      const outFile = path.join(fixtureDir, "dist", "index.d.ts");
+      const { code, declarationMap } = bundleTypesDetailed({ entry, noBanner: true, declarationMap: true, outFile });
+
+      expect(code).toBe(`${bundleTypes({ entry, noBanner: true })}//# sourceMappingURL=index.d.ts.map\n`);
+      expect(JSON.parse(declarationMap as string)).toEqual({
+        version: 3,
+        file: "index.d.ts",
+        sources: ["../client.ts", "../server.ts", "../input.ts"],
+        names: [
+          "Options",
+          "url",
+          "ClientConfig",
+          "options",
+          "port",
+          "ServerConfig",
+          "Config",
+          "client",
+          "server",
+          "extra",
+          "typesPackage",
+        ],
+        // `interface Options$1` (line 10) maps to `Options` at server.ts:1:11
+        mappings:
+          ";;;AAAA,UAAUA;EACRC;;AAGF,UAAiBC;EACfC;;ACLF,UAAUH;EACRI;;AAGF,UAAiBC;EACfF;;ACAF,iBAAiBG;EACfC;EACAC;EACAC;EACAC",
+      });
+    });
+
+    it("should use absolute sources without outFile", () => {
+      const { code, declarationMap } = bundleTypesDetailed({ entry, noBanner: true, declarationMap: true });
+      expect(code).not.toContain("sourceMappingURL");
+      expect((JSON.parse(declarationMap as string) as { sources: string[] }).sources).toEqual([
+        path.join(fixtureDir, "client.ts"),
+        path.join(fixtureDir, "server.ts"),
+        entry,
+      ]);
+    });
+
+    it("should not build a declaration map by default", () => {
+      expect(bundleTypesDetailed({ entry, noBanner: true }).declarationMap).toBeUndefined();
+    });
+
+    it("should write a declaration map next to each package output", () => {
+      const packageDir = path.resolve(__dirname, "fixtures/package-exports");
+      const distDir = path.join(packageDir, "dist");
+      try {
+        bundlePackageTypes({ packagePath: packageDir, noBanner: true, declarationMap: true });
+        expect(fs.readdirSync(distDir).sort()).toEqual([
+          "index.d.ts",
+          "index.d.ts.map",
+          "react.d.cts",
+          "react.d.cts.map",
+          "react.d.mts",
+          "react.d.mts.map",
+        ]);
+        const map = JSON.parse(fs.readFileSync(path.join(distDir, "react.d.mts.map"), "utf8")) as { file: string };
+        expect(map.file).toBe("react.d.mts");
+        expect(fs.readFileSync(path.join(distDir, "react.d.mts"), "utf8")).toMatch(
+          /\/\/# sourceMappingURL=react\.d\.mts\.map\n$/,
+        );
+      } finally {
+        fs.rmSync(distDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("In-Memory Files", () => {
+    const root = path.resolve("/virtual-package");
+    const files = {
+      [path.join(root, "tsconfig.json")]: JSON.stringify({
+        compilerOptions: {
+          strict: true,
+          module: "esnext",
+          moduleResolution: "bundler",
+          rootDir: "src",
+          outDir: "dist",
+        },
+      }),
+      [path.join(root, "package.json")]: JSON.stringify({ types: "./dist/index.d.ts" }),
+      [path.join(root, "src", "index.ts")]:
+        'export type { Options } from "./options";\nexport * from "./generated/api";\n',
+      [path.join(root, "src", "options.ts")]: "export interface Options {\n  url: string;\n}\n",
+      [path.join(root, "src", "generated", "api.d.ts")]:
+        'import type { Options } from "../options";\nexport declare function create(options: Options): Promise<void>;\n',
+    };
+    const expected = [
+      "export interface Options {",
+      "  url: string;",
+      "}",
+      "export declare function create(options: Options): Promise<void>;",
+      "",
+    ].join("\n");
+
+    it("should bundle files that only exist in memory", () => {
+      const result = bundleTypesDetailed({ entry: path.join(root, "src", "index.ts"), files, noBanner: true });
+      expect(result.code).toBe(expected);
+      expect(result.diagnostics).toEqual([]);
+      expect(result.includedFiles).toEqual([
+        path.join(root, "src", "index.ts"),
+        path.join(root, "src", "options.ts"),
+        path.join(root, "src", "generated", "api.d.ts"),
+      ]);
+    });
+
+    it("should let in-memory files replace files on disk", () => {
+      const fixtureDir = path.resolve(__dirname, "fixtures/basic-imports");
+      const result = bundleTypes({
+        entry: path.join(fixtureDir, "input.ts"),
+        files: { [path.join(fixtureDir, "input.ts")]: "export type Replaced = string;\n" },
+        noBanner: true,
+      });
+      expect(result).toBe("export type Replaced = string;\n");
+    });
+
+    it("should read every file through a custom system", () => {
+      const virtualFiles = new Map(Object.entries(files));
+      const readFiles = new Set<string>();
+      const system: ts.System = {
+        ...ts.sys,
+        fileExists: (fileName) => virtualFiles.has(fileName) || ts.sys.fileExists(fileName),
+        readFile: (fileName) => {
+          readFiles.add(fileName);
+          return virtualFiles.get(fileName) ?? ts.sys.readFile(fileName);
+        },
+      };
+
+      expect(bundleTypes({ entry: path.join(root, "src", "index.ts"), system, noBanner: true })).toBe(expected);
+      expect(readFiles).toContain(path.join(root, "tsconfig.json"));
+      expect(readFiles).toContain(path.join(root, "src", "generated", "api.d.ts"));
+    });
+
+    it("should resolve renamed re-exports of in-memory files without the disk", () => {
+      const entry = path.join(root, "src", "index.ts");
+      const existsSync = vi.spyOn(fs, "existsSync");
+      const realpathSync = vi.spyOn(fs, "realpathSync");
+      try {
+        const result = bundleTypes({
+          entry,
+          files: {
+            ...files,
+            [entry]: 'export { Options as ClientOptions } from "./client";\nexport { Options } from "./server";\n',
+            [path.join(root, "src", "client.ts")]: "export interface Options {\n  url: string;\n}\n",
+            [path.join(root, "src", "server.ts")]: "export interface Options {\n  port: number;\n}\n",
+          },
+          noBanner: true,
+        });
+        expect(result).toBe(
+          [
+            "interface Options {",
+            "  url: string;",
+            "}",
+            "interface Options$1 {",
+            "  port: number;",
+            "}",
+            "",
+            "export type { Options as ClientOptions, Options$1 as Options };",
+            "",
+          ].join("\n"),
+        );
+        const diskPaths = [...existsSync.mock.calls, ...realpathSync.mock.calls].map(([fileName]) => String(fileName));
+        expect(diskPaths.filter((fileName) => fileName.startsWith(root))).toEqual([]);
+      } finally {
+        existsSync.mockRestore();
+        realpathSync.mockRestore();
+      }
+    });
+
+    it("should bundle a package from in-memory files", () => {
+      const [bundle] = bundlePackageTypes({ packagePath: root, files, noBanner: true, write: false });
+      expect(bundle.output).toBe(path.join(root, "dist", "index.d.ts"));
+      expect(bundle.content).toBe(expected);
+    });
+  });
+
+  describe("Watch Mode", () => {
+    const watchTimeout = 20000;
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    // TypeScript does not watch unresolved imports in directories close to the root (e.g. /tmp/x)
+    const createWatchDir = (files: Record<string, string>) => {
+      const parentDir = path.join(os.tmpdir(), "dts-bundler");
+      fs.mkdirSync(parentDir, { recursive: true });
+      const dir = fs.mkdtempSync(path.join(parentDir, "watch-"));
+      for (const [fileName, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(dir, fileName), content);
+      }
+      return dir;
+    };
+
+    const startWatching = (dir: string, options: { failOnWarnings?: boolean } = {}) => {
+      const bundles: { result: BundleResult; info: RebuildInfo }[] = [];
+      const errors: Error[] = [];
+      const watcher = watchTypes({
+        entry: path.join(dir, "index.ts"),
+        noBanner: true,
+        debounce: 50,
+        ...options,
+        onBundle: (result, info) => bundles.push({ result, info }),
+        onError: (error) => errors.push(error),
+      });
+      return { watcher, bundles, errors };
+    };
+
+    it(
+      "should bundle initially and rebuild once for a burst of changes",
+      async () => {
+        const dir = createWatchDir({
+          "index.ts": 'export type { A } from "./a";\nexport type { B } from "./b";\n',
+          "a.ts": "export type A = string;\n",
+          "b.ts": "export type B = string;\n",
+        });
+        const { watcher, bundles } = startWatching(dir);
+        try {
+          expect(bundles).toHaveLength(1);
+          expect(bundles[0].info.changedFiles).toEqual([]);
+          expect(bundles[0].result.code).toBe("export type A = string;\nexport type B = string;\n");
+
+          fs.writeFileSync(path.join(dir, "a.ts"), "export type A = number;\n");
+          fs.writeFileSync(path.join(dir, "b.ts"), "export type B = number;\n");
+          await vi.waitFor(() => expect(bundles).toHaveLength(2), { timeout: 5000 });
+          await sleep(500);
+
+          expect(bundles).toHaveLength(2);
+          expect(bundles[1].info.changedFiles.sort()).toEqual([path.join(dir, "a.ts"), path.join(dir, "b.ts")]);
+          expect(bundles[1].result.code).toBe("export type A = number;\nexport type B = number;\n");
+        } finally {
+          watcher.close();
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      watchTimeout,
+    );
+
+    it(
+      "should report errors of onBundle and keep watching",
+      async () => {
+        const dir = createWatchDir({ "index.ts": "export type A = string;\n" });
+        const codes: string[] = [];
+        const errors: Error[] = [];
+        const watcher = watchTypes({
+          entry: path.join(dir, "index.ts"),
+          noBanner: true,
+          debounce: 50,
+          onBundle: (result) => {
+            codes.push(result.code);
+            if (codes.length === 2) {
+              throw new Error("EACCES: permission denied");
+            }
+          },
+          onError: (error) => errors.push(error),
+        });
+        try {
+          fs.writeFileSync(path.join(dir, "index.ts"), "export type A = number;\n");
+          await vi.waitFor(() => expect(errors).toHaveLength(1), { timeout: 5000 });
+          expect(errors[0].message).toBe("EACCES: permission denied");
+
+          fs.writeFileSync(path.join(dir, "index.ts"), "export type A = boolean;\n");
+          await vi.waitFor(() => expect(codes).toHaveLength(3), { timeout: 5000 });
+          expect(codes[2]).toBe("export type A = boolean;\n");
+        } finally {
+          watcher.close();
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      watchTimeout,
+    );
+
+    it(
+      "should not rebuild for files outside the bundled graph",
+      async () => {
+        const dir = createWatchDir({
+          "index.ts": 'export type { A } from "./a";\n',
+          "a.ts": "export type A = string;\n",
+        });
+        const { watcher, bundles } = startWatching(dir);
+        try {
+          fs.writeFileSync(path.join(dir, "unrelated.ts"), "export type U = string;\n");
+          await sleep(1000);
+          expect(bundles).toHaveLength(1);
+
+          fs.writeFileSync(path.join(dir, "a.ts"), "export type A = number;\n");
+          await vi.waitFor(() => expect(bundles).toHaveLength(2), { timeout: 5000 });
+          expect(bundles[1].info.changedFiles).toEqual([path.join(dir, "a.ts")]);
+        } finally {
+          watcher.close();
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      watchTimeout,
+    );
+
+    it(
+      "should report failed builds and recover when the missing file is created",
+      async () => {
+        const dir = createWatchDir({ "index.ts": 'export type { C } from "./c";\n' });
+        const { watcher, bundles, errors } = startWatching(dir, { failOnWarnings: true });
+        try {
+          expect(bundles).toHaveLength(0);
+          expect(errors).toHaveLength(1);
+          expect(errors[0]).toBeInstanceOf(BundleDiagnosticError);
+
+          fs.writeFileSync(path.join(dir, "c.ts"), "export type C = boolean;\n");
+          await vi.waitFor(() => expect(bundles).toHaveLength(1), { timeout: 5000 });
+          expect(bundles[0].info.changedFiles).toEqual([path.join(dir, "c.ts")]);
+          expect(bundles[0].result.code).toBe("export type C = boolean;\n");
+        } finally {
+          watcher.close();
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      watchTimeout,
+    );
+
+    it(
+      "should stop rebuilding after close()",
+      async () => {
+        const dir = createWatchDir({
+          "index.ts": 'export type { A } from "./a";\n',
+          "a.ts": "export type A = string;\n",
+        });
+        const { watcher, bundles } = startWatching(dir);
+        try {
+          watcher.close();
+          fs.writeFileSync(path.join(dir, "a.ts"), "export type A = number;\n");
+          await sleep(1000);
+          expect(bundles).toHaveLength(1);
+        } finally {
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      watchTimeout,
+    );
+  });
+
+  describe("Build Cache", () => {
+    const root = path.resolve("/cached-package");
+    const entry = path.join(root, "index.ts");
+    const files = {
+      [entry]: 'export type { Options } from "./options";\n',
+      [path.join(root, "options.ts")]: "export interface Options {\n  url: string;\n}\n",
+    };
+
+    const withCacheDir = (run: (cacheDir: string, collectFiles: MockInstance) => void) => {
+      const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "dts-bundler-cache-"));
+      const collectFiles = vi.spyOn(FileCollector.prototype, "collectFiles");
+      try {
+        run(cacheDir, collectFiles);
+      } finally {
+        collectFiles.mockRestore();
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+      }
+    };
+
+    it("should return the cached result when nothing changed", () => {
+      withCacheDir((cacheDir, collectFiles) => {
+        const first = bundleTypesDetailed({ entry, files, cacheDir, noBanner: true });
+        const second = bundleTypesDetailed({ entry, files, cacheDir, noBanner: true });
+        expect(second).toEqual(first);
+        expect(fs.readdirSync(cacheDir)).toHaveLength(1);
+        expect(collectFiles).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it("should rebuild when a collected file changes", () => {
+      withCacheDir((cacheDir, collectFiles) => {
+        bundleTypesDetailed({ entry, files, cacheDir, noBanner: true });
+        const changedFiles = {
+          ...files,
+          [path.join(root, "options.ts")]: "export interface Options {\n  port: number;\n}\n",
+        };
+        const result = bundleTypesDetailed({ entry, files: changedFiles, cacheDir, noBanner: true });
+        expect(result.code).toBe("export interface Options {\n  port: number;\n}\n");
+        expect(collectFiles).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it("should rebuild when the options or compiler options change", () => {
+      withCacheDir((cacheDir, collectFiles) => {
+        bundleTypesDetailed({ entry, files, cacheDir, noBanner: true });
+        bundleTypesDetailed({ entry, files, cacheDir, noBanner: true, sortNodes: true });
+        bundleTypesDetailed({ entry, files, cacheDir, noBanner: true, compilerOptions: { strict: false } });
+        expect(fs.readdirSync(cacheDir)).toHaveLength(3);
+        expect(collectFiles).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    it("should report the diagnostics of a cached result again", () => {
+      const brokenFiles = { [entry]: 'export type { Missing } from "./missing";\n' };
+      withCacheDir((cacheDir) => {
+        const first: BundleDiagnostic[] = [];
+        bundleTypesDetailed({
+          entry,
+          files: brokenFiles,
+          cacheDir,
+          noBanner: true,
+          onDiagnostic: (d) => first.push(d),
+        });
+        const second: BundleDiagnostic[] = [];
+        bundleTypesDetailed({
+          entry,
+          files: brokenFiles,
+          cacheDir,
+          noBanner: true,
+          onDiagnostic: (d) => second.push(d),
+        });
+        expect(first).toHaveLength(1);
+        expect(second).toEqual(first);
+        expect(() =>
+          bundleTypes({ entry, files: brokenFiles, cacheDir, noBanner: true, failOnWarnings: true }),
+        ).toThrow(BundleDiagnosticError);
+      });
+    });
+
+    it("should cache multi-entry builds", () => {
+      const entries = { ".": entry, "./options": path.join(root, "options.ts") };
+      withCacheDir((cacheDir, collectFiles) => {
+        const first = bundleTypesDetailed({ entries, files, cacheDir, noBanner: true });
+        const second = bundleTypesDetailed({ entries, files, cacheDir, noBanner: true });
+        expect(second).toEqual(first);
+        expect(collectFiles).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it("should rebuild when the package.json of the banner variables changes", () => {
+      const packageJson = path.join(root, "package.json");
+      const banner = "// {{packageName}} v{{packageVersion}}";
+      withCacheDir((cacheDir, collectFiles) => {
+        const first = bundleTypes({
+          entry,
+          files: { ...files, [packageJson]: '{ "name": "cached", "version": "1.0.0" }' },
+          cacheDir,
+          banner,
+        });
+        const second = bundleTypes({
+          entry,
+          files: { ...files, [packageJson]: '{ "name": "cached", "version": "1.1.0" }' },
+          cacheDir,
+          banner,
+        });
+        expect(first).toMatch(/^\/\/ cached v1\.0\.0\n/);
+        expect(second).toMatch(/^\/\/ cached v1\.1\.0\n/);
+        expect(collectFiles).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it("should rebuild a banner using the date on the next day", () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        withCacheDir((cacheDir, collectFiles) => {
+          vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+          const first = bundleTypes({ entry, files, cacheDir, banner: "// {{date}}" });
+          const sameDay = bundleTypes({ entry, files, cacheDir, banner: "// {{date}}" });
+          vi.setSystemTime(new Date("2026-01-02T12:00:00Z"));
+          const nextDay = bundleTypes({ entry, files, cacheDir, banner: "// {{date}}" });
+          expect(sameDay).toBe(first);
+          expect(first).toMatch(/^\/\/ 2026-01-01\n/);
+          expect(nextDay).toMatch(/^\/\/ 2026-01-02\n/);
+          expect(collectFiles).toHaveBeenCalledTimes(2);
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should reject a function banner or footer and plugins", () => {
+      withCacheDir((cacheDir) => {
+        expect(() => bundleTypes({ entry, files, cacheDir, banner: () => "// banner" })).toThrow(
+          "The 'banner' option cannot be a function when 'cacheDir' is set",
+        );
+        expect(() => bundleTypes({ entry, files, cacheDir, footer: () => "// footer" })).toThrow(
+          "The 'footer' option cannot be a function when 'cacheDir' is set",
+        );
+        expect(() => bundleTypes({ entry, files, cacheDir, plugins: [{ name: "plugin" }] })).toThrow(
+          "The 'plugins' option cannot be used with 'cacheDir'",
+        );
+      });
+    });
+  });
+
+  describe("Bundle Validation", () => {
+    const entry = path.resolve(__dirname, "fixtures/external-types/input.ts");
+
+    it("should not report diagnostics for a bundle that type-checks", () => {
+      const result = bundleTypesDetailed({ entry, allowedTypesLibraries: ["mocha"], noBanner: true, validate: true });
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it("should report errors of the bundle at the offending declaration", () => {
+      // Without the reference directive the bundle no longer sees the mocha globals
+      const result = bundleTypesDetailed({ entry, noBanner: true, validate: true });
+      expect(result.diagnostics).toEqual([
+        {
+          code: DiagnosticCode.InvalidBundle,
+          severity: "error",
+          message: "Bundled declaration 'InterfaceName' does not type-check: Cannot find name 'BrowserMocha'. (TS2304)",
+          file: entry,
+          line: 3,
+          column: 1,
+        },
+      ]);
+    });
+
+    it("should fail the build with failOnWarnings", () => {
+      expect(() => bundleTypes({ entry, noBanner: true, validate: true, failOnWarnings: true })).toThrow(
+        BundleDiagnosticError,
+      );
+    });
+  });
+
+  describe("Public API Verification", () => {
+    const getApiMismatches = (fixture: string): BundleDiagnostic[] =>
+      bundleTypesDetailed({
+        entry: path.resolve(__dirname, `fixtures/${fixture}/input.ts`),
+        noBanner: true,
+        verifyApi: true,
+      }).diagnostics.filter(({ code }) => code === DiagnosticCode.ApiMismatch);
+
+    it("should not report diagnostics when the bundle exports the API of the entry", () => {
+      expect(getApiMismatches("basic-imports")).toEqual([]);
+      expect(getApiMismatches("export-wrapped-with-namespace-chain")).toEqual([]);
+    });
+
+    it("should report exports missing from the bundle with their origin", () => {
+      expect(getApiMismatches("underscore-in-name")).toEqual([
+        {
+          code: DiagnosticCode.ApiMismatch,
+          severity: "error",
+          message: "Export '__index' (re-exported from ./func.ts) is missing from the bundle",
+          file: path.resolve(__dirname, "fixtures/underscore-in-name/func.ts"),
+          line: 1,
+          column: 1,
+        },
+      ]);
+    });
+
+    it("should report exports whose type changed in the bundle", () => {
+      // The inferred return type cannot be emitted and falls back to `void`
+      expect(getApiMismatches("diagnostics")).toEqual([
+        {
+          code: DiagnosticCode.ApiMismatch,
+          severity: "error",
+          message: "Export 'createResult' has a different type in the bundle",
+          file: path.resolve(__dirname, "fixtures/diagnostics/input.ts"),
+          line: 11,
+          column: 1,
+        },
+      ]);
+    });
+
+    it("should fail the build with failOnWarnings", () => {
+      const entry = path.resolve(__dirname, "fixtures/underscore-in-name/input.ts");
+      expect(() => bundleTypes({ entry, verifyApi: true, failOnWarnings: true })).toThrow(/DTS1006: Export '__index'/);
+    });
+  });
+
+  describe("Ambient Modules", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/ambient-module");
+    const entry = path.join(fixtureDir, "input.ts");
+
+    it("should wrap the bundle in a declare module block", () => {
+      const { expected, result } = runTestCase("ambient-module", { ambientModule: "@qlik/sdk" });
+      expect(result).toBe(expected);
+    });
+
+    it("should validate and verify the API of an ambient module", () => {
+      const { diagnostics, declarationMap } = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        ambientModule: "@qlik/sdk",
+        validate: true,
+        verifyApi: true,
+        declarationMap: true,
+      });
+      expect(diagnostics).toEqual([]);
+      // `type Mode` is on the fourth line of the bundle, indented in the module block
+      expect(JSON.parse(declarationMap ?? "{}").mappings).toMatch(/^;;;EAOA,KAAYA;/);
+    });
+
+    it("should bundle several entries into one file of declare module blocks", () => {
+      const result = bundleAmbientModules({
+        entries: { ".": entry, "./react": path.join(fixtureDir, "react.ts") },
+        ambientModule: "@qlik/sdk",
+        noBanner: true,
+      });
+      expect(result).toBe(fs.readFileSync(path.join(fixtureDir, "expected-modules.d.ts"), "utf8"));
+    });
+
+    it("should split the bundle of each entry at its own declare module block", () => {
+      const entries = { ".": entry, "./react": path.join(fixtureDir, "react.ts") };
+      const banner = '/*\ndeclare module "@qlik/sdk-legacy" {\n}\n*/';
+      const result = bundleAmbientModules({ entries, ambientModule: "@qlik/sdk", banner });
+      const expected = fs.readFileSync(path.join(fixtureDir, "expected-modules.d.ts"), "utf8");
+      expect(result).toBe(`${banner}\n\n${expected}`);
+
+      const plugin: BundlePlugin = {
+        name: "unwrap",
+        transformOutput: (code) => code.replace(/^declare module .*\n/m, ""),
+      };
+      expect(() =>
+        bundleAmbientModules({ entries, ambientModule: "@qlik/sdk", noBanner: true, plugins: [plugin] }),
+      ).toThrow(`Cannot find the single 'declare module "@qlik/sdk" {' block in the bundle of the entry '.'`);
+    });
+
+    it("should reject umdModuleName", () => {
+      expect(() => bundleTypes({ entry, ambientModule: "@qlik/sdk", umdModuleName: "Sdk" })).toThrow(
+        "The 'umdModuleName' option cannot be used with 'ambientModule'",
+      );
+    });
+  });
+
+  describe("Global Scripts", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/global-script");
+    const entry = path.join(fixtureDir, "input.ts");
+
+    it("should declare the exports as globals and reference external types with import()", () => {
+      const { expected, result } = runTestCase("global-script", { globalScript: true });
+      expect(result).toBe(expected);
+    });
+
+    it("should wrap the declarations in a global namespace", () => {
+      const result = bundleTypes({ entry, noBanner: true, globalNamespace: "WidgetKit" });
+      expect(result).toBe(fs.readFileSync(path.join(fixtureDir, "expected-namespace.d.ts"), "utf8"));
+    });
+
+    it("should validate and verify the API of a global script", () => {
+      for (const options of [{ globalScript: true }, { globalNamespace: "WidgetKit" }]) {
+        const { diagnostics } = bundleTypesDetailed({
+          entry,
+          noBanner: true,
+          validate: true,
+          verifyApi: true,
+          ...options,
+        });
+        expect(diagnostics).toEqual([]);
+      }
+    });
+
+    it("should report the exports a global script cannot represent", () => {
+      const diagnostics: BundleDiagnostic[] = [];
+      expect(() =>
+        bundleTypes({
+          entry: path.join(fixtureDir, "unsupported.ts"),
+          noBanner: true,
+          globalScript: true,
+          onDiagnostic: (diagnostic) => diagnostics.push(diagnostic),
+        }),
+      ).toThrow(BundleDiagnosticError);
+      expect(diagnostics.map(({ code, message }) => `${code}: ${message}`)).toEqual([
+        `DTS1008: 'Widget' extends 'Interface' imported from "fake-package", which cannot be referenced in a global script`,
+        "DTS1008: The default export cannot be represented in a global script",
+        `DTS1008: Export 'Type' re-exported from "fake-package" cannot be represented in a global script`,
+        "DTS1008: Export 'WidgetTheme' of 'Theme' cannot be renamed in a global script",
+      ]);
+    });
+
+    it("should reject declare global blocks in a global namespace", () => {
+      expect(() =>
+        bundleTypes({
+          entry: path.resolve(__dirname, "fixtures/inline-declare-global/input.ts"),
+          inlineDeclareGlobals: true,
+          globalNamespace: "WidgetKit",
+        }),
+      ).toThrow("A 'declare global' block cannot be nested in the global namespace 'WidgetKit'");
+    });
+
+    it("should reject ambientModule and umdModuleName", () => {
+      expect(() => bundleTypes({ entry, globalScript: true, ambientModule: "widget-kit" })).toThrow(
+        "The 'ambientModule' option cannot be used with 'globalScript'",
+      );
+      expect(() => bundleTypes({ entry, globalNamespace: "WidgetKit", umdModuleName: "WidgetKit" })).toThrow(
+        "The 'umdModuleName' option cannot be used with 'globalScript'",
+      );
+    });
+  });
+
+  describe("Output Format", () => {
+    const entry = path.resolve(__dirname, "fixtures/output-format/input.ts");
+
+    it("should indent with tabs, use single quotes and omit semicolons", () => {
+      const { expected, result } = runTestCase("output-format", {
+        format: { indentStyle: "tab", quoteStyle: "single", semicolons: false },
+      });
+      expect(result).toBe(expected);
+    });
+
+    it("should apply the indent width, line endings and trailing newline of the format", () => {
+      const { code, diagnostics } = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        validate: true,
+        verifyApi: true,
+        format: { indentWidth: 4, endOfLine: "crlf", trailingNewline: false },
+      });
+      expect(diagnostics).toEqual([]);
+      expect(code).not.toMatch(/(?<!\r)\n/);
+      expect(code).toContain('\r\n    mode: "fill" | "stroke";\r\n    label: `canvas-${string}`;\r\n');
+      expect(code).toMatch(/\r\n}$/);
+    });
+
+    it("should append the sourceMappingURL comment in the format of the bundle", () => {
+      const { code } = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        declarationMap: true,
+        outFile: "/dist/index.d.ts",
+        format: { endOfLine: "crlf", trailingNewline: false },
+      });
+      expect(code).toMatch(/\r\n}\r\n\/\/# sourceMappingURL=index\.d\.ts\.map$/);
+    });
+
+    it("should reject invalid format options", () => {
+      expect(() => bundleTypes({ entry, format: { indentStyle: "tabs" as "tab" } })).toThrow(
+        `The 'format.indentStyle' option must be "space" or "tab"`,
+      );
+      expect(() => bundleTypes({ entry, format: { indentWidth: 0 } })).toThrow(
+        "The 'format.indentWidth' option must be a positive integer",
+      );
+    });
+  });
+
+  describe("Plugins", () => {
+    const entry = path.resolve(__dirname, "fixtures/plugins/input.ts");
+
+    it("should run the hooks of the plugins at the phase boundaries", () => {
+      const calls: string[] = [];
+      const plugin: BundlePlugin = {
+        name: "public-api",
+        afterCollect: (files, { entryFile }) => {
+          calls.push(`afterCollect ${files.size} ${path.basename(entryFile)}`);
+        },
+        afterParse: (declarations) => {
+          calls.push(`afterParse ${[...declarations.values()].map(({ name }) => name).join(",")}`);
+        },
+        afterShake: (keptIds, declarations) => {
+          calls.push(`afterShake ${keptIds.size}`);
+          for (const id of keptIds) {
+            const declaration = declarations.get(id);
+            if (declaration?.name === "Internal") {
+              keptIds.delete(id);
+            } else if (declaration?.name === "Options") {
+              declaration.normalizedName = "CreateOptions";
+            }
+          }
+        },
+        transformDeclaration: () => (node) =>
+          ts.addSyntheticLeadingComment(node, ts.SyntaxKind.MultiLineCommentTrivia, "* @public ", true),
+        transformOutput: (code) => {
+          calls.push("transformOutput");
+          return `${code}// Generated with the public-api plugin\n`;
+        },
+      };
+
+      const { expected, result } = runTestCase("plugins", { plugins: [plugin], validate: true });
+      expect(result).toBe(expected);
+      expect(calls).toEqual([
+        "afterCollect 2 input.ts",
+        "afterParse Helper,Options,Internal,create,VERSION",
+        "afterShake 5",
+        "transformOutput",
+      ]);
+    });
+
+    it("should run the output hooks for every rollup with its release level", () => {
+      const releaseLevels: (string | undefined)[] = [];
+      const result = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        rollups: ["public"],
+        plugins: [
+          {
+            name: "release-level",
+            afterShake: (_keptIds, _declarations, { releaseLevel }) => {
+              releaseLevels.push(releaseLevel);
+            },
+            transformOutput: (code, { releaseLevel }) => `// ${releaseLevel ?? "full"}\n${code}`,
+          },
+        ],
+      });
+      expect(releaseLevels).toEqual([undefined, "public"]);
+      expect(result.code).toMatch(/^\/\/ full\n/);
+      expect(result.rollups?.public?.code).toMatch(/^\/\/ public\n/);
+    });
+
+    it("should keep the declaration map of output with added lines", () => {
+      const plain = bundleTypesDetailed({ entry, noBanner: true, declarationMap: true });
+      const withHeader = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        declarationMap: true,
+        plugins: [{ name: "header", transformOutput: (code) => `// header\n// generated\n${code}` }],
+      });
+      const mappings = (result: BundleResult): string =>
+        (JSON.parse(result.declarationMap ?? "{}") as { mappings: string }).mappings;
+      expect(mappings(withHeader)).toBe(`;;${mappings(plain)}`);
+    });
+
+    it("should reject output rewrites with a declaration map or validation", () => {
+      const plugin: BundlePlugin = {
+        name: "rewrite",
+        transformOutput: (code) => code.split("\n").reverse().join("\n"),
+      };
+      for (const option of ["declarationMap", "validate"]) {
+        expect(() => bundleTypes({ entry, noBanner: true, plugins: [plugin], [option]: true })).toThrow(
+          "The 'transformOutput' hook of a plugin can only add lines before or after the bundle",
+        );
+      }
+    });
+
+    it("should name the plugin and hook of an error", () => {
+      const plugin: BundlePlugin = {
+        name: "broken",
+        afterParse: () => {
+          throw new Error("Unexpected declaration");
+        },
+      };
+      expect(() => bundleTypes({ entry, plugins: [plugin] })).toThrow(
+        "Plugin 'broken' failed in 'afterParse': Unexpected declaration",
+      );
+    });
+
+    it("should reject plugins without a name", () => {
+      expect(() => bundleTypes({ entry, plugins: [{ name: "" }] })).toThrow(
+        "Every plugin of the 'plugins' option must have a 'name'",
+      );
+    });
+  });
+
+  describe("Banner and Footer", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/custom-banner");
+    const entry = path.join(fixtureDir, "input.ts");
+    const banner = "/*!\n * {{packageName}} v{{packageVersion}}\n *\n * Do not edit, generated from {{ entry }}\n */";
+
+    it("should replace the banner and add a footer from templates", () => {
+      const { expected, result } = runTestCase("custom-banner", {
+        noBanner: false,
+        banner,
+        footer: "// End of {{packageName}}\n",
+      });
+      expect(result).toBe(expected);
+    });
+
+    it("should call banner functions with the variables", () => {
+      const variables: BannerVariables[] = [];
+      const result = bundleTypes({
+        entry,
+        banner: (bannerVariables) => {
+          variables.push(bannerVariables);
+          return "";
+        },
+        footer: ({ packageName }) => `// ${packageName}`,
+        format: { endOfLine: "crlf" },
+      });
+      expect(variables).toEqual([
+        {
+          packageName: "@acme/widgets",
+          packageVersion: "1.2.3",
+          entry: "input.ts",
+          bundlerVersion: expect.any(String) as string,
+          date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/) as string,
+        },
+      ]);
+      // An empty banner falls back to the generated one
+      expect(result).toMatch(/^\/\/ Generated by @qlik\/dts-bundler.*\r\n/);
+      expect(result.endsWith("\r\n\r\n// @acme/widgets\r\n")).toBe(true);
+    });
+
+    it("should keep the banner as written with the format option", () => {
+      const result = bundleTypes({
+        entry,
+        banner: "/**\n * 'Widgets';\n */",
+        format: { indentStyle: "tab", quoteStyle: "single", semicolons: false },
+      });
+      expect(result.startsWith("/**\n * 'Widgets';\n */\n\n")).toBe(true);
+      expect(result).toContain("\tname: string\n");
+    });
+
+    it("should hoist the banner and footer of ambient modules once", () => {
+      const result = bundleAmbientModules({
+        entries: { ".": entry, "./theme": path.join(fixtureDir, "other.ts") },
+        ambientModule: "@acme/widgets",
+        banner: "/*!\n * {{packageName}}\n *\n * MIT License\n *\n */",
+        footer: "// End of {{packageName}}",
+      });
+      expect(result).toBe(fs.readFileSync(path.join(fixtureDir, "expected-modules.d.ts"), "utf8"));
+    });
+
+    it("should reject unknown variables and noBanner", () => {
+      expect(() => bundleTypes({ entry, footer: "// {{name}}" })).toThrow(
+        "Unknown variable '{{name}}' in the 'footer' option; expected packageName, packageVersion, entry, bundlerVersion, date",
+      );
+      expect(() => bundleTypes({ entry, noBanner: true, banner })).toThrow(
+        "The 'banner' option cannot be used with 'noBanner'",
+      );
+    });
+  });
+
+  describe("Legal Comments", () => {
+    const entry = path.resolve(__dirname, "fixtures/legal-comments/input.ts");
+    const inlinedLibraries = ["@myorg/licensed"];
+
+    it("should emit the legal comments of the bundled files once at the top", () => {
+      const { expected, result } = runTestCase("legal-comments", { inlinedLibraries, legalComments: "inline" });
+      expect(result).toBe(expected);
+    });
+
+    it("should return the legal comments apart with external", () => {
+      const { code, legalComments, rollups } = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        inlinedLibraries,
+        legalComments: "external",
+        rollups: ["public"],
+        format: { endOfLine: "crlf" },
+      });
+      expect(code).not.toMatch(/@license|\/\*!/);
+      expect(legalComments?.split("\r\n\r\n")).toEqual([
+        "/*!\r\n * Widgets\r\n * Copyright (c) Acme. All rights reserved.\r\n */",
+        "/*! @myorg/licensed v2.0.0 | MIT License */",
+        expect.stringMatching(/^\/\*\*\r\n \* @license\r\n \* Copyright \(c\) My Org\r\n/) as string,
+        "// @license BSD-3-Clause, parts of the local helpers\r\n",
+      ]);
+      expect(rollups?.public?.legalComments).toBe(legalComments);
+    });
+
+    it("should keep legal comments attached to declarations by default", () => {
+      const { code, legalComments } = bundleTypesDetailed({ entry, noBanner: true, inlinedLibraries });
+      expect(code).toContain("/*! @myorg/licensed v2.0.0 | MIT License */\n");
+      expect(code).not.toContain("Unused");
+      expect(legalComments).toBeUndefined();
+    });
+
+    it("should reject unknown modes", () => {
+      expect(() => bundleTypes({ entry, legalComments: "eof" as "inline" })).toThrow(
+        'The \'legalComments\' option must be "none", "inline" or "external"',
+      );
+    });
+  });
+
+  describe("Comments", () => {
+    const entry = path.resolve(__dirname, "fixtures/comments-policy/input.ts");
+
+    it("should keep the JSDoc of exported declarations without the stripped tags", () => {
+      const { expected, result } = runTestCase("comments-policy", {
+        comments: "exported-only",
+        stripJsDocTags: ["example", "@remarks"],
+      });
+      expect(result).toBe(expected);
+    });
+
+    it("should keep every comment with all", () => {
+      const result = bundleTypes({ entry, noBanner: true, comments: "all" });
+      expect(result).toContain("// Default size\n/** Default size of the widgets. */\nexport declare const");
+      expect(result).toContain("id: string; // unique in a page\n  /* Options given at creation */\n");
+    });
+
+    it("should keep JSDoc comments only with jsdoc", () => {
+      const result = bundleTypes({ entry, noBanner: true, comments: "jsdoc" });
+      expect(result).not.toMatch(/\/\/|\/\*(?!\*)/);
+      expect(result).toContain("/**\n * Options of a widget.\n * @example { visible: true }\n */\ninterface Options {");
+    });
+
+    it("should remove every comment with none", () => {
+      const result = bundleTypes({ entry, noBanner: true, comments: "none" });
+      expect(result).not.toMatch(/\/\/|\/\*/);
+      expect(result).toContain("export interface Widget {\n  id: string;\n  options: Options;\n}");
+    });
+
+    it("should reject unknown modes", () => {
+      expect(() => bundleTypes({ entry, comments: "some" as "all" })).toThrow(
+        'The \'comments\' option must be "all", "jsdoc", "exported-only" or "none"',
+      );
+    });
+  });
+
+  describe("Declaration Order", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/order");
+    const entry = path.join(fixtureDir, "input.ts");
+    const orders: DeclarationOrder[] = [
+      "source",
+      "entry-exports",
+      "alphabetical",
+      "kind-then-alphabetical",
+      "dependency",
+    ];
+
+    it("should order the declarations with each strategy", () => {
+      for (const order of orders) {
+        const result = bundleTypes({ entry, noBanner: true, order });
+        expect(result).toBe(fs.readFileSync(path.join(fixtureDir, `expected-${order}.d.ts`), "utf8"));
+      }
+    });
+
+    it("should order by kind then name with sortNodes", () => {
+      const result = bundleTypes({ entry, noBanner: true, sortNodes: true });
+      expect(result).toBe(fs.readFileSync(path.join(fixtureDir, "expected-kind-then-alphabetical.d.ts"), "utf8"));
+    });
+
+    it("should reject unknown strategies and sortNodes with another order", () => {
+      expect(() => bundleTypes({ entry, order: "size" as DeclarationOrder })).toThrow(
+        'The \'order\' option must be "source", "entry-exports", "alphabetical", "kind-then-alphabetical" or "dependency"',
+      );
+      expect(() => bundleTypes({ entry, sortNodes: true, order: "source" })).toThrow(
+        "The 'sortNodes' option cannot be used with 'order'",
+      );
+    });
+  });
+
+  describe("Export Style", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/export-style");
+    const entry = path.join(fixtureDir, "input.ts");
+
+    it("should put export modifiers on declarations with inline, keeping renamed exports in the list", () => {
+      const result = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        exportStyle: "inline",
+        validate: true,
+        verifyApi: true,
+      });
+      expect(result.code).toBe(fs.readFileSync(path.join(fixtureDir, "expected-inline.d.ts"), "utf8"));
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it("should emit a single sorted export list with list", () => {
+      const result = bundleTypesDetailed({
+        entry,
+        noBanner: true,
+        exportStyle: "list",
+        validate: true,
+        verifyApi: true,
+      });
+      expect(result.code).toBe(fs.readFileSync(path.join(fixtureDir, "expected-list.d.ts"), "utf8"));
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it("should add declare to values without it when removing their export modifier", () => {
+      const { expected, result } = runTestCase("allow-arbitrary-extensions", { exportStyle: "list" });
+      expect(expected).toContain("export function test(): typeof hello;");
+      expect(result).toContain("declare function test(): typeof hello;\n\nexport { test };");
+    });
+
+    it("should reject unknown styles and global scripts", () => {
+      expect(() => bundleTypes({ entry, exportStyle: "star" as "list" })).toThrow(
+        'The \'exportStyle\' option must be "inline" or "list"',
+      );
+      expect(() => bundleTypes({ entry, globalScript: true, exportStyle: "list" })).toThrow(
+        "The 'exportStyle' option cannot be used with 'globalScript'",
+      );
+    });
+  });
+
+  describe("Release Tags", () => {
+    const fixtureDir = path.resolve(__dirname, "fixtures/release-tags");
+    const entry = path.join(fixtureDir, "input.ts");
+    const readExpected = (fileName: string): string => fs.readFileSync(path.join(fixtureDir, fileName), "utf8");
+
+    it("should keep @internal declarations and members by default", () => {
+      const result = bundleTypes({ entry, noBanner: true });
+      expect(result).toContain("export declare function resetConnections(): void;");
+      expect(result).toContain("socket: RawSocket;");
+    });
+
+    it("should remove @internal declarations, members and their dependencies with stripInternal", () => {
+      const { expected, result } = runTestCase("release-tags", { stripInternal: true });
+      expect(result).toBe(expected);
+    });
+
+    it("should build public and beta rollups in the same run", () => {
+      const result = bundleTypesDetailed({ entry, noBanner: true, stripInternal: true, rollups: ["public", "beta"] });
+
+      expect(Object.keys(result.rollups ?? {})).toEqual(["beta", "public"]);
+      expect(result.rollups?.public?.code).toBe(readExpected("expected-public.d.ts"));
+      expect(result.rollups?.beta?.code).toBe(readExpected("expected-beta.d.ts"));
+      expect(result.rollups?.public?.externalImports).toEqual([]);
+    });
+
+    it("should report public APIs referencing trimmed declarations", () => {
+      const { rollups } = bundleTypesDetailed({ entry, noBanner: true, rollups: ["beta"] });
+      expect(rollups?.beta?.diagnostics).toEqual([
+        {
+          code: DiagnosticCode.TrimmedReference,
+          severity: "warning",
+          message: "'openSession' references 'Session', which is tagged @alpha and trimmed from the beta rollup",
+          file: entry,
+          line: 15,
+          column: 1,
+        },
+      ]);
+    });
+
+    it("should not report trimmed APIs as missing when verifying the API", () => {
+      const { diagnostics } = bundleTypesDetailed({ entry, noBanner: true, stripInternal: true, verifyApi: true });
+      expect(diagnostics).toEqual([]);
+    });
+
+    it("should reject unknown release levels", () => {
+      expect(() => bundleTypes({ entry, rollups: ["internal" as "public"] })).toThrow(
+        "Unknown rollup release level 'internal'; expected alpha, beta, public",
+      );
+    });
+  });
+
+  describe("Diagnostics", () => {
+    const entry = path.resolve(__dirname, "fixtures/diagnostics/input.ts");
+
+    it("should report unresolved imports and return type fallbacks", () => {
+      const onDiagnostic = vi.fn();
+      const { diagnostics } = bundleTypesDetailed({ entry, noBanner: true, onDiagnostic });
+
+      expect(diagnostics.map(({ code, line, column }) => ({ code, line, column }))).toEqual([
+        { code: DiagnosticCode.UnresolvedImport, line: 1, column: 30 },
+        { code: DiagnosticCode.ReturnTypeFallback, line: 11, column: 1 },
+      ]);
+      expect(diagnostics.every(({ file, severity }) => file === entry && severity === "warning")).toBe(true);
+      expect(onDiagnostic.mock.calls.map(([diagnostic]) => diagnostic)).toEqual(diagnostics);
+    });
+
+    it("should throw when failOnWarnings is enabled and warnings are reported", () => {
+      expect(() => bundleTypes({ entry, failOnWarnings: true })).toThrow(BundleDiagnosticError);
+      expect(() => bundleTypes({ entry, failOnWarnings: true })).toThrow(
+        /failOnWarnings[\s\S]*DTS1001: Cannot resolve module '\.\/missing'/,
+      );
+    });
+
+    it("should report an unreadable version for the banner", () => {
+      const originalContent = fs.readFileSync(packageJsonPath, "utf-8");
+
+      try {
+        fs.writeFileSync(packageJsonPath, "{");
+
+        const { code, diagnostics } = bundleTypesDetailed({
+          entry: path.resolve(__dirname, "fixtures/basic-imports/input.ts"),
+        });
+        expect(code).toContain("// Generated by @qlik/dts-bundler@unversioned");
+        expect(diagnostics.map(({ code: diagnosticCode }) => diagnosticCode)).toEqual([DiagnosticCode.UnknownVersion]);
+      } finally {
+        fs.writeFileSync(packageJsonPath, originalContent);
+      }
+    });
+
+    it("should leave an empty version out of the banner without a warning", () => {
+      const originalContent = fs.readFileSync(packageJsonPath, "utf-8");
+      const pkg = JSON.parse(originalContent) as { version?: string };
+
+      try {
+        fs.writeFileSync(packageJsonPath, `${JSON.stringify({ ...pkg, version: "" }, null, 2)}\n`);
+
+        const { code, diagnostics } = bundleTypesDetailed({
+          entry: path.resolve(__dirname, "fixtures/basic-imports/input.ts"),
+          failOnWarnings: true,
+        });
+        expect(code).toMatch(/^\/\/ Generated by @qlik\/dts-bundler\n/);
+        expect(diagnostics).toEqual([]);
+      } finally {
+        fs.writeFileSync(packageJsonPath, originalContent);
+      }
+    });
+
+    it("should not throw with failOnWarnings when no warnings are reported", () => {
+      const { expected, result } = runTestCase("basic-imports", { failOnWarnings: true });
+      expect(result).toBe(expected);
+    });
   });
 
   describe("Tree Shaking", () => {
@@ -0,0 +1,27 @@
+declare module "@qlik/sdk" {
+  import type { Interface } from "fake-package";
+
+  type Mode = "read" | "write";
+  export interface ClientOptions {
+    url: string;
+    extra?: Interface;
+  }
+  export namespace Utils {
+    function format(value: unknown): string;
+  }
+  export class Client {
+    readonly mode: Mode;
+    close(): void;
+  }
+  /**
+   * Create a client.
+   */
+  export function createClient(options: ClientOptions): Client;
+  export const VERSION: string;
+  export enum Level {
+    Low = 0,
+    High = 1,
+  }
+
+  export { Client as default };
+}
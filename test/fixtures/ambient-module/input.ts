@@ -0,0 +1,26 @@
+import type { ClientOptions, Mode } from "./options";
+
+export type { ClientOptions };
+
+/**
+ * Create a client.
+ */
+export declare function createClient(options: ClientOptions): Client;
+
+export declare class Client {
+  readonly mode: Mode;
+  close(): void;
+}
+
+export declare const VERSION: string;
+
+export declare enum Level {
+  Low,
+  High,
+}
+
+export declare namespace Utils {
+  function format(value: unknown): string;
+}
+
+export default Client;
@@ -0,0 +1,8 @@
+import type { Interface } from "fake-package";
+
+export interface ClientOptions {
+  url: string;
+  extra?: Interface;
+}
+
+export type Mode = "read" | "write";
@@ -0,0 +1,5 @@
+import type { Client } from "./input";
+
+export interface ClientProviderProps {
+  client: Client;
+}
@@ -1,3 +1,3 @@
-// Generated by @qlik/dts-bundler@unversioned
+// Generated by @qlik/dts-bundler
 
 export type TypeName = string | number;
@@ -0,0 +1,21 @@
+interface Options {
+  visible: boolean;
+  size: number;
+}
+/**
+ * A widget of the toolkit.
+ * @public
+ */
+export interface Widget {
+  /** Identifier of the widget. */
+  id: string;
+  options: Options;
+}
+/**
+ * Create a widget.
+ * @param name - Name of the widget
+ * @returns The widget
+ */
+export declare function createWidget(name: string): Widget;
+/** Default size of the widgets. */
+export declare const DEFAULT_SIZE = 10;
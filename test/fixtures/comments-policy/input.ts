@@ -0,0 +1,33 @@
+import type { Options } from "./options";
+
+// Widgets of the toolkit
+/**
+ * A widget of the toolkit.
+ * @remarks
+ * Widgets are rendered lazily.
+ *
+ * @example
+ * ```ts
+ * @tracked
+ * const widget = createWidget("button");
+ * ```
+ * @public
+ */
+export interface Widget {
+  /** Identifier of the widget. */
+  id: string; // unique in a page
+  /* Options given at creation */
+  options: Options;
+}
+
+/**
+ * Create a widget.
+ * @param name - Name of the widget
+ * @example createWidget("button")
+ * @returns The widget
+ */
+export declare function createWidget(name: string): Widget;
+
+// Default size
+/** Default size of the widgets. */
+export declare const DEFAULT_SIZE = 10;
@@ -0,0 +1,10 @@
+/**
+ * Options of a widget.
+ * @example { visible: true }
+ */
+export interface Options {
+  /** Whether the widget is visible. */
+  visible: boolean;
+  // Size in pixels
+  size: number;
+}
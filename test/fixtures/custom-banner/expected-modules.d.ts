@@ -0,0 +1,21 @@
+/*!
+ * @acme/widgets
+ *
+ * MIT License
+ *
+ */
+
+declare module "@acme/widgets" {
+  type Theme = "light" | "dark";
+  export interface Widget {
+    name: string;
+    theme: Theme;
+  }
+  export function render(widget: Widget): string;
+}
+
+declare module "@acme/widgets/theme" {
+  export type Theme = "light" | "dark";
+}
+
+// End of @acme/widgets
@@ -0,0 +1,14 @@
+/*!
+ * @acme/widgets v1.2.3
+ *
+ * Do not edit, generated from input.ts
+ */
+
+type Theme = "light" | "dark";
+export interface Widget {
+  name: string;
+  theme: Theme;
+}
+export declare function render(widget: Widget): string;
+
+// End of @acme/widgets
@@ -0,0 +1,8 @@
+import type { Theme } from "./theme";
+
+export interface Widget {
+  name: string;
+  theme: Theme;
+}
+
+export declare function render(widget: Widget): string;
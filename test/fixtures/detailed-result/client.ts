@@ -0,0 +1,11 @@
+interface Options {
+  url: string;
+}
+
+export interface ClientConfig {
+  options: Options;
+}
+
+export interface UnusedClientType {
+  id: number;
+}
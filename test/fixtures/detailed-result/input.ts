@@ -0,0 +1,11 @@
+import type { Interface } from "fake-package";
+import type { InterfaceFromTypesPackage } from "fake-types-lib";
+import type { ClientConfig } from "./client";
+import type { ServerConfig } from "./server";
+
+export interface Config {
+  client: ClientConfig;
+  server: ServerConfig;
+  extra: Interface;
+  typesPackage: InterfaceFromTypesPackage;
+}
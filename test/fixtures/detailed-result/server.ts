@@ -0,0 +1,7 @@
+interface Options {
+  port: number;
+}
+
+export interface ServerConfig {
+  options: Options;
+}
@@ -0,0 +1,14 @@
+import type { Missing } from "./missing";
+
+interface Result {
+  ok: boolean;
+}
+
+export interface Config {
+  missing: Missing;
+}
+
+export function createResult() {
+  const result: Result = { ok: true };
+  return result;
+}
@@ -0,0 +1,27 @@
+export interface Theme {
+  color: string;
+}
+export interface Widget {
+  theme: Theme;
+}
+declare class Renderer {
+  render(widget: Widget): void;
+}
+interface Button extends Widget {
+  label: string;
+}
+export declare const version: string, build: number;
+export declare class Store {
+  widgets: Widget[];
+}
+interface Circle {
+  radius: number;
+}
+export declare function createButton(label: string): Button;
+export type Size = "small" | "large";
+
+export declare namespace shapes {
+  export { Circle };
+}
+
+export { Renderer as WidgetRenderer };
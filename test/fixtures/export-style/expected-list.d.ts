@@ -0,0 +1,37 @@
+interface Theme {
+  color: string;
+}
+interface Widget {
+  theme: Theme;
+}
+declare class Renderer {
+  render(widget: Widget): void;
+}
+interface Button extends Widget {
+  label: string;
+}
+declare const version: string, build: number;
+declare class Store {
+  widgets: Widget[];
+}
+interface Circle {
+  radius: number;
+}
+declare function createButton(label: string): Button;
+type Size = "small" | "large";
+
+declare namespace shapes {
+  export { Circle };
+}
+
+export {
+  Size,
+  Store,
+  Theme,
+  Widget,
+  Renderer as WidgetRenderer,
+  build,
+  createButton,
+  shapes,
+  version,
+};
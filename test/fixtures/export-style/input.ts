@@ -0,0 +1,11 @@
+import type { Button } from "./widgets";
+
+export type { Widget } from "./widgets";
+export { Renderer as WidgetRenderer, version, build } from "./widgets";
+export type { Store } from "./widgets";
+export type { Theme } from "./theme";
+export * as shapes from "./shapes";
+
+export declare function createButton(label: string): Button;
+
+export type Size = "small" | "large";
@@ -0,0 +1,19 @@
+import type { Theme } from "./theme";
+
+export interface Widget {
+  theme: Theme;
+}
+
+export interface Button extends Widget {
+  label: string;
+}
+
+export declare class Renderer {
+  render(widget: Widget): void;
+}
+
+export declare class Store {
+  widgets: Widget[];
+}
+
+export declare const version: string, build: number;
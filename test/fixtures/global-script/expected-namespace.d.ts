@@ -0,0 +1,24 @@
+declare namespace WidgetKit {
+  type ThemeName = "light" | "dark";
+  export interface Theme {
+    name: ThemeName;
+  }
+  /**
+   * Options of a widget.
+   */
+  export interface WidgetOptions {
+    theme: Theme;
+    fields: import("fake-package").InterfaceWithFields;
+    kind: import("fake-package").ModuleWithoutQuotes.A;
+    type: import("fake-package").Type;
+  }
+  export class Widget {
+    readonly options: WidgetOptions;
+    render(): void;
+  }
+  export namespace Widgets {
+    function register(widget: Widget): void;
+  }
+  export function createWidget(options: WidgetOptions): Widget;
+  export const VERSION: string;
+}
@@ -0,0 +1,22 @@
+type ThemeName = "light" | "dark";
+interface Theme {
+  name: ThemeName;
+}
+/**
+ * Options of a widget.
+ */
+interface WidgetOptions {
+  theme: Theme;
+  fields: import("fake-package").InterfaceWithFields;
+  kind: import("fake-package").ModuleWithoutQuotes.A;
+  type: import("fake-package").Type;
+}
+declare class Widget {
+  readonly options: WidgetOptions;
+  render(): void;
+}
+declare namespace Widgets {
+  function register(widget: Widget): void;
+}
+declare function createWidget(options: WidgetOptions): Widget;
+declare const VERSION: string;
@@ -0,0 +1,28 @@
+import type { InterfaceWithFields, ModuleWithoutQuotes } from "fake-package";
+import type * as fake from "fake-package";
+import type { Theme } from "./theme";
+
+export type { Theme };
+
+/**
+ * Options of a widget.
+ */
+export interface WidgetOptions {
+  theme: Theme;
+  fields: InterfaceWithFields;
+  kind: ModuleWithoutQuotes.A;
+  type: fake.Type;
+}
+
+export declare function createWidget(options: WidgetOptions): Widget;
+
+export declare class Widget {
+  readonly options: WidgetOptions;
+  render(): void;
+}
+
+export declare const VERSION: string;
+
+export declare namespace Widgets {
+  function register(widget: Widget): void;
+}
@@ -0,0 +1,5 @@
+export type ThemeName = "light" | "dark";
+
+export interface Theme {
+  name: ThemeName;
+}
@@ -0,0 +1,9 @@
+import type { Interface } from "fake-package";
+import type { Theme } from "./theme";
+
+export type { Type } from "fake-package";
+export type { Theme as WidgetTheme };
+
+export interface Widget extends Interface {}
+
+export default Widget;
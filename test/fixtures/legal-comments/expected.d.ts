@@ -0,0 +1,26 @@
+/*!
+ * Widgets
+ * Copyright (c) Acme. All rights reserved.
+ */
+
+/*! @myorg/licensed v2.0.0 | MIT License */
+
+/**
+ * @license
+ * Copyright (c) My Org
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software.
+ */
+
+// @license BSD-3-Clause, parts of the local helpers
+
+/** Identifier of a licensed resource */
+interface Licensed {
+  id: string;
+}
+type Local = string;
+export interface Widget {
+  licensed: Licensed;
+  local: Local;
+}
@@ -0,0 +1,14 @@
+/*!
+ * Widgets
+ * Copyright (c) Acme. All rights reserved.
+ */
+
+import type { Licensed } from "@myorg/licensed";
+import type { Local } from "./local";
+import type { Unused } from "./unused";
+
+export interface Widget {
+  licensed: Licensed;
+  local: Local;
+}
+
@@ -0,0 +1,8 @@
+/*!
+ * Widgets
+ * Copyright (c) Acme. All rights reserved.
+ */
+
+// @license BSD-3-Clause, parts of the local helpers
+
+export type Local = string;
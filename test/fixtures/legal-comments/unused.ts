@@ -0,0 +1,3 @@
+/*! Unused, must not be collected */
+
+export type Unused = number;
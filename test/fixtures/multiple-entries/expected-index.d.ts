@@ -0,0 +1,7 @@
+export interface Options {
+  id: string;
+}
+type Handler = (options: Options) => void;
+export interface Props {
+  handler: Handler;
+}
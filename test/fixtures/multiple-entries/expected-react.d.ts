@@ -0,0 +1,8 @@
+interface Options {
+  id: string;
+}
+export interface Props {
+  options: Options;
+  children?: unknown;
+}
+export type Handler = (options: Options) => void;
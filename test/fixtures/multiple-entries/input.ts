@@ -0,0 +1,7 @@
+import type { Handler, Options } from "./shared";
+
+export interface Props {
+  handler: Handler;
+}
+
+export type { Options };
@@ -0,0 +1,6 @@
+import type { Options } from "./shared";
+
+export interface Props {
+  options: Options;
+  children?: unknown;
+}
@@ -0,0 +1,2 @@
+export type { Props } from "./react-only";
+export type { Handler } from "./shared";
@@ -0,0 +1,28 @@
+interface Bounds {
+  min: Point;
+  max: Point;
+}
+export declare class Canvas {
+  layer: Layer;
+  draw(shape: Shape, at: Point): void;
+}
+interface CanvasOptions {
+  layer: Layer;
+  background: Color;
+}
+type Color = "red" | "green";
+export declare enum Layer {
+  Back = 0,
+  Front = 1,
+}
+export interface Point {
+  x: number;
+  y: number;
+}
+export interface Shape {
+  bounds: Bounds;
+  color: Color;
+}
+export declare function createCanvas(options: CanvasOptions): Canvas;
+export declare const defaultColor: Color;
+export declare function drawShape(shape: Shape): void;
@@ -0,0 +1,28 @@
+export declare function drawShape(shape: Shape): void;
+export declare class Canvas {
+  layer: Layer;
+  draw(shape: Shape, at: Point): void;
+}
+type Color = "red" | "green";
+interface Bounds {
+  min: Point;
+  max: Point;
+}
+export interface Shape {
+  bounds: Bounds;
+  color: Color;
+}
+export interface Point {
+  x: number;
+  y: number;
+}
+export declare enum Layer {
+  Back = 0,
+  Front = 1,
+}
+interface CanvasOptions {
+  layer: Layer;
+  background: Color;
+}
+export declare function createCanvas(options: CanvasOptions): Canvas;
+export declare const defaultColor: Color;
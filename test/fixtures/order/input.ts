@@ -0,0 +1,24 @@
+import type { Color, Point, Shape } from "./shapes";
+
+export declare function drawShape(shape: Shape): void;
+
+export declare class Canvas {
+  layer: Layer;
+  draw(shape: Shape, at: Point): void;
+}
+
+export type { Shape, Point };
+
+export enum Layer {
+  Back,
+  Front,
+}
+
+interface CanvasOptions {
+  layer: Layer;
+  background: Color;
+}
+
+export declare function createCanvas(options: CanvasOptions): Canvas;
+
+export declare const defaultColor: Color;
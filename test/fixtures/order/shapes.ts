@@ -0,0 +1,16 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Color = "red" | "green";
+
+interface Bounds {
+  min: Point;
+  max: Point;
+}
+
+export interface Shape {
+  bounds: Bounds;
+  color: Color;
+}
@@ -0,0 +1,24 @@
+import type { Interface } from 'fake-package'
+
+export type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number }
+/**
+ * Options of a canvas.
+ */
+export interface CanvasOptions {
+	mode: 'fill' | 'stroke'
+	label: `canvas-${string}`
+	quote: "it's"
+	style: {
+		color: string
+		width?: number
+	}
+	parent?: Interface
+}
+export declare class Canvas {
+	readonly options: CanvasOptions
+	draw(shape: Shape): void
+}
+export declare const enum Layer {
+	Background = 'background',
+	Foreground = 'foreground',
+}
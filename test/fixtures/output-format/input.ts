@@ -0,0 +1,28 @@
+import type { Interface } from "fake-package";
+import type { Shape } from "./shapes";
+
+export type { Shape };
+
+/**
+ * Options of a canvas.
+ */
+export interface CanvasOptions {
+  mode: "fill" | 'stroke';
+  label: `canvas-${string}`;
+  quote: "it's";
+  style: {
+    color: string;
+    width?: number;
+  };
+  parent?: Interface;
+}
+
+export declare class Canvas {
+  readonly options: CanvasOptions;
+  draw(shape: Shape): void;
+}
+
+export declare const enum Layer {
+  Background = "background",
+  Foreground = "foreground",
+}
@@ -0,0 +1 @@
+export type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number };
@@ -0,0 +1,8 @@
+export interface Options {
+  id: string;
+}
+type Handler = (options: Options) => void;
+export interface Client {
+  options: Options;
+  on(handler: Handler): void;
+}
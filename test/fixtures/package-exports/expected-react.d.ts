@@ -0,0 +1,12 @@
+interface Options {
+  id: string;
+}
+type Handler = (options: Options) => void;
+interface Client {
+  options: Options;
+  on(handler: Handler): void;
+}
+export interface ProviderProps {
+  client: Client;
+  children?: unknown;
+}
@@ -0,0 +1,8 @@
+import type { Handler, Options } from "./shared";
+
+export interface Client {
+  options: Options;
+  on(handler: Handler): void;
+}
+
+export type { Options };
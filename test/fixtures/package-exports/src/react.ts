@@ -0,0 +1,6 @@
+import type { Client } from "./index";
+
+export interface ProviderProps {
+  client: Client;
+  children?: unknown;
+}
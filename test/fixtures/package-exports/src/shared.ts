@@ -0,0 +1,5 @@
+export interface Options {
+  id: string;
+}
+
+export type Handler = (options: Options) => void;
@@ -0,0 +1,13 @@
+/** @public */
+type Helper = () => void;
+/** @public */
+interface CreateOptions {
+  helper: Helper;
+}
+/** @public */
+export declare function create(options: CreateOptions): void;
+/** @public */
+export declare const VERSION: string;
+
+export type { CreateOptions as Options };
+// Generated with the public-api plugin
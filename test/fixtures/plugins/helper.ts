@@ -0,0 +1 @@
+export type Helper = () => void;
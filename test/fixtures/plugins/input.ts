@@ -0,0 +1,13 @@
+import type { Helper } from "./helper";
+
+export interface Options {
+  helper: Helper;
+}
+
+export interface Internal {
+  secret: string;
+}
+
+export declare function create(options: Options): void;
+
+export declare const VERSION: string;
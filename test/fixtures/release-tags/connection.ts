@@ -0,0 +1,29 @@
+import type { Interface } from "fake-package";
+
+/** @internal */
+export interface RawSocket {
+  fd: number;
+  native: Interface;
+}
+
+export interface RetryPolicy {
+  attempts: number;
+}
+
+/** @alpha */
+export interface Tracer {
+  trace(message: string): void;
+}
+
+/**
+ * A connection to the engine.
+ */
+export interface Connection {
+  url: string;
+  /** @internal */
+  socket: RawSocket;
+  /** @beta */
+  retry?: RetryPolicy;
+  /** @alpha */
+  tracer?: Tracer;
+}
@@ -0,0 +1,28 @@
+export interface RetryPolicy {
+  attempts: number;
+}
+/**
+ * A connection to the engine.
+ */
+export interface Connection {
+  url: string;
+  /** @beta */
+  retry?: RetryPolicy;
+}
+/**
+ * Connect to the engine.
+ * @public
+ */
+export declare function connect(url: string): Connection;
+/**
+ * Open a session on a connection.
+ * @beta
+ */
+export declare function openSession(connection: Connection): Session;
+export declare enum Mode {
+  Read = 0,
+  Write = 2,
+}
+export declare class Engine {
+  open(): Connection;
+}
@@ -0,0 +1,21 @@
+export interface RetryPolicy {
+  attempts: number;
+}
+/**
+ * A connection to the engine.
+ */
+export interface Connection {
+  url: string;
+}
+/**
+ * Connect to the engine.
+ * @public
+ */
+export declare function connect(url: string): Connection;
+export declare enum Mode {
+  Read = 0,
+  Write = 2,
+}
+export declare class Engine {
+  open(): Connection;
+}
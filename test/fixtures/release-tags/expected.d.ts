@@ -0,0 +1,38 @@
+/** @alpha */
+interface Tracer {
+  trace(message: string): void;
+}
+export interface RetryPolicy {
+  attempts: number;
+}
+/**
+ * A connection to the engine.
+ */
+export interface Connection {
+  url: string;
+  /** @beta */
+  retry?: RetryPolicy;
+  /** @alpha */
+  tracer?: Tracer;
+}
+/**
+ * Connect to the engine.
+ * @public
+ */
+export declare function connect(url: string): Connection;
+/** @alpha */
+export interface Session {
+  id: string;
+}
+/**
+ * Open a session on a connection.
+ * @beta
+ */
+export declare function openSession(connection: Connection): Session;
+export declare enum Mode {
+  Read = 0,
+  Write = 2,
+}
+export declare class Engine {
+  open(): Connection;
+}
@@ -0,0 +1,41 @@
+import type { Connection } from "./connection";
+
+export type { Connection, RetryPolicy } from "./connection";
+
+/**
+ * Connect to the engine.
+ * @public
+ */
+export declare function connect(url: string): Connection;
+
+/**
+ * Open a session on a connection.
+ * @beta
+ */
+export declare function openSession(connection: Connection): Session;
+
+/** @alpha */
+export interface Session {
+  id: string;
+}
+
+/** @internal */
+export declare function resetConnections(): void;
+
+export declare enum Mode {
+  Read,
+  /** @internal */
+  Debug,
+  Write,
+}
+
+export declare class Engine {
+  open(): Connection;
+  /** @internal */
+  state: EngineState;
+}
+
+/** @internal */
+interface EngineState {
+  connections: Connection[];
+}
@@ -0,0 +1,5 @@
+export interface A {
+  x: string;
+}
+
+export type B = ;
@@ -0,0 +1,6 @@
+interface Options {
+  url: string;
+}
+export interface Config {
+  options: Options;
+}
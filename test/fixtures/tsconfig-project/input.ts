@@ -0,0 +1,5 @@
+import type { Options } from "~/Options";
+
+export interface Config {
+  options: Options;
+}
@@ -60,3 +60,32 @@ export function runTestCase(testName: string, options: RunTestCaseOptions = {}):
   const expected = fs.readFileSync(expectedFile, "utf8");
   return { expected, result };
 }
+
+/**
+ * Helper function to run a multi-entry test case
+ * @param {string} testName - Name of the test case (folder in fixtures/)
+ * @param {Record<string, string>} entries - Map of entry key to entry file name within the fixture folder
+ * @param {object} options - Options to pass to bundleTypes
+ * @returns Expected and actual results keyed by entry key (expected files are named `expected-<key>.d.ts`)
+ */
+export function runMultiEntryTestCase(
+  testName: string,
+  entries: Record<string, string>,
+  options: RunTestCaseOptions = {},
+): Record<string, ExptectedResult> {
+  const fixtureDir = path.join(testDir, testName);
+  const entryFiles = Object.fromEntries(
+    Object.entries(entries).map(([key, fileName]) => [key, path.join(fixtureDir, fileName)]),
+  );
+  const results = bundleTypes({ entries: entryFiles, noBanner: true, ...options });
+
+  const output: Record<string, ExptectedResult> = {};
+  for (const [key, result] of Object.entries(results)) {
+    const expectedFile = path.join(fixtureDir, `expected-${key}.d.ts`);
+    if (process.env.UPDATE_EXPECTED) {
+      fs.writeFileSync(expectedFile, result);
+    }
+    output[key] = { expected: fs.readFileSync(expectedFile, "utf8"), result };
+  }
+  return output;
+}